@@ -4,13 +4,16 @@ import NotFound from "@/pages/NotFound";
 import { Route, Switch } from "wouter";
 import ErrorBoundary from "./components/ErrorBoundary";
 import { ThemeProvider } from "./contexts/ThemeContext";
+import { TrackingProvider } from "./contexts/TrackingContext";
 import Home from "./pages/Home";
+import Metrics from "./pages/Metrics";
 
 
 function Router() {
   return (
     <Switch>
       <Route path={"/"} component={Home} />
+      <Route path={"/metrics"} component={Metrics} />
       <Route path={"/404"} component={NotFound} />
       {/* Final fallback route */}
       <Route component={NotFound} />
@@ -32,7 +35,9 @@ function App() {
       >
         <TooltipProvider>
           <Toaster />
-          <Router />
+          <TrackingProvider>
+            <Router />
+          </TrackingProvider>
         </TooltipProvider>
       </ThemeProvider>
     </ErrorBoundary>
@@ -1,6 +1,39 @@
 import { useState, useEffect, useRef } from 'react';
-import { IrisData } from '../../hooks/useHeadTracking';
-import { PolynomialRegression } from '../../utils/RegressionUtils';
+import { PolynomialRegression, RegressionModel } from '../../utils/RegressionUtils';
+import { EyeMovementAnalyzer } from '../../utils/EyeMovementAnalyzer';
+import { TrackingResult } from '../../utils/HeadTrackingPipeline';
+import { clockNow } from '../../utils/LandmarkSource';
+import { TrackingStore } from '../../utils/TrackingStore';
+import { fitPursuit, PURSUIT_DURATION_MS, PursuitSample, pursuitTarget } from '../../utils/PursuitCalibration';
+import {
+    BAD_POINT_ERROR_DEG,
+    evaluatePoint,
+    GazeSample,
+    GOOD_POINT_ERROR_DEG,
+    PointError,
+    summarizeValidation,
+    ValidationReport,
+    ValidationSummary,
+} from '../../utils/CalibrationValidation';
+import {
+    CALIBRATION_MODES,
+    CALIBRATION_PATTERNS,
+    CALIBRATION_TIMING_LIMITS,
+    CalibrationMode,
+    CalibrationPattern,
+    CalibrationSettings,
+    CalibrationTarget,
+    calibrationTargets,
+    loadCalibrationSettings,
+    PURSUIT_PATHS,
+    PursuitPath,
+    saveCalibrationSettings,
+    TARGET_ANIMATIONS,
+    TargetAnimation,
+    targetOrder,
+    validationTargets,
+} from '../../utils/CalibrationSettings';
+import { Slider } from './slider';
 
 export interface CalibrationData {
     inputXMin: number;
@@ -9,6 +42,7 @@ export interface CalibrationData {
     inputYMax: number;
     matrix?: number[]; // Homography Matrix (Legacy)
     regression?: { x: number[], y: number[] }; // Polynomial Coefficients
+    validation?: ValidationSummary; // Accuracy / precision on the validation targets
 }
 
 
@@ -18,142 +52,556 @@ export interface CalibrationData {
 
 
 interface CalibrationOverlayProps {
-    gaze: { yaw: number, pitch: number }; // Gaze Data
+    store: TrackingStore; // Every frame's gaze; frames during a blink or a saccade are rejected
+    pixelsPerMm: number; // Display density and viewing distance, for the angular errors
+    distanceMm: number;
     onComplete: (data: CalibrationData) => void;
     onCancel: () => void;
 }
 
-const POINTS = [
-    { x: 10, y: 10, id: 0 }, // Top-Left
-    { x: 50, y: 10, id: 1 }, // Top-Center
-    { x: 90, y: 10, id: 2 }, // Top-Right
+const MODE_LABELS: Record<CalibrationMode, string> = {
+    points: "Points",
+    pursuit: "Smooth pursuit",
+};
 
-    { x: 10, y: 50, id: 3 }, // Mid-Left
-    { x: 50, y: 50, id: 4 }, // Center
-    { x: 90, y: 50, id: 5 }, // Mid-Right
+const PURSUIT_PATH_LABELS: Record<PursuitPath, string> = {
+    lissajous: "Lissajous",
+    spiral: "Spiral",
+};
 
-    { x: 10, y: 90, id: 6 }, // Bottom-Left
-    { x: 50, y: 90, id: 7 }, // Bottom-Center
-    { x: 90, y: 90, id: 8 }, // Bottom-Right
-];
+const PATTERN_LABELS: Record<CalibrationPattern, string> = {
+    five: "5 points",
+    nine: "9 points",
+    thirteen: "13 points",
+    sixteen: "16 points",
+};
 
-export function CalibrationOverlay({ gaze, onComplete, onCancel }: CalibrationOverlayProps) {
+const ANIMATION_LABELS: Record<TargetAnimation, string> = {
+    shrink: "Shrinking",
+    static: "Static",
+};
+
+// Target animation / countdown refresh
+const TICK_MS = 50;
+// A point with fewer accepted samples is shown again (up to MAX_POINT_ATTEMPTS times in all)
+const MIN_POINT_SAMPLES = 3;
+const MAX_POINT_ATTEMPTS = 3;
+
+type Phase = 'setup' | 'calibrate' | 'pursuit' | 'validate' | 'result';
+
+interface CalibrationResult {
+    validation: ValidationReport | null;          // Null when no validation target had usable samples
+    calibration: (PointError & { id: number })[]; // Fit residuals of the calibration points
+    badPoints: number[];                          // Calibration point ids to redo
+    model: RegressionModel | null;                // Linear with fewer than 6 calibration points
+    pursuit?: { lagMs: number, pairs: number, rejected: number };
+}
+
+export function CalibrationOverlay({ store, pixelsPerMm, distanceMm, onComplete, onCancel }: CalibrationOverlayProps) {
+    const [settings, setSettings] = useState<CalibrationSettings>(loadCalibrationSettings);
+    const [phase, setPhase] = useState<Phase>('setup');
+    const [points, setPoints] = useState<CalibrationTarget[]>([]);
+    const [validationPoints, setValidationPoints] = useState<CalibrationTarget[]>([]);
+    // Target ids visited in this phase (a redo only revisits the bad points)
+    const [queue, setQueue] = useState<number[]>([]);
     const [step, setStep] = useState(0);
-    const [samples, setSamples] = useState<{ x: number, y: number }[]>([]);
-    const [countdown, setCountdown] = useState(3);
+    const [attempt, setAttempt] = useState(0);
+    const [elapsed, setElapsed] = useState(0); // ms since the current target appeared
+    const [result, setResult] = useState<CalibrationResult | null>(null);
+    const [pursuitFit, setPursuitFit] = useState<CalibrationResult['pursuit']>(undefined);
 
     // Collecting samples for current point
-    const currentSamplesRef = useRef<{ yaw: number, pitch: number }[]>([]);
+    const currentSamplesRef = useRef<GazeSample[]>([]);
+    // Raw samples per target id, kept for refits and the precision measure
+    const calibrationSamplesRef = useRef<Record<number, GazeSample[]>>({});
+    const validationSamplesRef = useRef<Record<number, GazeSample[]>>({});
+    const regressionRef = useRef<PolynomialRegression | null>(null);
+    // Moving pursuit target, positioned every animation frame without re-rendering
+    const pursuitTargetRef = useRef<HTMLDivElement>(null);
+
+    const targets = phase === 'validate' ? validationPoints : points;
+    const sampleMs = Math.min(settings.sampleMs, settings.dwellMs);
+    const sampling = (phase === 'calibrate' || phase === 'validate') && elapsed >= settings.dwellMs - sampleMs;
+
+    const updateSettings = (patch: Partial<CalibrationSettings>) => {
+        const next = { ...settings, ...patch };
+        saveCalibrationSettings(next);
+        setSettings(next);
+    };
 
     useEffect(() => {
-        // Start countdown for each step
-        setCountdown(3);
+        if (phase !== 'calibrate' && phase !== 'validate') return;
+
+        // Show point -> User looks -> Record during the last sampleMs of the dwell -> Next.
         currentSamplesRef.current = [];
+        setElapsed(0);
+        const start = performance.now();
+        const samplingFrom = clockNow() + settings.dwellMs - sampleMs;
+
+        // Every frame is checked on its own, not the throttled UI copy
+        const accept = sampleFilter();
+        const unsubscribe = store.subscribe(result => {
+            if (accept(result) && result.timestamp >= samplingFrom) currentSamplesRef.current.push(result.gaze);
+        });
 
         const timer = setInterval(() => {
-            setCountdown((c) => {
-                if (c <= 1) {
-                    // Finish this step
-                    clearInterval(timer);
-                    recordPoint();
-                    return 0;
-                }
-                return c - 1;
-            });
-        }, 1000); // 1 second per count? A bit slow. Let's do faster.
-        // Actually, user needs time to look. 
-        // Let's do: Show point -> User looks -> Wait 1s -> Record for 0.5s -> Next.
+            const now = performance.now() - start;
+            setElapsed(now);
+            if (now >= settings.dwellMs) {
+                // Finish this step
+                clearInterval(timer);
+                unsubscribe();
+                recordPoint();
+            }
+        }, TICK_MS);
 
-        return () => clearInterval(timer);
-    }, [step]);
+        return () => {
+            clearInterval(timer);
+            unsubscribe();
+        };
+    }, [phase, queue, step, attempt]);
 
-    // Collecting gaze data continuously
+    // Pursuit: the target follows the path while every tracked frame is paired with the time it
+    // was captured; the lag to the target is estimated when the pass is over
     useEffect(() => {
-        if (countdown <= 1) {
-            // Collect data while "1" or "0" (capturing phase)
-            currentSamplesRef.current.push(gaze);
-        }
-    }, [gaze, countdown]);
+        if (phase !== 'pursuit') return;
 
-    const recordPoint = () => {
-        // Average samples
-        const valid = currentSamplesRef.current.filter(r => r && !isNaN(r.yaw) && !isNaN(r.pitch));
-        if (valid.length === 0) valid.push(gaze); // Fallback
+        const path = settings.pursuitPath;
+        const samples: PursuitSample[] = [];
+        const startedAt = clockNow();
+        let frame = 0;
+
+        const accept = sampleFilter();
+        const unsubscribe = store.subscribe(result => {
+            if (!accept(result)) return;
+            samples.push({ time: result.timestamp - startedAt, yaw: result.gaze.yaw, pitch: result.gaze.pitch });
+        });
+
+        const animate = () => {
+            const elapsed = clockNow() - startedAt;
+            const target = pursuitTarget(path, elapsed);
+            if (pursuitTargetRef.current) {
+                pursuitTargetRef.current.style.left = `${target.x * 100}%`;
+                pursuitTargetRef.current.style.top = `${target.y * 100}%`;
+            }
+            if (elapsed < PURSUIT_DURATION_MS) {
+                frame = requestAnimationFrame(animate);
+            } else {
+                unsubscribe();
+                finishPursuit(samples, path);
+            }
+        };
+        frame = requestAnimationFrame(animate);
+
+        return () => {
+            cancelAnimationFrame(frame);
+            unsubscribe();
+        };
+    }, [phase]);
 
-        const avgX = valid.reduce((sum, v) => sum + v.yaw, 0) / valid.length;
-        const avgY = valid.reduce((sum, v) => sum + v.pitch, 0) / valid.length;
+    const start = () => {
+        // Pursuit has no calibration points; it is validated on the fixed targets
+        const calibration = settings.mode === 'pursuit' ? [] : calibrationTargets(settings.pattern);
+        calibrationSamplesRef.current = {};
+        validationSamplesRef.current = {};
+        regressionRef.current = null;
+        setPoints(calibration);
+        setValidationPoints(validationTargets(calibration));
+        setResult(null);
+        setPursuitFit(undefined);
+        setQueue(targetOrder(calibration, settings.randomOrder));
+        setStep(0);
+        setAttempt(0);
+        setPhase(settings.mode === 'pursuit' ? 'pursuit' : 'calibrate');
+    };
 
-        // Log sample
-        // console.log(`Point ${step}: Screen(${POINTS[step].x}, ${POINTS[step].y}) -> Gaze(${avgX.toFixed(3)}, ${avgY.toFixed(3)})`);
+    const recordPoint = () => {
+        const valid = currentSamplesRef.current;
+        if (valid.length < MIN_POINT_SAMPLES && attempt < MAX_POINT_ATTEMPTS - 1) {
+            // Mostly blinks / saccades: show the same target again
+            setAttempt(attempt + 1);
+            return;
+        }
+        const last = store.current?.gaze;
+        if (valid.length === 0 && last && !isNaN(last.yaw) && !isNaN(last.pitch)) valid.push(last); // Fallback
 
-        const newSamples = [...samples, { x: avgX, y: avgY }];
-        setSamples(newSamples);
+        const id = queue[step];
+        if (phase === 'calibrate') calibrationSamplesRef.current[id] = valid;
+        else validationSamplesRef.current[id] = valid;
 
-        if (step < POINTS.length - 1) {
-            setTimeout(() => setStep(step + 1), 500);
+        if (step < queue.length - 1) {
+            setTimeout(() => {
+                setAttempt(0);
+                setStep(step + 1);
+            }, 500);
+        } else if (phase === 'calibrate') {
+            fitCalibration();
         } else {
-            finishCalibration(newSamples);
+            finishValidation();
         }
     };
 
-    const finishCalibration = (finalSamples: { x: number, y: number }[]) => {
+    const fitCalibration = () => {
         // Prepare Points for Regression
-        // Input: Gaze { x: yaw, y: pitch }
-        // Output: Screen { x: pixelX, y: pixelY } (or normalized)
-
-        // We train to predict NORMALIZED screen coordinates (0..1)
-        // because GazeController handles scaling to window size.
+        // Input: Gaze { x: yaw, y: pitch } averaged per point
+        // Output: Screen, NORMALIZED (0..1); GazeController maps it through the camera frustum
+        if (points.some(p => !calibrationSamplesRef.current[p.id]?.length)) {
+            console.error("Calibration Failed: no gaze samples for some points");
+            onCancel();
+            return;
+        }
 
-        const inputs = finalSamples.map(s => ({ x: s.x, y: s.y }));
-        const outputs = POINTS.map(p => ({ x: p.x / 100.0, y: p.y / 100.0 }));
+        const inputs = points.map(p => {
+            const samples = calibrationSamplesRef.current[p.id];
+            return {
+                x: samples.reduce((sum, v) => sum + v.yaw, 0) / samples.length,
+                y: samples.reduce((sum, v) => sum + v.pitch, 0) / samples.length,
+            };
+        });
+        const outputs = points.map(p => ({ x: p.x / 100.0, y: p.y / 100.0 }));
 
         const regression = new PolynomialRegression();
         regression.fit(inputs, outputs);
         const coeffs = regression.getCoefficients();
-
-        if (coeffs.x && coeffs.y) {
-            onComplete({
-                inputXMin: 0, // Unused for Regression
-                inputXMax: 0,
-                inputYMin: 0,
-                inputYMax: 0,
-                regression: { x: coeffs.x, y: coeffs.y }
-            });
-        } else {
+        if (!coeffs.x || !coeffs.y) {
             console.error("Calibration Failed");
             onCancel();
+            return;
         }
+        regressionRef.current = regression;
+        startValidation();
     };
 
+    // Validate with fresh targets
+    const startValidation = () => {
+        setTimeout(() => {
+            setQueue(targetOrder(validationPoints, settings.randomOrder));
+            setStep(0);
+            setAttempt(0);
+            setPhase('validate');
+        }, 500);
+    };
 
+    const finishPursuit = (samples: PursuitSample[], path: PursuitPath) => {
+        const fit = fitPursuit(samples, path);
+        if (!fit) {
+            console.error(`Pursuit Calibration Failed (${samples.length} samples)`);
+            onCancel();
+            return;
+        }
+        regressionRef.current = fit.regression;
+        setPursuitFit({ lagMs: fit.lagMs, pairs: fit.pairs, rejected: fit.rejected });
+        startValidation();
+    };
 
-    return (
-        <div className="fixed inset-0 z-[2000] bg-black/90 flex flex-col items-center justify-center text-white">
-            <div className="absolute top-8 text-2xl font-bold">Calibration</div>
-            <div className="absolute top-16 text-lg text-stone-400">
-                赤い円を見つめてください ({step + 1} / {POINTS.length})
+    const finishValidation = () => {
+        const regression = regressionRef.current!;
+        const geometry = { screenWidth: window.innerWidth, screenHeight: window.innerHeight, pixelsPerMm, distanceMm };
+        const evaluate = (target: CalibrationTarget, samples: GazeSample[]) =>
+            evaluatePoint(regression, { x: target.x / 100, y: target.y / 100 }, samples, geometry);
+
+        const validation = summarizeValidation(validationPoints
+            .map(p => evaluate(p, validationSamplesRef.current[p.id]))
+            .filter((e): e is PointError => e !== null));
+        const calibration = points.flatMap(p => {
+            const error = evaluate(p, calibrationSamplesRef.current[p.id]);
+            return error ? [{ ...error, id: p.id }] : [];
+        });
+
+        // Bad: calibration points off their own fit, and the calibration point nearest each bad
+        // validation target (the fit is pulled wrong around it)
+        const bad = new Set<number>();
+        calibration.forEach(e => e.errorDeg > BAD_POINT_ERROR_DEG && bad.add(e.id));
+        (validation?.points ?? [])
+            .filter(e => points.length > 0 && e.errorDeg > BAD_POINT_ERROR_DEG)
+            .forEach(e => {
+                const distance = (p: CalibrationTarget) => Math.hypot(p.x / 100 - e.target.x, p.y / 100 - e.target.y);
+                const nearest = points.reduce((best, p) => (distance(p) < distance(best) ? p : best));
+                bad.add(nearest.id);
+            });
+
+        setResult({ validation, calibration, badPoints: Array.from(bad).sort((a, b) => a - b), pursuit: pursuitFit, model: regression.getModel() });
+        setPhase('result');
+    };
+
+    const accept = () => {
+        // An unvalidated fit is not accepted; the user retries instead
+        if (!result?.validation) return;
+        const coeffs = regressionRef.current!.getCoefficients();
+        const { accuracyPx, accuracyDeg, precisionPx, precisionDeg } = result.validation;
+        onComplete({
+            inputXMin: 0, // Unused for Regression
+            inputXMax: 0,
+            inputYMin: 0,
+            inputYMax: 0,
+            regression: { x: coeffs.x!, y: coeffs.y! },
+            validation: { accuracyPx, accuracyDeg, precisionPx, precisionDeg },
+        });
+    };
+
+    const redoBadPoints = () => {
+        setResult(null);
+        setQueue(result!.badPoints);
+        setStep(0);
+        setAttempt(0);
+        setPhase('calibrate');
+    };
+
+    if (phase === 'setup') {
+        return (
+            <div className="fixed inset-0 z-[2000] bg-black/90 flex flex-col items-center justify-center gap-6 text-white">
+                <div className="text-2xl font-bold">Calibration</div>
+
+                <div className="flex flex-col gap-4 w-80 text-sm">
+                    <label className="flex items-center justify-between gap-3">
+                        <span className="text-stone-300">Mode</span>
+                        <select
+                            value={settings.mode}
+                            onChange={(e) => updateSettings({ mode: e.target.value as CalibrationMode })}
+                            className="bg-black/40 border border-white/20 rounded px-2 py-1"
+                        >
+                            {CALIBRATION_MODES.map(m => (
+                                <option key={m} value={m}>{MODE_LABELS[m]}</option>
+                            ))}
+                        </select>
+                    </label>
+                    {settings.mode === 'pursuit' ? (
+                        <>
+                            <label className="flex items-center justify-between gap-3">
+                                <span className="text-stone-300">Path</span>
+                                <select
+                                    value={settings.pursuitPath}
+                                    onChange={(e) => updateSettings({ pursuitPath: e.target.value as PursuitPath })}
+                                    className="bg-black/40 border border-white/20 rounded px-2 py-1"
+                                >
+                                    {PURSUIT_PATHS.map(p => (
+                                        <option key={p} value={p}>{PURSUIT_PATH_LABELS[p]}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            <span className="text-xs text-stone-500">
+                                動く円を約{PURSUIT_DURATION_MS / 1000}秒間目で追ってください。全フレームの視線を目標位置と対応付けて回帰に使います。
+                            </span>
+                        </>
+                    ) : (
+                        <>
+                            <label className="flex items-center justify-between gap-3">
+                                <span className="text-stone-300">Pattern</span>
+                                <select
+                                    value={settings.pattern}
+                                    onChange={(e) => updateSettings({ pattern: e.target.value as CalibrationPattern })}
+                                    className="bg-black/40 border border-white/20 rounded px-2 py-1"
+                                >
+                                    {CALIBRATION_PATTERNS.map(p => (
+                                        <option key={p} value={p}>{PATTERN_LABELS[p]}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="flex items-center justify-between gap-3">
+                                <span className="text-stone-300">Target</span>
+                                <select
+                                    value={settings.animation}
+                                    onChange={(e) => updateSettings({ animation: e.target.value as TargetAnimation })}
+                                    className="bg-black/40 border border-white/20 rounded px-2 py-1"
+                                >
+                                    {TARGET_ANIMATIONS.map(a => (
+                                        <option key={a} value={a}>{ANIMATION_LABELS[a]}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="flex items-center justify-between gap-3">
+                                <span className="text-stone-300">Random order</span>
+                                <input
+                                    type="checkbox"
+                                    checked={settings.randomOrder}
+                                    onChange={(e) => updateSettings({ randomOrder: e.target.checked })}
+                                />
+                            </label>
+                            {(['dwellMs', 'sampleMs'] as const).map(field => (
+                                <div key={field} className="flex flex-col gap-2">
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-stone-300">{field === 'dwellMs' ? "Dwell per target" : "Sample window"}</span>
+                                        <span className="font-mono text-stone-400">{(settings[field] / 1000).toFixed(2)} s</span>
+                                    </div>
+                                    <Slider
+                                        value={[settings[field]]}
+                                        min={CALIBRATION_TIMING_LIMITS[field].min}
+                                        max={CALIBRATION_TIMING_LIMITS[field].max}
+                                        step={CALIBRATION_TIMING_LIMITS[field].step}
+                                        onValueChange={([v]) => updateSettings({ [field]: v })}
+                                    />
+                                </div>
+                            ))}
+                            <span className="text-xs text-stone-500">
+                                表示時間の最後の区間で視線を記録します（瞬き・サッケード中のサンプルは除外）。
+                            </span>
+                        </>
+                    )}
+                </div>
+
+                <div className="flex gap-3">
+                    <button
+                        onClick={start}
+                        className="px-6 py-2 bg-white text-black rounded-full hover:bg-stone-200"
+                    >
+                        Start
+                    </button>
+                    <button
+                        onClick={onCancel}
+                        className="px-6 py-2 border border-stone-600 rounded-full hover:bg-stone-800"
+                    >
+                        Cancel
+                    </button>
+                </div>
             </div>
+        );
+    }
+
+    if (phase === 'result' && result) {
+        const { validation } = result;
+        return (
+            <div className="fixed inset-0 z-[2000] bg-black/90 flex flex-col items-center justify-center gap-6 text-white">
+                <div className="text-2xl font-bold">Validation</div>
+
+                <ErrorVectorPlot result={result} />
+
+                <div className="grid grid-cols-2 gap-x-8 gap-y-1 text-sm font-mono">
+                    {validation ? (
+                        <>
+                            <span className="text-stone-400">Accuracy 精度 (平均オフセット)</span>
+                            <span className={gradeColor(validation.accuracyDeg)}>
+                                {validation.accuracyDeg.toFixed(2)}° ({validation.accuracyPx.toFixed(0)} px)
+                            </span>
+                            <span className="text-stone-400">Precision 安定性 (RMS)</span>
+                            <span>{validation.precisionDeg.toFixed(2)}° ({validation.precisionPx.toFixed(0)} px)</span>
+                        </>
+                    ) : (
+                        <span className="col-span-2 text-red-400">
+                            検証データがありません（瞬き・サッケード・トラッキング喪失）。Retry してください。
+                        </span>
+                    )}
+                    {result.model && (
+                        <>
+                            <span className="text-stone-400">Model 補正モデル</span>
+                            <span className={result.model === 'linear' ? 'text-yellow-400' : undefined}>
+                                {result.model === 'linear' ? 'Linear 線形 (6点未満)' : 'Quadratic 2次'}
+                            </span>
+                        </>
+                    )}
+                    {result.pursuit && (
+                        <>
+                            <span className="text-stone-400">Pursuit 追従 (pairs / lag)</span>
+                            <span>{result.pursuit.pairs} ({result.pursuit.rejected} rejected) / {result.pursuit.lagMs} ms</span>
+                        </>
+                    )}
+                </div>
+
+                <div className="flex gap-3">
+                    <button
+                        onClick={accept}
+                        disabled={!validation}
+                        className="px-6 py-2 bg-white text-black rounded-full hover:bg-stone-200 disabled:opacity-40 disabled:hover:bg-white"
+                    >
+                        Accept
+                    </button>
+                    <button
+                        onClick={redoBadPoints}
+                        disabled={result.badPoints.length === 0}
+                        className="px-6 py-2 border border-stone-600 rounded-full hover:bg-stone-800 disabled:opacity-40 disabled:hover:bg-transparent"
+                    >
+                        Redo bad points ({result.badPoints.length})
+                    </button>
+                    <button
+                        onClick={start}
+                        className="px-6 py-2 border border-stone-600 rounded-full hover:bg-stone-800"
+                    >
+                        Retry
+                    </button>
+                    <button
+                        onClick={onCancel}
+                        className="px-6 py-2 border border-stone-600 rounded-full hover:bg-stone-800"
+                    >
+                        Cancel
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    if (phase === 'pursuit') {
+        const initial = pursuitTarget(settings.pursuitPath, 0);
+        return (
+            <div className="fixed inset-0 z-[2000] bg-black/90 flex flex-col items-center justify-center text-white">
+                <div className="absolute top-8 text-2xl font-bold">Smooth pursuit</div>
+                <div className="absolute top-16 text-lg text-stone-400">赤い円を目で追ってください（頭は動かさずに）</div>
 
-            {/* Grid Points */}
-            {POINTS.map((p, idx) => (
                 <div
-                    key={idx}
-                    className="absolute w-8 h-8 rounded-full flex items-center justify-center transition-all duration-300"
+                    ref={pursuitTargetRef}
+                    className="absolute w-6 h-6 rounded-full flex items-center justify-center"
                     style={{
-                        left: `${p.x}%`,
-                        top: `${p.y}%`,
+                        left: `${initial.x * 100}%`,
+                        top: `${initial.y * 100}%`,
                         transform: 'translate(-50%, -50%)',
-                        backgroundColor: idx === step ? '#ff0055' : '#333',
-                        border: idx === step ? '4px solid white' : 'none',
-                        opacity: idx < step ? 0.3 : (idx === step ? 1 : 0.5),
-                        scale: idx === step ? 1.5 : 1
+                        backgroundColor: '#ff0055',
+                        border: '3px solid white'
                     }}
                 >
-                    {idx === step && (
-                        <span className="text-xs font-mono">{Math.ceil(countdown)}</span>
-                    )}
+                    <span className="w-1.5 h-1.5 rounded-full bg-white" />
+                </div>
+
+                <button
+                    onClick={onCancel}
+                    className="absolute bottom-8 px-6 py-2 border border-stone-600 rounded-full hover:bg-stone-800"
+                >
+                    Cancel
+                </button>
+            </div>
+        );
+    }
+
+    const current = queue[step];
+    const validating = phase === 'validate';
+    const progress = Math.min(1, elapsed / settings.dwellMs);
+    const shrinking = settings.animation === 'shrink';
+
+    return (
+        <div className="fixed inset-0 z-[2000] bg-black/90 flex flex-col items-center justify-center text-white">
+            <div className="absolute top-8 text-2xl font-bold">{validating ? "Validation" : "Calibration"}</div>
+            <div className="absolute top-16 text-lg text-stone-400">
+                {validating ? "検証: 青い円を見つめてください" : "赤い円を見つめてください"} ({step + 1} / {queue.length})
+            </div>
+            {attempt > 0 && (
+                <div className="absolute top-24 text-sm text-yellow-400">
+                    瞬き・サッケードが多かったため再計測します
                 </div>
-            ))}
+            )}
+
+            {/* Grid Points */}
+            {targets.map((p) => {
+                const active = p.id === current;
+                const done = queue.indexOf(p.id) >= 0 && queue.indexOf(p.id) < step;
+                return (
+                    <div
+                        key={p.id}
+                        className="absolute w-8 h-8 rounded-full flex items-center justify-center"
+                        style={{
+                            left: `${p.x}%`,
+                            top: `${p.y}%`,
+                            transform: 'translate(-50%, -50%)',
+                            backgroundColor: active ? (validating ? '#00aaff' : '#ff0055') : '#333',
+                            border: active ? `4px solid ${sampling ? '#4ade80' : 'white'}` : 'none',
+                            opacity: done ? 0.3 : (active ? 1 : 0.5),
+                            // Shrinking draws the eye to the centre of the target
+                            scale: active ? (shrinking ? 1.8 - 1.3 * progress : 1.5) : 1
+                        }}
+                    >
+                        {active && (shrinking
+                            ? <span className="w-1.5 h-1.5 rounded-full bg-white" />
+                            : <span className="text-xs font-mono">{Math.ceil((settings.dwellMs - elapsed) / 1000)}</span>
+                        )}
+                    </div>
+                );
+            })}
 
             <button
                 onClick={onCancel}
@@ -164,3 +612,73 @@ export function CalibrationOverlay({ gaze, onComplete, onCancel }: CalibrationOv
         </div>
     );
 }
+
+/**
+ * Per-frame sample check: the frame must be tracked, open-eyed and not part of a saccade. Saccades
+ * are labelled by I-VT on the frame's own iris offsets, so the label belongs to that frame.
+ */
+function sampleFilter(): (result: TrackingResult) => boolean {
+    const analyzer = new EyeMovementAnalyzer('ivt');
+    return result => {
+        // Gaze during a blink or a saccade is not where the target is
+        if (result.trackingState !== 'tracking' || result.blink.isBlinking) return false;
+        const { right, left } = result.irisOffsets;
+        analyzer.push({ timestamp: result.timestamp, x: (right.x + left.x) / 2, y: (right.y + left.y) / 2 });
+        if (analyzer.current === 'saccade') return false;
+        return !isNaN(result.gaze.yaw) && !isNaN(result.gaze.pitch);
+    };
+}
+
+/**
+ * The screen in miniature: each target with an arrow to the mean predicted gaze. Validation
+ * targets are coloured by their error; calibration points (fit residuals) are grey, ringed red
+ * when they are to be redone.
+ */
+function ErrorVectorPlot({ result }: { result: CalibrationResult }) {
+    const width = 480;
+    const height = width * (window.innerHeight / window.innerWidth);
+    const toPlot = (p: { x: number, y: number }) => ({ x: p.x * width, y: p.y * height });
+
+    return (
+        <svg width={width} height={height} className="bg-stone-900 border border-stone-700 rounded">
+            {result.calibration.map(e => {
+                const t = toPlot(e.target);
+                const g = toPlot(e.gaze);
+                const bad = result.badPoints.includes(e.id);
+                return (
+                    <g key={`c${e.id}`}>
+                        <line x1={t.x} y1={t.y} x2={g.x} y2={g.y} stroke="#78716c" strokeWidth={1} />
+                        <circle cx={t.x} cy={t.y} r={4} fill="none" stroke={bad ? "#f87171" : "#78716c"} strokeWidth={bad ? 2 : 1} />
+                    </g>
+                );
+            })}
+            {(result.validation?.points ?? []).map((e, i) => {
+                const t = toPlot(e.target);
+                const g = toPlot(e.gaze);
+                const color = gradeStroke(e.errorDeg);
+                return (
+                    <g key={`v${i}`}>
+                        <line x1={t.x} y1={t.y} x2={g.x} y2={g.y} stroke={color} strokeWidth={2} />
+                        <circle cx={t.x} cy={t.y} r={5} fill="none" stroke="white" strokeWidth={1.5} />
+                        <circle cx={g.x} cy={g.y} r={3} fill={color} />
+                        <text x={t.x + 8} y={t.y - 8} fill="#d6d3d1" fontSize={10} fontFamily="monospace">
+                            {e.errorDeg.toFixed(1)}°
+                        </text>
+                    </g>
+                );
+            })}
+        </svg>
+    );
+}
+
+function gradeStroke(errorDeg: number): string {
+    if (errorDeg <= GOOD_POINT_ERROR_DEG) return "#4ade80";
+    if (errorDeg <= BAD_POINT_ERROR_DEG) return "#facc15";
+    return "#f87171";
+}
+
+function gradeColor(errorDeg: number): string {
+    if (errorDeg <= GOOD_POINT_ERROR_DEG) return "text-green-400";
+    if (errorDeg <= BAD_POINT_ERROR_DEG) return "text-yellow-400";
+    return "text-red-400";
+}
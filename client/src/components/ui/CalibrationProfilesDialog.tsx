@@ -0,0 +1,149 @@
+import { useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './dialog';
+import {
+    CalibrationProfile,
+    deleteCalibrationProfile,
+    exportCalibrationProfile,
+    listCalibrationProfiles,
+    readCalibrationProfileFile,
+    saveCalibrationProfile,
+} from '../../utils/CalibrationProfiles';
+
+interface CalibrationProfilesDialogProps {
+    open: boolean;
+    current: Omit<CalibrationProfile, 'name' | 'savedAt'> | null; // Null until calibrated
+    activeName: string | null;
+    onLoad: (profile: CalibrationProfile) => void;
+    onSaved: (name: string) => void;
+    onDeleted: (name: string) => void;
+    onClose: () => void;
+}
+
+/**
+ * Saves the current calibration under a user name and switches between stored users.
+ */
+export function CalibrationProfilesDialog({ open, current, activeName, onLoad, onSaved, onDeleted, onClose }: CalibrationProfilesDialogProps) {
+    const [profiles, setProfiles] = useState<CalibrationProfile[]>([]);
+    const [name, setName] = useState("");
+    const [error, setError] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const refresh = async () => {
+        try {
+            setProfiles(await listCalibrationProfiles());
+        } catch (e) {
+            console.error("Failed to list calibration profiles:", e);
+            setError("プロファイルを読み込めません (IndexedDB unavailable)");
+        }
+    };
+
+    useEffect(() => {
+        if (!open) return;
+        setName(activeName ?? "");
+        setError(null);
+        refresh();
+    }, [open, activeName]);
+
+    const run = async (action: () => Promise<void>) => {
+        setError(null);
+        try {
+            await action();
+            await refresh();
+        } catch (e) {
+            console.error("Calibration profile:", e);
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    const handleSave = () => run(async () => {
+        if (!current) return;
+        const trimmed = name.trim();
+        await saveCalibrationProfile({ ...current, name: trimmed, savedAt: Date.now() });
+        onSaved(trimmed);
+    });
+
+    const handleImport = (file: File | undefined) => {
+        if (!file) return;
+        run(async () => {
+            const profile = await readCalibrationProfileFile(file);
+            await saveCalibrationProfile(profile);
+        });
+    };
+
+    const handleDelete = (profileName: string) => run(async () => {
+        await deleteCalibrationProfile(profileName);
+        onDeleted(profileName);
+    });
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+            <DialogContent className="sm:max-w-[480px] bg-black/90 border-gray-700 text-white">
+                <DialogHeader>
+                    <DialogTitle>Calibration profiles</DialogTitle>
+                    <DialogDescription className="text-gray-400">
+                        ユーザーごとにキャリブレーション・トラッキング設定・画面設定を保存します。
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex flex-col gap-4 mt-2">
+                    <div className="flex items-center gap-2 text-sm">
+                        <input
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            placeholder="User name"
+                            className="flex-1 bg-black/40 border border-white/20 rounded px-2 py-1"
+                        />
+                        <button
+                            onClick={handleSave}
+                            disabled={!current || name.trim() === ""}
+                            title={current ? "Save the current calibration" : "Calibrate first"}
+                            className="px-3 py-1 bg-white text-black rounded hover:bg-stone-200 disabled:opacity-40"
+                        >
+                            Save
+                        </button>
+                    </div>
+
+                    <div className="flex flex-col divide-y divide-white/10 border border-white/10 rounded max-h-64 overflow-y-auto">
+                        {profiles.length === 0 && (
+                            <div className="text-sm text-stone-500 px-3 py-2">保存されたプロファイルはありません</div>
+                        )}
+                        {profiles.map(p => (
+                            <div key={p.name} className="flex items-center gap-2 px-3 py-2 text-sm">
+                                <div className="flex-1 min-w-0">
+                                    <div className={`truncate ${p.name === activeName ? "text-green-400" : "text-stone-200"}`}>{p.name}</div>
+                                    <div className="text-xs text-stone-500 font-mono">
+                                        {new Date(p.savedAt).toLocaleString()} / {p.trackingMode}
+                                        {p.calibration.validation && ` / ${p.calibration.validation.accuracyDeg.toFixed(2)}°`}
+                                    </div>
+                                </div>
+                                <button onClick={() => onLoad(p)} className="px-2 py-1 border border-white/20 rounded hover:bg-white/10">Load</button>
+                                <button onClick={() => exportCalibrationProfile(p)} className="px-2 py-1 border border-white/20 rounded hover:bg-white/10">Export</button>
+                                <button onClick={() => handleDelete(p.name)} className="px-2 py-1 border border-white/20 rounded text-red-400 hover:bg-white/10">Delete</button>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                        <button
+                            onClick={() => importInputRef.current?.click()}
+                            className="px-3 py-1 text-sm border border-white/20 rounded hover:bg-white/10"
+                        >
+                            Import JSON
+                        </button>
+                        <input
+                            ref={importInputRef}
+                            type="file"
+                            accept=".json,application/json"
+                            className="hidden"
+                            onChange={(e) => {
+                                handleImport(e.target.files?.[0]);
+                                e.target.value = "";
+                            }}
+                        />
+                        {error && <span className="text-xs text-red-400 whitespace-pre-wrap text-right ml-3">{error}</span>}
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './dialog';
+import { DisplayProfile, DISPLAY_PRESETS, getPixelsPerMm } from '../../utils/DisplayProfile';
+
+interface DisplaySettingsDialogProps {
+    open: boolean;
+    profile: DisplayProfile;
+    onChange: (profile: DisplayProfile) => void;
+    onClose: () => void;
+}
+
+interface NumberFieldProps {
+    label: string;
+    value: number | null;
+    placeholder?: string;
+    onChange: (value: number | null) => void;
+}
+
+function NumberField({ label, value, placeholder, onChange }: NumberFieldProps) {
+    return (
+        <label className="flex items-center justify-between gap-3 text-sm">
+            <span className="text-stone-300">{label}</span>
+            <input
+                type="number"
+                step="any"
+                value={value ?? ''}
+                placeholder={placeholder}
+                onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+                className="w-28 bg-black/40 border border-white/20 rounded px-2 py-1 font-mono text-right"
+            />
+        </label>
+    );
+}
+
+/**
+ * Edits the physical screen / webcam geometry used for off-axis projection.
+ */
+export function DisplaySettingsDialog({ open, profile, onChange, onClose }: DisplaySettingsDialogProps) {
+    const [draft, setDraft] = useState(profile);
+
+    useEffect(() => {
+        if (open) setDraft(profile);
+    }, [open, profile]);
+
+    const update = (patch: Partial<DisplayProfile>) => {
+        const next = { ...draft, ...patch };
+        setDraft(next);
+        onChange(next);
+    };
+
+    const updateOffset = (axis: 'x' | 'y' | 'z', value: number | null) => {
+        update({ name: 'Custom', cameraOffsetMm: { ...draft.cameraOffsetMm, [axis]: value ?? 0 } });
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+            <DialogContent className="sm:max-w-[420px] bg-black/90 border-gray-700 text-white">
+                <DialogHeader>
+                    <DialogTitle>Display</DialogTitle>
+                    <DialogDescription className="text-gray-400">
+                        画面とカメラの物理的な配置（mm）。視差の正確さに影響します。
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex flex-col gap-3 mt-2">
+                    <label className="flex items-center justify-between gap-3 text-sm">
+                        <span className="text-stone-300">Preset</span>
+                        <select
+                            value={DISPLAY_PRESETS.some(p => p.name === draft.name) ? draft.name : ''}
+                            onChange={(e) => {
+                                const preset = DISPLAY_PRESETS.find(p => p.name === e.target.value);
+                                if (preset) update(preset);
+                            }}
+                            className="bg-black/40 border border-white/20 rounded px-2 py-1"
+                        >
+                            <option value="" disabled>Custom</option>
+                            {DISPLAY_PRESETS.map(p => (
+                                <option key={p.name} value={p.name}>{p.name}</option>
+                            ))}
+                        </select>
+                    </label>
+
+                    <NumberField label="Screen width (mm)" value={draft.screenWidthMm}
+                        onChange={(v) => update({ name: 'Custom', screenWidthMm: v ?? 0 })} />
+                    <NumberField label="Screen height (mm)" value={draft.screenHeightMm}
+                        onChange={(v) => update({ name: 'Custom', screenHeightMm: v ?? 0 })} />
+                    <NumberField label="Pixel density (px/mm)" value={draft.pixelDensity}
+                        placeholder={getPixelsPerMm({ ...draft, pixelDensity: null }).toFixed(2)}
+                        onChange={(v) => update({ name: 'Custom', pixelDensity: v })} />
+                    <NumberField label="Camera FOV (deg)" value={draft.cameraHorizontalFov}
+                        onChange={(v) => update({ name: 'Custom', cameraHorizontalFov: v ?? 60 })} />
+
+                    <div className="text-xs text-stone-500 mt-1">Camera offset from screen centre (mm, +Y up, +Z towards you)</div>
+                    <NumberField label="Camera X" value={draft.cameraOffsetMm.x} onChange={(v) => updateOffset('x', v)} />
+                    <NumberField label="Camera Y" value={draft.cameraOffsetMm.y} onChange={(v) => updateOffset('y', v)} />
+                    <NumberField label="Camera Z" value={draft.cameraOffsetMm.z} onChange={(v) => updateOffset('z', v)} />
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
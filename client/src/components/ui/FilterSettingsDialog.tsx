@@ -0,0 +1,113 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './dialog';
+import { Slider } from './slider';
+import { FILTER_LIMITS, FILTER_PRESET_NAMES, FilterPreset, FilterSettings, matchFilterPreset } from '../../utils/FilterSettings';
+import { MotionModel } from '../../utils/KalmanFilter';
+
+interface FilterSettingsDialogProps {
+    open: boolean;
+    settings: FilterSettings;
+    onPreset: (preset: FilterPreset) => void;
+    onChange: (patch: Partial<FilterSettings>) => void;
+    motionModel: MotionModel;
+    onMotionModelChange: (model: MotionModel) => void;
+    onAutoTune: () => void; // Start the guided tuning routine
+    onClose: () => void;
+}
+
+const PRESET_LABELS: Record<FilterPreset, string> = {
+    smooth: "Smooth",
+    responsive: "Responsive",
+    gaming: "Gaming",
+};
+
+interface SliderFieldProps {
+    label: string;
+    hint: string;
+    field: keyof FilterSettings;
+    value: number;
+    onChange: (patch: Partial<FilterSettings>) => void;
+}
+
+function SliderField({ label, hint, field, value, onChange }: SliderFieldProps) {
+    const { min, max, step } = FILTER_LIMITS[field];
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between text-sm">
+                <span className="text-stone-300">{label}</span>
+                <span className="font-mono text-stone-400">{value.toFixed(2)}</span>
+            </div>
+            <Slider
+                value={[value]}
+                min={min}
+                max={max}
+                step={step}
+                onValueChange={([v]) => onChange({ [field]: v })}
+            />
+            <span className="text-xs text-stone-500">{hint}</span>
+        </div>
+    );
+}
+
+/**
+ * Live tuning of the head orientation filter and gaze gain, with presets.
+ */
+export function FilterSettingsDialog({ open, settings, onPreset, onChange, motionModel, onMotionModelChange, onAutoTune, onClose }: FilterSettingsDialogProps) {
+    const preset = matchFilterPreset(settings);
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+            <DialogContent className="sm:max-w-[420px] bg-black/90 border-gray-700 text-white">
+                <DialogHeader>
+                    <DialogTitle>Filter</DialogTitle>
+                    <DialogDescription className="text-gray-400">
+                        頭の動きの平滑化と視線ゲイン。変更は即座に反映されます。
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex flex-col gap-4 mt-2">
+                    <div className="flex gap-2">
+                        {FILTER_PRESET_NAMES.map(name => (
+                            <button
+                                key={name}
+                                onClick={() => onPreset(name)}
+                                className={`flex-1 rounded px-2 py-1 text-sm border transition-colors ${preset === name
+                                    ? "border-white/60 bg-white/20 text-white"
+                                    : "border-white/20 text-stone-400 hover:text-white"
+                                    }`}
+                            >
+                                {PRESET_LABELS[name]}
+                            </button>
+                        ))}
+                    </div>
+                    {!preset && <span className="text-xs text-stone-500 -mt-2">Custom</span>}
+
+                    <SliderField label="Min cutoff (Hz)" hint="Lower = less jitter at rest, more lag"
+                        field="minCutoff" value={settings.minCutoff} onChange={onChange} />
+                    <SliderField label="Beta" hint="Higher = less lag on fast head movement"
+                        field="beta" value={settings.beta} onChange={onChange} />
+                    <button
+                        onClick={onAutoTune}
+                        className="self-start text-xs text-stone-400 hover:text-white underline underline-offset-2"
+                    >
+                        Auto-tune min cutoff / beta…
+                    </button>
+
+                    <SliderField label="Gaze gain" hint="Multiplies the gaze angle of the uncalibrated (geometric) cursor"
+                        field="speedGain" value={settings.speedGain} onChange={onChange} />
+
+                    <label className="flex items-center justify-between gap-3 text-sm">
+                        <span className="text-stone-300">Motion model</span>
+                        <select
+                            value={motionModel}
+                            onChange={(e) => onMotionModelChange(e.target.value as MotionModel)}
+                            className="bg-black/40 border border-white/20 rounded px-2 py-1"
+                        >
+                            <option value="constant-velocity">Constant velocity</option>
+                            <option value="constant-acceleration">Constant acceleration</option>
+                        </select>
+                    </label>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,143 @@
+import { useEffect, useRef, useState } from 'react';
+import { TrackingStore } from '../../utils/TrackingStore';
+import { faceRotationToQuaternion } from '../../utils/HeadTrackingPipeline';
+import {
+    FilterTuningResult,
+    OrientationSample,
+    TUNING_STILL_MS,
+    TUNING_SWEEP_MS,
+    tuneOneEuro,
+} from '../../utils/FilterTuner';
+
+interface FilterTuningOverlayProps {
+    store: TrackingStore;
+    onApply: (result: FilterTuningResult) => void;
+    onCancel: () => void;
+}
+
+type TuningPhase = 'intro' | 'still' | 'sweep' | 'result';
+
+const PHASE_DURATION: Partial<Record<TuningPhase, number>> = {
+    still: TUNING_STILL_MS,
+    sweep: TUNING_SWEEP_MS,
+};
+
+const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+
+/**
+ * Guided One Euro tuning: hold still, then sweep the head, then search filter parameters.
+ */
+export function FilterTuningOverlay({ store, onApply, onCancel }: FilterTuningOverlayProps) {
+    const [phase, setPhase] = useState<TuningPhase>('intro');
+    const [progress, setProgress] = useState(0);
+    const [result, setResult] = useState<FilterTuningResult | null>(null);
+
+    const stillRef = useRef<OrientationSample[]>([]);
+    const sweepRef = useRef<OrientationSample[]>([]);
+
+    // Raw (unfiltered) PnP head orientation while the face is tracked
+    useEffect(() => {
+        if (phase !== 'still' && phase !== 'sweep') return;
+        const samples = phase === 'still' ? stillRef.current : sweepRef.current;
+        samples.length = 0;
+
+        return store.subscribe(r => {
+            if (r.trackingState !== 'tracking') return;
+            samples.push({ timestamp: r.timestamp, orientation: faceRotationToQuaternion(r.headPose) });
+        });
+    }, [phase, store]);
+
+    // Phase timer
+    useEffect(() => {
+        const duration = PHASE_DURATION[phase];
+        if (!duration) return;
+        const start = performance.now();
+
+        const timer = setInterval(() => {
+            const k = Math.min(1, (performance.now() - start) / duration);
+            setProgress(k);
+            if (k < 1) return;
+            clearInterval(timer);
+            if (phase === 'still') {
+                setPhase('sweep');
+            } else {
+                setResult(tuneOneEuro(stillRef.current, sweepRef.current));
+                setPhase('result');
+            }
+        }, 50);
+
+        return () => clearInterval(timer);
+    }, [phase]);
+
+    const start = () => {
+        setResult(null);
+        setProgress(0);
+        setPhase('still');
+    };
+
+    return (
+        <div className="fixed inset-0 z-[2000] bg-black/90 flex flex-col items-center justify-center gap-6 text-white">
+            <div className="text-2xl font-bold">Filter Auto-Tune</div>
+
+            {phase === 'intro' && (
+                <>
+                    <p className="text-stone-400 text-center max-w-md">
+                        {TUNING_STILL_MS / 1000}秒間頭を静止し、その後{TUNING_SWEEP_MS / 1000}秒間ゆっくり左右に振ってください。
+                        ブレと遅延が最小になるパラメータを探索します。
+                    </p>
+                    <button onClick={start} className="px-6 py-2 bg-white/10 border border-white/30 rounded-full hover:bg-white/20">
+                        Start
+                    </button>
+                </>
+            )}
+
+            {(phase === 'still' || phase === 'sweep') && (
+                <>
+                    <p className="text-lg">
+                        {phase === 'still' ? "頭を静止してください" : "頭をゆっくり左右に振ってください"}
+                    </p>
+                    <div className="w-80 h-2 bg-white/10 rounded-full overflow-hidden">
+                        <div className="h-full bg-white/70" style={{ width: `${progress * 100}%` }} />
+                    </div>
+                    <p className="text-xs text-stone-500 font-mono">
+                        {(phase === 'still' ? stillRef.current : sweepRef.current).length} samples
+                    </p>
+                </>
+            )}
+
+            {phase === 'result' && (
+                result ? (
+                    <div className="flex flex-col items-center gap-2 font-mono text-sm">
+                        <p>minCutoff {result.minCutoff.toFixed(2)} Hz / beta {result.beta.toFixed(1)}</p>
+                        <p className="text-stone-400">
+                            Jitter {toDegrees(result.rawJitter).toFixed(3)}° → {toDegrees(result.jitter).toFixed(3)}°,
+                            lag {toDegrees(result.lag).toFixed(2)}°
+                        </p>
+                        <div className="flex gap-3 mt-4">
+                            <button onClick={() => onApply(result)} className="px-6 py-2 bg-white/10 border border-white/30 rounded-full hover:bg-white/20">
+                                Apply
+                            </button>
+                            <button onClick={start} className="px-6 py-2 border border-stone-600 rounded-full hover:bg-stone-800">
+                                Retry
+                            </button>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="flex flex-col items-center gap-3">
+                        <p className="text-red-400">顔を十分に検出できませんでした。</p>
+                        <button onClick={start} className="px-6 py-2 border border-stone-600 rounded-full hover:bg-stone-800">
+                            Retry
+                        </button>
+                    </div>
+                )
+            )}
+
+            <button
+                onClick={onCancel}
+                className="absolute bottom-8 px-6 py-2 border border-stone-600 rounded-full hover:bg-stone-800"
+            >
+                Cancel
+            </button>
+        </div>
+    );
+}
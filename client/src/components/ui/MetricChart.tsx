@@ -0,0 +1,63 @@
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from './chart';
+import { MetricKey, MetricsSample, metricTrend } from '../../utils/GazeMetrics';
+
+interface MetricChartProps {
+    metric: MetricKey;
+    label: string;
+    unit: string;
+    color: string;
+    samples: MetricsSample[];
+    domain?: [number, number]; // Fixed y range (as the reference graphs); auto when omitted
+}
+
+/**
+ * One time-series panel with its least-squares trend line over the shown samples.
+ */
+export function MetricChart({ metric, label, unit, color, samples, domain }: MetricChartProps) {
+    const config: ChartConfig = { [metric]: { label, color } };
+    const trend = metricTrend(samples, metric);
+    const latest = [...samples].reverse().find(s => s[metric] !== null)?.[metric] ?? null;
+
+    return (
+        <div className="flex flex-col gap-1 rounded-lg border border-white/10 bg-black/40 p-3">
+            <div className="flex items-baseline justify-between text-sm">
+                <span className="text-stone-300">{label}</span>
+                <span className="font-mono text-xs text-stone-400">
+                    {latest !== null ? `${latest.toFixed(1)} ${unit}` : "-"}
+                    {trend && ` / trend ${trend.slope >= 0 ? "+" : ""}${trend.slope.toFixed(2)} ${unit}/s`}
+                </span>
+            </div>
+            <ChartContainer config={config} className="aspect-auto h-40 w-full">
+                <LineChart data={samples} margin={{ top: 4, right: 8, bottom: 0, left: 0 }}>
+                    <CartesianGrid vertical={false} stroke="#333" />
+                    <XAxis
+                        dataKey="time"
+                        type="number"
+                        domain={['dataMin', 'dataMax']}
+                        tickFormatter={(t: number) => `${t.toFixed(0)}s`}
+                        stroke="#666"
+                    />
+                    <YAxis domain={domain ?? ['auto', 'auto']} width={40} stroke="#666" allowDataOverflow={!!domain} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `${Number(payload[0]?.payload?.time ?? 0).toFixed(1)} s`} />} />
+                    <Line
+                        dataKey={metric}
+                        stroke={`var(--color-${metric})`}
+                        dot={false}
+                        isAnimationActive={false}
+                        connectNulls={false}
+                        strokeWidth={1.5}
+                    />
+                    {trend && (
+                        <ReferenceLine
+                            segment={[{ x: trend.start.time, y: trend.start.value }, { x: trend.end.time, y: trend.end.value }]}
+                            stroke="#fff"
+                            strokeDasharray="4 4"
+                            ifOverflow="hidden"
+                        />
+                    )}
+                </LineChart>
+            </ChartContainer>
+        </div>
+    );
+}
@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { Download, Pause, Play, X } from 'lucide-react';
+import { Slider } from './slider';
+import { RecordedLandmarkSource } from '../../utils/RecordedLandmarkSource';
+
+interface ReplayControlsProps {
+    source: RecordedLandmarkSource;
+    onExit: () => void;
+    onExport?: () => void; // Export the recording's smoothed (offline) trajectories
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+function formatTime(ms: number) {
+    const seconds = Math.max(0, ms) / 1000;
+    const m = Math.floor(seconds / 60);
+    const s = (seconds % 60).toFixed(1).padStart(4, '0');
+    return `${m}:${s}`;
+}
+
+/**
+ * Scrub bar for replaying a recorded session through the tracking pipeline.
+ */
+export function ReplayControls({ source, onExit, onExport }: ReplayControlsProps) {
+    const [position, setPosition] = useState(0);
+    const [isPaused, setIsPaused] = useState(source.isPaused);
+    const [speed, setSpeed] = useState(source.getSpeed());
+
+    useEffect(() => {
+        source.setProgressListener((index) => {
+            setPosition(index);
+            setIsPaused(source.isPaused);
+        });
+        return () => source.setProgressListener(null);
+    }, [source]);
+
+    const total = Math.max(1, source.frameCount - 1);
+    const elapsed = source.duration * (position / total);
+
+    const togglePause = () => {
+        source.setPaused(!source.isPaused);
+        setIsPaused(source.isPaused);
+    };
+
+    const changeSpeed = (value: number) => {
+        source.setSpeed(value);
+        setSpeed(value);
+    };
+
+    return (
+        <div className="fixed bottom-28 left-1/2 -translate-x-1/2 z-50 w-[min(640px,90vw)] flex items-center gap-3 px-4 py-3 bg-black/70 backdrop-blur-xl border border-white/10 rounded-full text-white">
+            <button onClick={togglePause} className="p-1 rounded-full hover:bg-white/10" title={isPaused ? 'Play' : 'Pause'}>
+                {isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+            </button>
+
+            <Slider
+                value={[position]}
+                min={0}
+                max={total}
+                step={1}
+                onValueChange={([value]) => {
+                    source.seek(value);
+                    setPosition(value);
+                }}
+                className="flex-1"
+            />
+
+            <span className="font-mono text-xs text-stone-300 w-24 text-right">
+                {formatTime(elapsed)} / {formatTime(source.duration)}
+            </span>
+
+            <select
+                value={speed}
+                onChange={(e) => changeSpeed(Number(e.target.value))}
+                className="bg-transparent text-xs font-mono border border-white/20 rounded px-1 py-0.5"
+            >
+                {SPEEDS.map(s => (
+                    <option key={s} value={s} className="bg-black">{s}x</option>
+                ))}
+            </select>
+
+            {onExport && (
+                <button onClick={onExport} className="p-1 rounded-full hover:bg-white/10" title="Export smoothed CSV">
+                    <Download className="w-4 h-4" />
+                </button>
+            )}
+
+            <button onClick={onExit} className="p-1 rounded-full hover:bg-white/10" title="Exit replay">
+                <X className="w-4 h-4" />
+            </button>
+        </div>
+    );
+}
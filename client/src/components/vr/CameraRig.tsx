@@ -1,20 +1,27 @@
 import { useFrame, useThree } from "@react-three/fiber";
 import { useRef, useLayoutEffect } from "react";
 import { PerspectiveCamera, Vector3, Matrix4 } from "three";
-import { EyePosition } from "../../hooks/useHeadTracking";
+import { DEFAULT_EYE_POSITION } from "../../hooks/useHeadTracking";
+import { TrackingStore } from "../../utils/TrackingStore";
+import { clockNow } from "../../utils/LandmarkSource";
+import { predictEyePosition, PredictionMode } from "../../utils/PosePredictor";
 
 interface CameraRigProps {
-    eyePos: EyePosition; // x, y, z in screen pixels (approx)
-    screenWidth: number;
+    store: TrackingStore; // Latest eye position (mm relative to the screen centre), read every frame
+    screenWidth: number; // Viewport size in CSS pixels (= world units)
     screenHeight: number;
+    pixelsPerMm: number; // Display pixel density, converts eyePos into world units
+    prediction?: PredictionMode; // Extrapolate the eye position to the expected display time
     near?: number;
     far?: number;
 }
 
 export function CameraRig({
-    eyePos,
+    store,
     screenWidth,
     screenHeight,
+    pixelsPerMm,
+    prediction = 'velocity',
     near = 10,
     far = 10000
 }: CameraRigProps) {
@@ -25,9 +32,19 @@ export function CameraRig({
         camera.matrixAutoUpdate = false;
     }, [camera]);
 
-    useFrame(() => {
-        // Current eye position
-        const { x, y, z } = eyePos;
+    useFrame((_, delta) => {
+        // Latency compensation: render for the moment this frame reaches the display
+        const latency = store.latency;
+        latency.recordRenderInterval(delta * 1000);
+        const displayTime = latency.expectedDisplayTime(clockNow());
+        const result = store.current;
+        if (result) latency.recordDisplay(result, displayTime);
+        const eyePos = result ? predictEyePosition(result, displayTime, prediction) : DEFAULT_EYE_POSITION;
+
+        // Current eye position, mm -> world units (CSS pixels)
+        const x = eyePos.x * pixelsPerMm;
+        const y = eyePos.y * pixelsPerMm;
+        const z = eyePos.z * pixelsPerMm;
 
         // We assume the screen is at Z=0.
         // The camera (eye) is at (x, y, z).
@@ -1,9 +1,10 @@
 import { useRef, useState, useEffect } from "react";
 import { useFrame, useThree } from "@react-three/fiber";
-import { Vector3, Raycaster, Mesh, Group } from "three";
+import { Vector3, Raycaster, Mesh, Group, Camera } from "three";
 import { Html } from "@react-three/drei";
-import { FaceRotation, IrisData, EyePosition, TrackingMode } from "@/hooks/useHeadTracking";
+import { TrackingMode } from "@/hooks/useHeadTracking";
 import { PolynomialRegression } from "@/utils/RegressionUtils";
+import { TrackingStore } from "@/utils/TrackingStore";
 
 interface CalibrationParams {
     inputXMin: number;
@@ -14,26 +15,44 @@ interface CalibrationParams {
     regression?: { x: number[], y: number[] };
 }
 
+/**
+ * How gaze becomes a cursor position:
+ * - auto: the calibration regression when one is trained, else the geometric mapping
+ * - geometric: always the fixed angle-to-screen scale (ignores the calibration)
+ * - compare: like auto, and both mappings are drawn as markers to compare them
+ */
+export type GazeMapping = 'auto' | 'geometric' | 'compare';
+
+export const GAZE_MAPPINGS: GazeMapping[] = ['auto', 'geometric', 'compare'];
+
 interface GazeControllerProps {
-    rotation: FaceRotation;
-    iris: IrisData;
-    gaze: { yaw: number; pitch: number }; // Unified Gaze Vector (Head + Eye)
-    eyePos: EyePosition; // For offset calculation if needed, though camera pos is enough
+    store: TrackingStore; // Latest rotation / unified gaze vector (Head + Eye), read every frame
     isTracking: boolean;
     calibration?: CalibrationParams | null;
     trackingMode?: TrackingMode; // Optional for backward compat, default to 'head'
+    mapping?: GazeMapping;
+    speedGain?: number; // Gain of the geometric mapping (FilterSettings.speedGain)
 }
 
-export function GazeController({ rotation, iris, gaze, eyePos, isTracking, calibration, trackingMode = 'head' }: GazeControllerProps) {
+// Screen units per radian of gaze per unit of gain: 70 at the default gain of 2
+const GEOMETRIC_SCALE_PER_GAIN = 35.0;
+
+export function GazeController({ store, isTracking, calibration, trackingMode = 'head', mapping = 'auto', speedGain = 2.0 }: GazeControllerProps) {
     const { camera, scene } = useThree();
     const raycaster = useRef(new Raycaster());
     const cursorRef = useRef<Group>(null);
-    const regressionRef = useRef(new PolynomialRegression());
+    const calibratedMarkerRef = useRef<Mesh>(null);
+    const geometricMarkerRef = useRef<Mesh>(null);
+    const regressionRef = useRef<PolynomialRegression | null>(null);
 
     // Update regression model when calibration changes
     useEffect(() => {
-        if (calibration && calibration.regression) {
-            regressionRef.current.setCoefficients(calibration.regression);
+        if (calibration && isValidRegression(calibration.regression)) {
+            const regression = new PolynomialRegression();
+            regression.setCoefficients(calibration.regression);
+            regressionRef.current = regression;
+        } else {
+            regressionRef.current = null;
         }
     }, [calibration]);
 
@@ -49,33 +68,45 @@ export function GazeController({ rotation, iris, gaze, eyePos, isTracking, calib
         const maxY = 45;
         const maxX = 45 * (window.innerWidth / window.innerHeight);
 
-        let targetX = 0;
-        let targetY = 0;
-
-        // Unified Gaze Logic
-        // The 'gaze' prop already contains the correct fused angle (Head + Eye if mode is iris, or just Head).
-        // It is in radians. We map radians to screen units.
-
-        // Scale factor: 0.5 rad (~30 deg) covers half screen (~45 units) approx.
-        const screenScale = 70.0;
-
         // Fallback to rotation if gaze is missing (should not happen with updated hook)
-        const yaw = gaze ? gaze.yaw : rotation.yaw;
-        const pitch = gaze ? gaze.pitch : rotation.pitch;
-
-        targetX = (isNaN(yaw) ? 0 : yaw) * screenScale;
-        targetY = (isNaN(pitch) ? 0 : pitch) * screenScale;
+        const result = store.current;
+        if (!result) return;
+        const yaw = result.gaze ? result.gaze.yaw : result.rotation.yaw;
+        const pitch = result.gaze ? result.gaze.pitch : result.rotation.pitch;
+        const gaze = { yaw: isNaN(yaw) ? 0 : yaw, pitch: isNaN(pitch) ? 0 : pitch };
+
+        // Geometric mapping (uncalibrated)
+        // The stored 'gaze' already contains the correct fused angle (Head + Eye if mode is iris, or just Head).
+        // It is in radians. We map radians to screen units.
+        // Scale factor: 0.5 rad (~30 deg) covers half screen (~45 units) approx. at the default gain.
+        // The gain only applies here: the regression is fitted to the unscaled angles.
+        const screenScale = GEOMETRIC_SCALE_PER_GAIN * speedGain;
+        const geometric = new Vector3(
+            Math.max(-maxX, Math.min(maxX, gaze.yaw * screenScale)),
+            Math.max(-maxY, Math.min(maxY, gaze.pitch * screenScale)),
+            -distance
+        );
+
+        // Calibrated mapping: the regression predicts normalised screen coordinates (0..1, top-left
+        // origin) from the same gaze angles it was trained on; the point is placed on the ray through
+        // that screen position of the camera's (off-axis) frustum, so it lands where the user looked.
+        const regression = mapping === 'geometric' ? null : regressionRef.current;
+        let calibrated: Vector3 | null = null;
+        if (regression) {
+            const screen = regression.predict(gaze.yaw, gaze.pitch);
+            if (Number.isFinite(screen.x) && Number.isFinite(screen.y)) {
+                calibrated = screenToCameraPlane(camera, screen.x, screen.y, distance);
+            }
+        }
 
-        // Note: Calibration is temporarily bypassed in favor of geometric accuracy.
-        // Future improvement: Apply linear regression to the Angle (radians) if needed.
+        const localPos = (calibrated ?? geometric).clone();
 
-        // --- CLAMPING ---
-        // Ensure cursor never leaves the visual field
-        targetX = Math.max(-maxX, Math.min(maxX, targetX));
-        targetY = Math.max(-maxY, Math.min(maxY, targetY));
+        if (mapping === 'compare') {
+            placeMarker(calibratedMarkerRef.current, calibrated, camera, distance);
+            placeMarker(geometricMarkerRef.current, geometric, camera, distance);
+        }
 
         // Convert local camera coords (x, y, -distance) to world coords
-        const localPos = new Vector3(targetX, targetY, -distance);
         localPos.applyMatrix4(camera.matrixWorld);
 
         cursorRef.current.position.copy(localPos);
@@ -89,8 +120,53 @@ export function GazeController({ rotation, iris, gaze, eyePos, isTracking, calib
     if (!isTracking) return null;
 
     return (
-        <group ref={cursorRef} renderOrder={999}>
-            {/* Visual Reticle Removed per user request */}
-        </group>
+        <>
+            <group ref={cursorRef} renderOrder={999}>
+                {/* Visual Reticle Removed per user request */}
+            </group>
+            {mapping === 'compare' && (
+                <>
+                    {/* Calibrated (green) vs geometric (orange) mapping */}
+                    <mesh ref={calibratedMarkerRef} renderOrder={1000}>
+                        <circleGeometry args={[8, 24]} />
+                        <meshBasicMaterial color="#4ade80" depthTest={false} transparent opacity={0.9} />
+                    </mesh>
+                    <mesh ref={geometricMarkerRef} renderOrder={1000}>
+                        <circleGeometry args={[8, 24]} />
+                        <meshBasicMaterial color="#fb923c" depthTest={false} transparent opacity={0.9} />
+                    </mesh>
+                </>
+            )}
+        </>
     );
 }
+
+// Stale or hand-edited calibrations must not break the render loop
+function isValidRegression(regression: CalibrationParams['regression']): regression is { x: number[], y: number[] } {
+    return !!regression
+        && regression.x.length === 6 && regression.y.length === 6
+        && regression.x.every(Number.isFinite) && regression.y.every(Number.isFinite);
+}
+
+/**
+ * Normalised screen coordinates (0..1, y down) to camera-local coordinates at `distance` in front of
+ * the camera, through the camera's current projection (the off-axis frustum spans the screen).
+ */
+function screenToCameraPlane(camera: Camera, x: number, y: number, distance: number): Vector3 {
+    // Keep the cursor on the screen, as the geometric mapping's clamping does
+    const ndcX = Math.max(-1, Math.min(1, x * 2 - 1));
+    const ndcY = Math.max(-1, Math.min(1, 1 - y * 2));
+    // CameraRig writes projectionMatrix directly, so projectionMatrixInverse is not kept in sync
+    const point = new Vector3(ndcX, ndcY, 0.5).applyMatrix4(camera.projectionMatrix.clone().invert());
+    return point.multiplyScalar(-distance / point.z);
+}
+
+// Markers are drawn on the screen plane (world z = 0, units = CSS pixels) along the cursor's ray,
+// beyond the near plane the cursor's fixed depth sits on
+function placeMarker(marker: Mesh | null, local: Vector3 | null, camera: Camera, distance: number) {
+    if (!marker) return;
+    marker.visible = local !== null;
+    if (!local) return;
+    const depth = Math.max(camera.position.z, distance);
+    marker.position.copy(local).multiplyScalar(depth / distance).applyMatrix4(camera.matrixWorld);
+}
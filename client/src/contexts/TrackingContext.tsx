@@ -0,0 +1,31 @@
+import React, { createContext, useContext, useState } from "react";
+import { LandmarkSourceFactory, useHeadTracking, UseHeadTrackingResult } from "@/hooks/useHeadTracking";
+
+// One camera, backend and pipeline for the whole app; every route reads the same tracking store
+interface TrackingContextType extends UseHeadTrackingResult {
+  // Replaces the live camera (e.g. with a replayed recording); undefined returns to the camera
+  setSource: (source: LandmarkSourceFactory | undefined) => void;
+}
+
+const TrackingContext = createContext<TrackingContextType | undefined>(undefined);
+
+export function TrackingProvider({ children }: { children: React.ReactNode }) {
+  const [source, setSource] = useState<LandmarkSourceFactory | undefined>(undefined);
+  const tracking = useHeadTracking({ source });
+
+  return (
+    <TrackingContext.Provider value={{ ...tracking, setSource }}>
+      {/* Hidden video element for MediaPipe */}
+      <video ref={tracking.videoRef} className="hidden" width="640" height="480" playsInline />
+      {children}
+    </TrackingContext.Provider>
+  );
+}
+
+export function useTracking() {
+  const context = useContext(TrackingContext);
+  if (!context) {
+    throw new Error("useTracking must be used within TrackingProvider");
+  }
+  return context;
+}
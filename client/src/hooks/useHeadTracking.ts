@@ -1,48 +1,118 @@
 
 import { useRef, useState, useEffect, MutableRefObject } from "react";
-import { Vector3, Euler, Matrix4 } from "three";
-import { OneEuroFilter } from "../utils/OneEuroFilter";
-import { KalmanFilter } from "../utils/KalmanFilter";
-import { calculateCenter, computeEyeScale, Point3D } from "../utils/FaceUtils";
-
-declare global {
-    interface Window {
-        FaceMesh: any;
-        Camera: any;
+import {
+    TrackingResult,
+    EyePosition,
+    FaceRotation,
+    BlinkState,
+    IrisData,
+    TrackingMode,
+    TrackingState,
+    LossBehavior,
+    MotionModel,
+    QuaternionLike,
+    IrisFilterDiagnostics,
+    DEFAULT_VIEW_DISTANCE_MM,
+} from "../utils/HeadTrackingPipeline";
+import { DisplayProfile, loadDisplayProfile, saveDisplayProfile } from "../utils/DisplayProfile";
+import { FILTER_PRESETS, FilterPreset, FilterSettings, loadFilterSettings, saveFilterSettings } from "../utils/FilterSettings";
+import { HeadPose } from "../utils/PnPSolver";
+import { LandmarkFrame, LandmarkSource, LandmarkSourceKind } from "../utils/LandmarkSource";
+import { FaceMeshSource } from "../utils/FaceMeshSource";
+import { FaceLandmarkerSource } from "../utils/FaceLandmarkerSource";
+import { SyntheticLandmarkSource } from "../utils/SyntheticLandmarkSource";
+import { LandmarkRecording, SessionRecorder } from "../utils/SessionRecorder";
+import { TrackingStore } from "../utils/TrackingStore";
+import { LatencyStats, PredictionMode } from "../utils/PosePredictor";
+import { EyeMovementAlgorithm, EyeMovementAnalyzer, EyeMovementEvent, EyeMovementType } from "../utils/EyeMovementAnalyzer";
+import { BlinkAnalyzer, BlinkEvent, BlinkStats, EMPTY_BLINK_STATS } from "../utils/BlinkAnalyzer";
+import { BinocularState, NEUTRAL_BINOCULAR } from "../utils/Binocular";
+import { EMPTY_IRIS_SIZE_STATS, IrisSizeSample, IrisSizeSeries, IrisSizeStats } from "../utils/IrisSizeSeries";
+import { isWorkerTrackingSupported, MainThreadBackend, TrackingBackend, WorkerBackend } from "../utils/TrackingBackend";
+
+export type { EyePosition, FaceRotation, QuaternionLike, BlinkState, IrisData, TrackingMode, TrackingState, LossBehavior, MotionModel };
+export { SUBJECT_RIGHT_EYE, SUBJECT_LEFT_EYE } from "../utils/HeadTrackingPipeline";
+
+export type LandmarkSourceFactory = (video: HTMLVideoElement) => LandmarkSource;
+
+/**
+ * Creates one of the built-in live sources. Recorded sources are constructed directly from their frames.
+ */
+export function createLandmarkSource(kind: Exclude<LandmarkSourceKind, 'recorded'>, video: HTMLVideoElement): LandmarkSource {
+    switch (kind) {
+        case 'face-landmarker':
+            return new FaceLandmarkerSource(video);
+        case 'synthetic':
+            return new SyntheticLandmarkSource();
+        case 'facemesh':
+        default:
+            return new FaceMeshSource(video);
     }
 }
 
-export interface EyePosition {
-    x: number;
-    y: number;
-    z: number;
+const defaultSourceFactory: LandmarkSourceFactory = video => createLandmarkSource('facemesh', video);
+
+// Outputs before the first tracked frame
+export const DEFAULT_EYE_POSITION: EyePosition = { x: 0, y: 0, z: DEFAULT_VIEW_DISTANCE_MM };
+const NEUTRAL_ROTATION: FaceRotation = { yaw: 0, pitch: 0, roll: 0 };
+const NEUTRAL_ORIENTATION: QuaternionLike = { x: 0, y: 0, z: 0, w: 1 };
+const NEUTRAL_GAZE = { yaw: 0, pitch: 0 };
+const CENTERED_IRIS: IrisData = { x: 0, y: 0 };
+const OPEN_EYES: BlinkState = {
+    isBlinking: false, blinkStrength: 0, leftEAR: 0, rightEAR: 0, leftIrisVisible: true, rightIrisVisible: true,
+    leftClosed: false, rightClosed: false, leftWink: false, rightWink: false,
+};
+
+interface UseHeadTrackingOptions {
+    // Where landmarks come from. Defaults to the live webcam (detected in the tracking worker when
+    // supported, otherwise MediaPipe FaceMesh on the main thread).
+    // Pass a stable reference (module constant or memoized); changing it restarts tracking.
+    source?: LandmarkSourceFactory;
+    // Run detection and filtering in a Web Worker. Defaults to on when the browser supports it.
+    useWorker?: boolean;
 }
 
-export interface FaceRotation {
-    yaw: number;   // Left/Right
-    pitch: number; // Up/Down
-    roll: number;  // Tilt
+// React state mirrors the store at this rate; the 3D scene reads the store every frame instead
+const UI_UPDATE_INTERVAL_MS = 100;
+
+// Completed eye movement events kept for the UI
+const MAX_EYE_MOVEMENT_EVENTS = 100;
+
+export interface EyeMovementState {
+    current: EyeMovementType | null; // Class of the latest classified sample
+    events: EyeMovementEvent[];      // Most recent completed events, oldest first
 }
 
-export interface BlinkState {
-    isBlinking: boolean;
-    blinkStrength: number; // 0 (open) to 1 (closed)
-    leftEAR: number;
-    rightEAR: number;
+export interface BlinkAnalysisState {
+    stats: BlinkStats;    // Rate, trend, duration and completeness over the sliding window
+    events: BlinkEvent[]; // Blinks in the analyzer window, oldest first
 }
 
-export interface IrisData {
-    x: number;
-    y: number;
+const NO_BLINKS: BlinkAnalysisState = { stats: EMPTY_BLINK_STATS, events: [] };
+
+export interface IrisSizeState {
+    stats: IrisSizeStats;       // Latest per-eye size and its stability
+    samples: IrisSizeSample[];  // Last IRIS_SIZE_WINDOW_MS, oldest first
 }
 
-export type TrackingMode = 'head' | 'iris';
+const NO_IRIS_SIZE: IrisSizeState = { stats: EMPTY_IRIS_SIZE_STATS, samples: [] };
 
-interface UseHeadTrackingResult {
+export interface UseHeadTrackingResult {
     videoRef: MutableRefObject<HTMLVideoElement | null>;
-    eyePos: EyePosition; // Output position
+    store: TrackingStore; // Latest result every frame, for useFrame consumers
+    backend: TrackingBackend['kind'] | null;
+    // Throttled to UI_UPDATE_INTERVAL_MS; read `store` where per-frame values matter
+    eyePos: EyePosition; // Output position (mm relative to the screen centre)
+    distanceMm: number; // Viewer distance estimated from iris size
     rotation: FaceRotation; // Smoothed rotation
+    orientation: QuaternionLike; // Smoothed head orientation quaternion (head only, recentered)
+    headPose: HeadPose | null; // Raw 6-DoF PnP pose with reprojection error
+    irisFilter: IrisFilterDiagnostics | null; // Iris Kalman gating / adaptive noise of the latest frame
+    binocular: BinocularState; // Per-eye gaze angles, disparity, vergence depth, one-eye failure
+    irisSize: IrisSizeState; // Per-eye iris size time series (throttled)
     blink: BlinkState; // Blink status
+    blinkAnalysis: BlinkAnalysisState; // Blink events, blinks/min and its trend (throttled)
+    trackingState: TrackingState; // Whether a face is currently tracked
     isTracking: boolean;
     setIsTracking: (isTracking: boolean) => void;
     isMediaPipeReady: boolean;
@@ -52,14 +122,31 @@ interface UseHeadTrackingResult {
     // Config
     trackingMode: TrackingMode;
     setTrackingMode: (mode: TrackingMode) => void;
-
-    // Filters
+    displayProfile: DisplayProfile;
+    setDisplayProfile: (profile: DisplayProfile) => void;
+    lossBehavior: LossBehavior; // Output while the face is missing
+    setLossBehavior: (behavior: LossBehavior) => void;
+    motionModel: MotionModel; // Kalman model for eye position / head rotation
+    setMotionModel: (model: MotionModel) => void;
+    predictionMode: PredictionMode; // Eye position extrapolation to display time (applied by CameraRig)
+    setPredictionMode: (mode: PredictionMode) => void;
+    calibrating: boolean; // Gaze calibration running (the pipeline samples the blink / vergence baselines)
+    setCalibrating: (calibrating: boolean) => void;
+    latency: LatencyStats; // Measured capture-to-result / capture-to-display latency (throttled)
+    eyeMovement: EyeMovementState; // Fixation / saccade / pursuit segmentation of the filtered iris stream
+    eyeMovementAlgorithm: EyeMovementAlgorithm;
+    setEyeMovementAlgorithm: (algorithm: EyeMovementAlgorithm) => void;
+
+    // Filters (persisted; applied to the pipeline as they change)
+    filterSettings: FilterSettings;
+    setFilterSettings: (settings: FilterSettings) => void;
+    applyFilterPreset: (preset: FilterPreset) => void;
     minCutoff: number; // Jitter reduction (lower = smooth, higher = responsive)
     setMinCutoff: (val: number) => void;
     beta: number;      // Speed coefficient (higher = less lag on fast move)
     setBeta: (val: number) => void;
 
-    speedGain: number; // Acceleration factor
+    speedGain: number; // Gaze gain
     setSpeedGain: (val: number) => void;
 
     // Backwards compatibility / Aliases for UI
@@ -73,41 +160,14 @@ interface UseHeadTrackingResult {
     setShowDebug: (show: boolean) => void;
     iris: IrisData;
     gaze: { yaw: number; pitch: number };
-}
 
-// Landmark Indices
-// Ref: User provided indices.
-// Subject Right Eye (MediaPipe 33...):
-export const SUBJECT_RIGHT_EYE = [33, 160, 158, 133, 153, 144];
-// Subject Left Eye (MediaPipe 362...):
-export const SUBJECT_LEFT_EYE = [362, 385, 387, 263, 373, 380];
-
-// Face Geometry Landmarks for Pose Estimation
-const POSE_LANDMARKS = {
-    nose: 1,
-    chin: 152,
-    leftEye: 263,
-    rightEye: 33,
-    leftMouth: 291,
-    rightMouth: 61
-};
-
-// Helper: Calculate EAR
-const calculateEAR = (landmarks: any[], indices: number[]) => {
-    // MediaPipe landmarks have x, y, z. We mostly care about 2D openness but 3D distance is better.
-    const p = indices.map(i => new Vector3(landmarks[i].x, landmarks[i].y, landmarks[i].z));
-
-    // Vertical distances
-    const v1 = p[1].distanceTo(p[5]);
-    const v2 = p[2].distanceTo(p[4]);
-
-    // Horizontal distance
-    const h = p[0].distanceTo(p[3]);
-
-    return (v1 + v2) / (2.0 * h);
-};
+    // Session recording (raw landmark frames, for replay)
+    isRecording: boolean;
+    startRecording: () => void;
+    stopRecording: () => LandmarkRecording;
+}
 
-export function useHeadTracking(): UseHeadTrackingResult {
+export function useHeadTracking({ source, useWorker = isWorkerTrackingSupported() }: UseHeadTrackingOptions = {}): UseHeadTrackingResult {
     const videoRef = useRef<HTMLVideoElement>(null);
 
     // State
@@ -116,321 +176,264 @@ export function useHeadTracking(): UseHeadTrackingResult {
     const [isMediaPipeReady, setIsMediaPipeReady] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [fps, setFps] = useState(0);
+    const [isRecording, setIsRecording] = useState(false);
+    const [backendKind, setBackendKind] = useState<TrackingBackend['kind'] | null>(null);
 
     // Config
     const [trackingMode, setTrackingMode] = useState<TrackingMode>('head');
-    const [minCutoff, setMinCutoff] = useState(0.01);
-    const [beta, setBeta] = useState(0.001);
-    const [speedGain, setSpeedGain] = useState(2.0);
+    const [displayProfile, setDisplayProfileState] = useState<DisplayProfile>(loadDisplayProfile);
+    const [lossBehavior, setLossBehavior] = useState<LossBehavior>('hold');
+    const [motionModel, setMotionModel] = useState<MotionModel>('constant-velocity');
+    const [predictionMode, setPredictionMode] = useState<PredictionMode>('velocity');
+    const [calibrating, setCalibrating] = useState(false);
+    const [eyeMovementAlgorithm, setEyeMovementAlgorithm] = useState<EyeMovementAlgorithm>('ivt');
+    const [filterSettings, setFilterSettingsState] = useState<FilterSettings>(loadFilterSettings);
 
     // Ref for tracking loop
     const isTrackingRef = useRef(isTracking);
     const frameCountRef = useRef(0);
     const lastTimeRef = useRef(Date.now());
-    const isInitializedRef = useRef(false);
-
-    // Filters
-    const filterYaw = useRef(new OneEuroFilter(0.1, 5.0));
-    const filterPitch = useRef(new OneEuroFilter(0.1, 5.0));
-    const filterRoll = useRef(new OneEuroFilter(0.1, 5.0));
-
-    // Kalman Filters (Iris)
-    // Q=0.01 (Process Noise), R=0.1 (Measurement Noise)
-    const kalmanRight = useRef(new KalmanFilter(0.01, 0.1));
-    const kalmanLeft = useRef(new KalmanFilter(0.01, 0.1));
-
-    // Store last valid filtered eye position to hold during blinking
-    const lastEyePosRef = useRef({ rX: 0, rY: 0, lX: 0, lY: 0 });
-
-    // Offset for Taring
-    const rotationOffsetRef = useRef<FaceRotation>({ yaw: 0, pitch: 0, roll: 0 });
-    const irisOffsetRef = useRef<IrisData>({ x: 0, y: 0 });
-
-    const recenterNextFrameRef = useRef(false);
-
-    // Output State for UI
-    const [eyePos, setEyePos] = useState<EyePosition>({ x: 0, y: 0, z: 800 });
-    const [rotation, setRotation] = useState<FaceRotation>({ yaw: 0, pitch: 0, roll: 0 });
-    const [blink, setBlink] = useState<BlinkState>({ isBlinking: false, blinkStrength: 0, leftEAR: 0, rightEAR: 0 });
-    const [iris, setIris] = useState<IrisData>({ x: 0, y: 0 });
-    const [gaze, setGaze] = useState<{ yaw: number; pitch: number }>({ yaw: 0, pitch: 0 });
-
-    const configRef = useRef({ minCutoff: 0.1, beta: 5.0, speedGain: 2.0 });
+    const backendRef = useRef<TrackingBackend | null>(null);
+    const pipelineConfigRef = useRef({ trackingMode, display: displayProfile, lossBehavior, motionModel, filter: filterSettings, calibrating });
+
+    // Latest pose for the render loop, and the raw landmark recorder
+    const storeRef = useRef(new TrackingStore());
+    const recorderRef = useRef(new SessionRecorder());
+
+    // Output State for UI (throttled copy of the store)
+    const [latest, setLatest] = useState<TrackingResult | null>(null);
+    const [latency, setLatency] = useState<LatencyStats>(() => storeRef.current.latency.current);
+    const eyeMovementRef = useRef<EyeMovementState>({ current: null, events: [] });
+    const [eyeMovement, setEyeMovement] = useState<EyeMovementState>(eyeMovementRef.current);
+    const blinkAnalysisRef = useRef<BlinkAnalysisState>(NO_BLINKS);
+    const [blinkAnalysis, setBlinkAnalysis] = useState<BlinkAnalysisState>(NO_BLINKS);
+    const irisSizeSeriesRef = useRef(new IrisSizeSeries());
+    const [irisSize, setIrisSize] = useState<IrisSizeState>(NO_IRIS_SIZE);
 
     useEffect(() => {
-        configRef.current = { minCutoff, beta, speedGain };
-    }, [minCutoff, beta, speedGain]);
+        pipelineConfigRef.current = { trackingMode, display: displayProfile, lossBehavior, motionModel, filter: filterSettings, calibrating };
+        backendRef.current?.configure(pipelineConfigRef.current);
+    }, [trackingMode, displayProfile, lossBehavior, motionModel, filterSettings, calibrating]);
 
     useEffect(() => {
         isTrackingRef.current = isTracking;
+        backendRef.current?.setPaused(!isTracking);
     }, [isTracking]);
 
+    // Eye movement segmentation, fed with every tracked, open-eyed result (gaps end the current event)
+    useEffect(() => {
+        const analyzer = new EyeMovementAnalyzer(eyeMovementAlgorithm);
+        eyeMovementRef.current = { current: null, events: [] };
+
+        return storeRef.current.subscribe(result => {
+            if (result.trackingState !== 'tracking' || result.blink.isBlinking) return;
+            const { right, left } = result.irisOffsets;
+            const completed = analyzer.push({
+                timestamp: result.timestamp,
+                x: (right.x + left.x) / 2,
+                y: (right.y + left.y) / 2,
+            });
+            const { events } = eyeMovementRef.current;
+            eyeMovementRef.current = {
+                current: analyzer.current,
+                events: completed.length > 0 ? [...events, ...completed].slice(-MAX_EYE_MOVEMENT_EVENTS) : events,
+            };
+        });
+    }, [eyeMovementAlgorithm]);
+
+    // Blink events and rate from every tracked frame
+    useEffect(() => {
+        const analyzer = new BlinkAnalyzer();
+
+        return storeRef.current.subscribe(result => {
+            if (result.trackingState !== 'tracking') return;
+            const completed = analyzer.push(result.timestamp, result.blink);
+            const { events } = blinkAnalysisRef.current;
+            blinkAnalysisRef.current = {
+                stats: analyzer.stats(),
+                events: completed || analyzer.events.length !== events.length ? [...analyzer.events] : events,
+            };
+        });
+    }, []);
+
+    // Iris size series from every tracked frame
+    useEffect(() => {
+        const series = irisSizeSeriesRef.current;
+        return storeRef.current.subscribe(result => {
+            if (result.trackingState === 'tracking') series.push(result.timestamp, result.irisSize);
+        });
+    }, []);
+
+    // Mirror the store into React state at a UI-friendly rate
     useEffect(() => {
+        const store = storeRef.current;
+        const irisSizeSeries = irisSizeSeriesRef.current;
+        let lastUpdate = 0;
+        let pending: number | null = null;
+        const updateIrisSize = () => setIrisSize({ stats: irisSizeSeries.stats(), samples: [...irisSizeSeries.samples] });
+
+        const unsubscribe = store.subscribe(result => {
+            const now = performance.now();
+            if (now - lastUpdate >= UI_UPDATE_INTERVAL_MS) {
+                lastUpdate = now;
+                setLatest(result);
+                setLatency(store.latency.current);
+                setEyeMovement(eyeMovementRef.current);
+                setBlinkAnalysis(blinkAnalysisRef.current);
+                updateIrisSize();
+            } else if (pending === null) {
+                // Make sure the last result before a pause still reaches the UI
+                pending = window.setTimeout(() => {
+                    pending = null;
+                    lastUpdate = performance.now();
+                    setLatest(store.current);
+                    setLatency(store.latency.current);
+                    setEyeMovement(eyeMovementRef.current);
+                    setBlinkAnalysis(blinkAnalysisRef.current);
+                    updateIrisSize();
+                }, UI_UPDATE_INTERVAL_MS - (now - lastUpdate));
+            }
+        });
+
         return () => {
-            isTrackingRef.current = false;
+            unsubscribe();
+            if (pending !== null) clearTimeout(pending);
         };
     }, []);
 
-    // Load Scripts
+    // Start the tracking backend and publish its results
     useEffect(() => {
-        const loadScript = (src: string) => {
-            return new Promise((resolve, reject) => {
-                if (document.querySelector(`script[src="${src}"]`)) {
-                    resolve(true);
-                    return;
-                }
-                const script = document.createElement("script");
-                script.src = src;
-                script.async = true;
-                script.onload = () => resolve(true);
-                script.onerror = () => reject(new Error(`Failed to load ${src}`));
-                document.body.appendChild(script);
-            });
+        const video = videoRef.current;
+        if (!video) return;
+
+        const store = storeRef.current;
+        store.clear();
+        setLatest(null);
+        setIsMediaPipeReady(false);
+        let active = true;
+
+        const handleResult = (result: TrackingResult | null, frame: () => LandmarkFrame) => {
+            frameCountRef.current++;
+            const now = Date.now();
+            if (now - lastTimeRef.current >= 1000) {
+                setFps(frameCountRef.current);
+                frameCountRef.current = 0;
+                lastTimeRef.current = now;
+            }
+
+            if (recorderRef.current.isRecording) recorderRef.current.addFrame(frame());
+            if (result) store.publish(result);
         };
 
-        const loadMediaPipe = async () => {
-            try {
-                await loadScript("https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh/face_mesh.js");
-                await loadScript("https://cdn.jsdelivr.net/npm/@mediapipe/camera_utils/camera_utils.js");
-                console.log("MediaPipe scripts loaded");
-            } catch (err) {
-                console.error(err);
-                setError("Failed to load MediaPipe scripts");
-            }
+        const report = (err: unknown) => {
+            if (!active) return;
+            console.error("Tracking failed:", err);
+            setError(err instanceof Error ? err.message : String(err));
         };
 
-        loadMediaPipe();
+        // The worker detector can fail to load or to run (e.g. no module worker support in the
+        // runtime, a lost GPU context); the live camera then falls back to detecting on the main thread
+        const canFallBack = (backend: TrackingBackend) => active && backend.kind === 'worker' && !source;
+        const fallBack = (backend: TrackingBackend, err: unknown): Promise<void> => {
+            console.warn("Worker tracking unavailable, falling back to main thread:", err);
+            backend.stop();
+            return launch(new MainThreadBackend(defaultSourceFactory(video)));
+        };
 
-        const checkMediaPipe = () => {
-            if (window.FaceMesh && window.Camera) {
-                console.log("MediaPipe libraries loaded successfully");
+        // Failures of a running backend: replace a failing worker, otherwise show the error
+        const handleError = (backend: TrackingBackend) => (err: Error) => {
+            if (!active || backendRef.current !== backend) return;
+            if (canFallBack(backend)) fallBack(backend, err).catch(report);
+            else report(err);
+        };
+
+        const launch = (backend: TrackingBackend): Promise<void> => {
+            backendRef.current = backend;
+            backend.configure(pipelineConfigRef.current);
+            backend.setPaused(!isTrackingRef.current);
+            return backend.start(handleResult, handleError(backend)).then(() => {
+                if (!active) return;
+                setBackendKind(backend.kind);
                 setIsMediaPipeReady(true);
                 setError(null);
-            } else {
-                setTimeout(checkMediaPipe, 500);
-            }
+            });
         };
-        checkMediaPipe();
-    }, []);
 
-    // Initialize MediaPipe logic
-    useEffect(() => {
-        if (!isMediaPipeReady || isInitializedRef.current) return;
-
-        const initializeCamera = async () => {
-            try {
-                const FaceMesh = window.FaceMesh;
-                const Camera = window.Camera;
-
-                if (!FaceMesh || !Camera) throw new Error("MediaPipe libraries not available");
-
-                const faceMesh = new FaceMesh({
-                    locateFile: (file: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh/${file}`,
-                });
-
-                faceMesh.setOptions({
-                    maxNumFaces: 1,
-                    refineLandmarks: true, // Required for Iris
-                    minDetectionConfidence: 0.5,
-                    minTrackingConfidence: 0.5,
-                });
-
-                if (videoRef.current) {
-                    const camera = new Camera(videoRef.current, {
-                        onFrame: async () => {
-                            if (isTrackingRef.current && videoRef.current) {
-                                await faceMesh.send({ image: videoRef.current });
-                            }
-                            frameCountRef.current++;
-                            const now = Date.now();
-                            if (now - lastTimeRef.current >= 1000) {
-                                setFps(frameCountRef.current);
-                                frameCountRef.current = 0;
-                                lastTimeRef.current = now;
-                            }
-                        },
-                        width: 640,
-                        height: 480,
-                    });
-
-                    faceMesh.onResults((results: any) => {
-                        if (results.multiFaceLandmarks && results.multiFaceLandmarks.length > 0) {
-                            const landmarks: Point3D[] = results.multiFaceLandmarks[0];
-                            const timestamp = Date.now();
-
-                            // 1. Blink (EAR)
-                            const rightEAR = calculateEAR(landmarks, SUBJECT_RIGHT_EYE);
-                            const leftEAR = calculateEAR(landmarks, SUBJECT_LEFT_EYE);
-                            const avgEAR = (leftEAR + rightEAR) / 2;
-                            // Lowered to 0.18 to prevent false positives freezing the cursor
-                            const isBlinking = avgEAR < 0.18;
-
-                            // 2. Head Pose Calculation (In Pixel Space)
-                            // Convert landmarks to Uniform Pixel Space (640x480) to avoid Aspect Ratio distortion.
-                            const V_WIDTH = 640;
-                            const V_HEIGHT = 480;
-
-                            // SAFETY CHECK: Ensure Iris Landmarks (468+) exist
-                            // This prevents the "Stopped Moving" / Crash issue.
-                            if (landmarks.length < 478) {
-                                return;
-                            }
-
-                            const landmarksPx = landmarks.map(p => ({
-                                x: p.x * V_WIDTH,
-                                y: p.y * V_HEIGHT,
-                                z: p.z * V_WIDTH
-                            }));
-
-                            const nose = new Vector3(landmarksPx[POSE_LANDMARKS.nose].x, landmarksPx[POSE_LANDMARKS.nose].y, landmarksPx[POSE_LANDMARKS.nose].z);
-                            const chin = new Vector3(landmarksPx[POSE_LANDMARKS.chin].x, landmarksPx[POSE_LANDMARKS.chin].y, landmarksPx[POSE_LANDMARKS.chin].z);
-                            const leftEye = new Vector3(landmarksPx[POSE_LANDMARKS.leftEye].x, landmarksPx[POSE_LANDMARKS.leftEye].y, landmarksPx[POSE_LANDMARKS.leftEye].z);
-                            const rightEye = new Vector3(landmarksPx[POSE_LANDMARKS.rightEye].x, landmarksPx[POSE_LANDMARKS.rightEye].y, landmarksPx[POSE_LANDMARKS.rightEye].z);
-
-                            const faceX = new Vector3().subVectors(leftEye, rightEye).normalize();
-                            const tempUp = new Vector3().subVectors(nose, chin).normalize();
-                            const faceZ = new Vector3().crossVectors(faceX, tempUp).normalize();
-                            const faceY = new Vector3().crossVectors(faceZ, faceX).normalize();
-
-                            const rotMatrix = new Matrix4();
-                            rotMatrix.makeBasis(faceX, faceY, faceZ);
-                            const euler = new Euler();
-                            euler.setFromRotationMatrix(rotMatrix, 'YXZ');
-
-                            // Yaw/Pitch/Roll (Head)
-                            let rawYaw = euler.y;
-                            let rawPitch = euler.x;
-                            let rawRoll = euler.z;
-
-                            // Yaw correction
-                            let fixedYaw = rawYaw - Math.PI;
-                            if (fixedYaw < -Math.PI) fixedYaw += 2 * Math.PI;
-                            if (fixedYaw > Math.PI) fixedYaw -= 2 * Math.PI;
-                            fixedYaw *= -1.0;
-
-                            // 3. Eye Gaze Calculation (Eye Corner Ref + Pixel Space)
-                            // Get Eye Scale (Face Width in pixels approx)
-                            const eyeScaleNorm = computeEyeScale(landmarks);
-
-                            // Anchors (Inner Eye Corners) - Use Pixel Space
-                            const anchorR = landmarksPx[33];
-                            const anchorL = landmarksPx[362];
-
-                            // Iris (Pixel Space)
-                            let irisR = { x: landmarksPx[468].x, y: landmarksPx[468].y };
-                            let irisL = { x: landmarksPx[473].x, y: landmarksPx[473].y };
-
-                            // Offsets (Pixel Space)
-                            const offsetR = { x: irisR.x - anchorR.x, y: irisR.y - anchorR.y };
-                            const offsetL = { x: irisL.x - anchorL.x, y: irisL.y - anchorL.y };
-
-                            // Filter Offsets (Kalman)
-                            let kR = { x: 0, y: 0 };
-                            let kL = { x: 0, y: 0 };
-
-                            if (!isBlinking) {
-                                // Already in pixels, no need to multiply
-                                kR = kalmanRight.current.update(offsetR.x, offsetR.y);
-                                kL = kalmanLeft.current.update(offsetL.x, offsetL.y);
-                                lastEyePosRef.current = { rX: kR.x, rY: kR.y, lX: kL.x, lY: kL.y };
-                            } else {
-                                // Blink Hold (Reuse last valid pixel pos)
-                                kR = { x: lastEyePosRef.current.rX, y: lastEyePosRef.current.rY };
-                                kL = { x: lastEyePosRef.current.lX, y: lastEyePosRef.current.lY };
-                            }
-
-                            // Normalize Back for Angle Calculation (Approx)
-                            const smoothOffsetR = { x: kR.x / V_WIDTH, y: kR.y / V_HEIGHT };
-                            const smoothOffsetL = { x: kL.x / V_WIDTH, y: kL.y / V_HEIGHT };
-
-                            // Average Offsets
-                            const avgOffsetX = (smoothOffsetR.x + smoothOffsetL.x) / 2;
-                            const avgOffsetY = (smoothOffsetR.y + smoothOffsetL.y) / 2;
-
-                            // Convert to Eye Angles
-                            const eyeSensitivity = 1.0;
-                            const eyeRadius = eyeScaleNorm * 0.4;
-                            const eyeYaw = Math.atan2(avgOffsetX, eyeRadius) * eyeSensitivity;
-                            const eyePitch = Math.atan2(avgOffsetY, eyeRadius) * eyeSensitivity;
-
-                            // 4. Recenter (Tare) - Only for Head
-                            if (recenterNextFrameRef.current) {
-                                rotationOffsetRef.current = { yaw: fixedYaw, pitch: rawPitch, roll: rawRoll };
-                                recenterNextFrameRef.current = false;
-                            }
-
-                            // 5. Apply Head Filters
-                            const appliedHeadYaw = fixedYaw - rotationOffsetRef.current.yaw;
-                            const appliedHeadPitch = rawPitch - rotationOffsetRef.current.pitch;
-                            const appliedHeadRoll = rawRoll - rotationOffsetRef.current.roll;
-
-                            const fYaw = filterYaw.current.filter(appliedHeadYaw, timestamp);
-                            const fPitch = filterPitch.current.filter(appliedHeadPitch, timestamp);
-                            const fRoll = filterRoll.current.filter(appliedHeadRoll, timestamp);
-
-                            // 6. Fusion (Head + Eye)
-                            const isIrisMode = trackingMode === 'iris';
-
-                            // Combine Head + Eye
-                            // * 5.0 Gain for Eye Gaze to cover screen
-                            const eyeGain = 5.0;
-                            const eyeComponentYaw = isIrisMode ? eyeYaw * eyeGain : 0;
-                            // Pitch: MediaPipe Pitch is Down=Positive. Screen Y is Down=Positive.
-                            // But usually 3D cams are Y=Up.
-                            // Let's stick to the previous working sign.
-                            // Previous working state (Step 1003) had `eyePitch * -5.0`.
-                            // Let's restore that.
-                            const eyeComponentPitch = isIrisMode ? eyePitch * -5.0 : 0;
-
-                            const finalYaw = fYaw + eyeComponentYaw;
-                            const finalPitch = fPitch + eyeComponentPitch;
-
-                            setBlink({ isBlinking, blinkStrength: avgEAR, leftEAR, rightEAR });
-                            setRotation({ yaw: finalYaw, pitch: finalPitch, roll: fRoll });
-                            setIris({ x: avgOffsetX, y: avgOffsetY }); // Normalized offset for UI/Debug
-                            setGaze({ yaw: finalYaw, pitch: finalPitch });
-
-                            // 7. Eye Pos (Head Position visual for CameraParallax)
-                            // Restore 3D Parallax
-                            const scale = 5.0;
-                            setEyePos({
-                                x: (landmarksPx[1].x - 320) * scale,
-                                y: (landmarksPx[1].y - 240) * scale,
-                                z: 800
-                            });
-
-                        }
-                    });
-
-                    camera.start();
-                    setIsMediaPipeReady(true);
-                    isInitializedRef.current = true;
-                }
-            } catch (error: any) {
-                console.error("Failed to initialize MediaPipe:", error);
-                setError(error.message);
-            }
-        };
+        const primary: TrackingBackend = useWorker
+            ? new WorkerBackend(source ? { source: source(video) } : { video })
+            : new MainThreadBackend(source ? source(video) : defaultSourceFactory(video));
 
-        if (window.FaceMesh && window.Camera) {
-            initializeCamera();
-        }
-    }, [isMediaPipeReady]);
+        launch(primary)
+            .catch((err: unknown) => {
+                if (!canFallBack(primary)) throw err;
+                return fallBack(primary, err);
+            })
+            .catch(report);
+
+        return () => {
+            active = false;
+            backendRef.current?.stop();
+            backendRef.current = null;
+        };
+    }, [source, useWorker]);
 
     const resetPosition = () => {
-        recenterNextFrameRef.current = true;
+        backendRef.current?.recenter();
+    };
+
+    const setDisplayProfile = (profile: DisplayProfile) => {
+        saveDisplayProfile(profile);
+        setDisplayProfileState(profile);
+    };
+
+    const setFilterSettings = (settings: FilterSettings) => {
+        saveFilterSettings(settings);
+        setFilterSettingsState(settings);
+    };
+
+    const updateFilterSettings = (patch: Partial<FilterSettings>) => {
+        setFilterSettingsState(current => {
+            const next = { ...current, ...patch };
+            saveFilterSettings(next);
+            return next;
+        });
+    };
+
+    const applyFilterPreset = (preset: FilterPreset) => setFilterSettings(FILTER_PRESETS[preset]);
+    const setMinCutoff = (minCutoff: number) => updateFilterSettings({ minCutoff });
+    const setBeta = (beta: number) => updateFilterSettings({ beta });
+    const setSpeedGain = (speedGain: number) => updateFilterSettings({ speedGain });
+
+    const startRecording = () => {
+        recorderRef.current.start();
+        setIsRecording(true);
+    };
+
+    const stopRecording = () => {
+        setIsRecording(false);
+        return recorderRef.current.stop();
     };
 
     // Aliases
     const setAlpha = (val: number) => setBeta(val);
-    const sensitivity = speedGain;
+    const sensitivity = filterSettings.speedGain;
     const setSensitivity = setSpeedGain;
 
     return {
         videoRef,
-        eyePos,
-        rotation,
-        blink,
+        store: storeRef.current,
+        backend: backendKind,
+        eyePos: latest?.eyePos ?? DEFAULT_EYE_POSITION,
+        distanceMm: latest?.distanceMm ?? DEFAULT_VIEW_DISTANCE_MM,
+        rotation: latest?.rotation ?? NEUTRAL_ROTATION,
+        orientation: latest?.orientation ?? NEUTRAL_ORIENTATION,
+        headPose: latest?.headPose ?? null,
+        irisFilter: latest?.irisFilter ?? null,
+        binocular: latest?.binocular ?? NEUTRAL_BINOCULAR,
+        irisSize,
+        blink: latest?.blink ?? OPEN_EYES,
+        blinkAnalysis,
+        trackingState: latest?.trackingState ?? 'acquiring',
         isTracking,
         setIsTracking,
         isMediaPipeReady,
@@ -438,20 +441,40 @@ export function useHeadTracking(): UseHeadTrackingResult {
         fps,
         trackingMode,
         setTrackingMode,
-        minCutoff,
+        displayProfile,
+        setDisplayProfile,
+        lossBehavior,
+        setLossBehavior,
+        motionModel,
+        setMotionModel,
+        predictionMode,
+        setPredictionMode,
+        calibrating,
+        setCalibrating,
+        latency,
+        eyeMovement,
+        eyeMovementAlgorithm,
+        setEyeMovementAlgorithm,
+        filterSettings,
+        setFilterSettings,
+        applyFilterPreset,
+        minCutoff: filterSettings.minCutoff,
         setMinCutoff,
-        beta,
+        beta: filterSettings.beta,
         setBeta,
-        speedGain,
+        speedGain: filterSettings.speedGain,
         setSpeedGain,
         resetPosition,
         showDebug,
         setShowDebug,
-        alpha: beta,
+        alpha: filterSettings.beta,
         setAlpha,
         sensitivity,
         setSensitivity,
-        iris,
-        gaze
+        iris: latest?.iris ?? CENTERED_IRIS,
+        gaze: latest?.gaze ?? NEUTRAL_GAZE,
+        isRecording,
+        startRecording,
+        stopRecording
     };
 }
@@ -1,33 +1,97 @@
-import { useState, Suspense, useEffect } from "react";
+import { useState, Suspense, useEffect, useMemo, useRef } from "react";
 import { Canvas } from "@react-three/fiber";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
-import { Pause, Play, RotateCcw, AlertCircle, Loader, Maximize2, Minimize2, Info } from "lucide-react";
-import { useHeadTracking } from "@/hooks/useHeadTracking";
+import { Pause, Play, RotateCcw, AlertCircle, Loader, Maximize2, Minimize2, Info, Circle, Square, Upload, Monitor, SlidersHorizontal, LineChart, Crosshair, Users, X } from "lucide-react";
+import { useLocation } from "wouter";
+import { LandmarkSourceFactory } from "@/hooks/useHeadTracking";
+import { useTracking } from "@/contexts/TrackingContext";
+import { RecordedLandmarkSource } from "@/utils/RecordedLandmarkSource";
+import { downloadRecording, LandmarkRecording, readRecordingFile } from "@/utils/SessionRecorder";
+import { downloadSmoothedSession, smoothRecording } from "@/utils/SessionAnalysis";
+import { getPixelsPerMm } from "@/utils/DisplayProfile";
+import { CalibrationProfile, loadActiveProfileName, loadCalibrationProfile, saveActiveProfileName } from "@/utils/CalibrationProfiles";
+import { LOSS_BEHAVIORS, LossBehavior, TrackingState } from "@/utils/TrackingState";
+import { PREDICTION_MODES, PredictionMode } from "@/utils/PosePredictor";
+import { EYE_MOVEMENT_ALGORITHMS, EyeMovementAlgorithm, EyeMovementType } from "@/utils/EyeMovementAnalyzer";
 // 3D Components
-import { GazeController } from "@/components/vr/GazeController";
+import { GAZE_MAPPINGS, GazeController, GazeMapping } from "@/components/vr/GazeController";
 import { CameraRig } from "@/components/vr/CameraRig";
 import { MuseumRoom } from "@/components/vr/MuseumRoom";
 import { ArtFrame } from "@/components/vr/ArtFrame";
 // UI Components
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
-import { CalibrationOverlay } from "@/components/ui/CalibrationOverlay";
-
-interface CalibrationParams {
-  inputXMin: number;
-  inputXMax: number;
-  inputYMin: number;
-  inputYMax: number;
-  matrix?: number[];
-}
+import { CalibrationData, CalibrationOverlay } from "@/components/ui/CalibrationOverlay";
+import { CalibrationProfilesDialog } from "@/components/ui/CalibrationProfilesDialog";
+import { ReplayControls } from "@/components/ui/ReplayControls";
+import { DisplaySettingsDialog } from "@/components/ui/DisplaySettingsDialog";
+import { FilterSettingsDialog } from "@/components/ui/FilterSettingsDialog";
+import { FilterTuningOverlay } from "@/components/ui/FilterTuningOverlay";
+
+const TRACKING_STATE_STYLES: Record<TrackingState, { label: string; dot: string }> = {
+  acquiring: { label: "Acquiring", dot: "bg-blue-400 animate-pulse" },
+  tracking: { label: "Tracking", dot: "bg-green-400" },
+  degraded: { label: "Degraded", dot: "bg-yellow-400" },
+  lost: { label: "Lost", dot: "bg-red-500 animate-pulse" },
+};
+
+const LOSS_BEHAVIOR_LABELS: Record<LossBehavior, string> = {
+  hold: "Hold",
+  ease: "Ease to neutral",
+  coast: "Coast",
+};
+
+const PREDICTION_LABELS: Record<PredictionMode, string> = {
+  off: "No prediction",
+  velocity: "Predict (velocity)",
+  acceleration: "Predict (accel)",
+};
+
+const EYE_MOVEMENT_ALGORITHM_LABELS: Record<EyeMovementAlgorithm, string> = {
+  ivt: "I-VT",
+  idt: "I-DT",
+};
+
+const EYE_MOVEMENT_COLORS: Record<EyeMovementType, string> = {
+  fixation: "text-green-400",
+  saccade: "text-red-400",
+  pursuit: "text-yellow-400",
+};
+
+const GAZE_MAPPING_LABELS: Record<GazeMapping, string> = {
+  auto: "Calibrated gaze",
+  geometric: "Geometric gaze",
+  compare: "Compare mappings",
+};
 
 export default function Home() {
+  const [, setLocation] = useLocation();
+
+  // Replay: when a recording is loaded it replaces the live camera as landmark source
+  const [replaySource, setReplaySource] = useState<RecordedLandmarkSource | null>(null);
+  const [replayRecording, setReplayRecording] = useState<LandmarkRecording | null>(null);
+  const [recordingError, setRecordingError] = useState<string | null>(null);
+  const landmarkSource = useMemo<LandmarkSourceFactory | undefined>(
+    () => (replaySource ? () => replaySource : undefined),
+    [replaySource]
+  );
+  const recordingInputRef = useRef<HTMLInputElement>(null);
+
   const {
-    videoRef,
+    setSource,
+    store,
+    backend,
     eyePos,
+    distanceMm,
     rotation,
+    headPose,
+    irisFilter,
+    binocular,
+    irisSize,
     blink, // New state
+    blinkAnalysis,
     iris,  // Destructure IRIS
+    trackingState,
     isTracking,
     setIsTracking,
     isMediaPipeReady,
@@ -37,18 +101,39 @@ export default function Home() {
     // New Config
     trackingMode,
     setTrackingMode,
-    minCutoff,
+    displayProfile,
+    setDisplayProfile,
+    lossBehavior,
+    setLossBehavior,
+    predictionMode,
+    setPredictionMode,
+    setCalibrating,
+    motionModel,
+    setMotionModel,
+    latency,
+    eyeMovement,
+    eyeMovementAlgorithm,
+    setEyeMovementAlgorithm,
+    filterSettings,
+    setFilterSettings,
+    applyFilterPreset,
     setMinCutoff,
-    beta,
     setBeta,
-    speedGain,
-    setSpeedGain,
 
     resetPosition,
     showDebug,
     setShowDebug,
-    gaze
-  } = useHeadTracking();
+    gaze,
+    isRecording,
+    startRecording,
+    stopRecording
+  } = useTracking();
+
+  useEffect(() => {
+    setSource(landmarkSource);
+    // Leaving the page ends the replay
+    return () => setSource(undefined);
+  }, [landmarkSource, setSource]);
 
   // ... (existing state)
 
@@ -62,11 +147,22 @@ export default function Home() {
 
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [screenSize, setScreenSize] = useState({ width: window.innerWidth, height: window.innerHeight });
+  const [isDisplaySettingsOpen, setIsDisplaySettingsOpen] = useState(false);
+  const [isFilterSettingsOpen, setIsFilterSettingsOpen] = useState(false);
+  const [isTuningFilter, setIsTuningFilter] = useState(false);
   const [selectedArt, setSelectedArt] = useState<{ title: string, desc: string, url: string } | null>(null);
 
   // Calibration State
   const [isCalibrating, setIsCalibrating] = useState(false);
-  const [calibration, setCalibration] = useState<CalibrationParams | null>(null);
+  const [calibration, setCalibration] = useState<CalibrationData | null>(null);
+  const [gazeMapping, setGazeMapping] = useState<GazeMapping>('auto');
+  const [isProfilesOpen, setIsProfilesOpen] = useState(false);
+  const [activeProfile, setActiveProfile] = useState<string | null>(loadActiveProfileName);
+
+  // The user looks at the screen with open eyes while calibrating: the pipeline samples its baselines
+  useEffect(() => {
+    setCalibrating(isCalibrating);
+  }, [isCalibrating, setCalibrating]);
 
   const handleToggleFullscreen = () => {
     if (!document.fullscreenElement) {
@@ -154,7 +250,50 @@ export default function Home() {
     if (art) setSelectedArt(art);
   };
 
-  const finishCalibration = (data: CalibrationParams) => {
+  const handleToggleRecording = () => {
+    if (isRecording) {
+      const recording = stopRecording();
+      if (recording.frames.length > 0) downloadRecording(recording);
+    } else {
+      startRecording();
+    }
+  };
+
+  const handleLoadRecording = async (file: File | undefined) => {
+    if (!file) return;
+    setRecordingError(null);
+    try {
+      const recording = await readRecordingFile(file);
+      setReplayRecording(recording);
+      setReplaySource(new RecordedLandmarkSource(recording.frames));
+    } catch (err) {
+      setRecordingError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const selectProfile = (name: string | null) => {
+    saveActiveProfileName(name);
+    setActiveProfile(name);
+  };
+
+  const applyProfile = (profile: CalibrationProfile) => {
+    setCalibration(profile.calibration);
+    setTrackingMode(profile.trackingMode);
+    setFilterSettings(profile.filterSettings);
+    setDisplayProfile(profile.displayProfile);
+    selectProfile(profile.name);
+  };
+
+  // Restore the last used profile after a reload
+  useEffect(() => {
+    const name = loadActiveProfileName();
+    if (!name) return;
+    loadCalibrationProfile(name)
+      .then(profile => (profile ? applyProfile(profile) : selectProfile(null)))
+      .catch(err => console.error("Failed to restore calibration profile:", err));
+  }, []);
+
+  const finishCalibration = (data: CalibrationData) => {
     setCalibration(data);
     setIsCalibrating(false);
     console.log("Calibration Finished:", data);
@@ -162,25 +301,36 @@ export default function Home() {
 
   return (
     <div className="bg-black w-screen h-screen fixed inset-0 overflow-hidden">
-      {/* Hidden video element for MediaPipe */}
-      <video
-        ref={videoRef}
-        className="hidden"
-        width="640"
-        height="480"
-        playsInline
-      />
-
-      {/* Error message */}
-      {error && (
-        <div className="absolute top-0 left-0 right-0 bg-red-900/80 border-b border-red-700 p-4 z-40">
-          <div className="flex items-center gap-3 text-red-100">
-            <AlertCircle className="w-5 h-5 flex-shrink-0" />
-            <div>
-              <p className="font-semibold">エラー</p>
-              <p className="text-sm">{error}</p>
+      {/* Error messages: tracking, and a recording that could not be loaded */}
+      {(error || recordingError) && (
+        <div className="absolute top-0 left-0 right-0 bg-red-900/80 border-b border-red-700 p-4 z-40 flex flex-col gap-3">
+          {error && (
+            <div className="flex items-center gap-3 text-red-100">
+              <AlertCircle className="w-5 h-5 flex-shrink-0" />
+              <div>
+                <p className="font-semibold">エラー</p>
+                <p className="text-sm">{error}</p>
+              </div>
             </div>
-          </div>
+          )}
+          {recordingError && (
+            <div className="flex items-center gap-3 text-red-100">
+              <AlertCircle className="w-5 h-5 flex-shrink-0" />
+              <div className="flex-1">
+                <p className="font-semibold">記録を読み込めません Failed to load recording</p>
+                <p className="text-sm">{recordingError}</p>
+              </div>
+              <Button
+                onClick={() => setRecordingError(null)}
+                variant="ghost"
+                size="sm"
+                title="Dismiss"
+                className="text-red-200 hover:text-white hover:bg-white/10 rounded-full"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
         </div>
       )}
 
@@ -200,32 +350,50 @@ export default function Home() {
       {
         isCalibrating && (
           <CalibrationOverlay
-            gaze={gaze}
+            store={store}
+            pixelsPerMm={getPixelsPerMm(displayProfile)}
+            distanceMm={distanceMm}
             onComplete={finishCalibration}
             onCancel={() => setIsCalibrating(false)}
           />
         )
       }
 
+      {/* Filter Auto-Tune Overlay */}
+      {
+        isTuningFilter && (
+          <FilterTuningOverlay
+            store={store}
+            onApply={(result) => {
+              setMinCutoff(result.minCutoff);
+              setBeta(result.beta);
+              setIsTuningFilter(false);
+            }}
+            onCancel={() => setIsTuningFilter(false)}
+          />
+        )
+      }
+
       {/* 3D Scene */}
       <Canvas>
         <Suspense fallback={null}>
           <CameraRig
-            eyePos={eyePos}
+            store={store}
             screenWidth={screenSize.width}
             screenHeight={screenSize.height}
+            pixelsPerMm={getPixelsPerMm(displayProfile)}
+            prediction={predictionMode}
             near={100}
             far={5000}
           />
 
           <GazeController
-            rotation={rotation}
-            iris={iris}
-            gaze={gaze}
-            eyePos={eyePos}
+            store={store}
             isTracking={isTracking}
             calibration={calibration}
             trackingMode={trackingMode}
+            mapping={gazeMapping}
+            speedGain={filterSettings.speedGain}
           />
 
           <MuseumRoom
@@ -249,15 +417,86 @@ export default function Home() {
       {
         showDebug && (
           <div className="absolute top-4 left-4 text-white font-mono bg-black/50 p-2 rounded pointer-events-none z-50">
-            <p>FPS: {fps}</p>
-            <p>Eye ({eyePos.x.toFixed(0)}, {eyePos.y.toFixed(0)}, {eyePos.z.toFixed(0)})</p>
+            <p>FPS: {fps}{backend === 'worker' ? " (worker)" : ""}</p>
+            <p>Eye ({eyePos.x.toFixed(0)}, {eyePos.y.toFixed(0)}, {eyePos.z.toFixed(0)}) mm</p>
+            <p>Distance: {distanceMm.toFixed(0)} mm</p>
+            <p>Latency: {latency.pipelineMs.toFixed(0)} ms pipeline / {latency.endToEndMs.toFixed(0)} ms to display</p>
+            {headPose && (
+              <p>Pose err: {headPose.reprojectionError.toFixed(2)} px</p>
+            )}
             <p>Gaze (Y:{gaze.yaw.toFixed(3)}, P:{gaze.pitch.toFixed(3)})</p>
-            <p className={blink.isBlinking ? "text-red-400" : "text-green-400"}>
-              {blink.isBlinking ? "BLINKING" : "EYE OPEN"} (EAR: {((blink.leftEAR + blink.rightEAR) / 2).toFixed(3)})
+            <p className="text-xs">
+              Eye movement ({EYE_MOVEMENT_ALGORITHM_LABELS[eyeMovementAlgorithm]}):{" "}
+              <span className={eyeMovement.current ? EYE_MOVEMENT_COLORS[eyeMovement.current] : "text-stone-400"}>
+                {eyeMovement.current ?? "-"}
+              </span>
+              {(() => {
+                const saccade = [...eyeMovement.events].reverse().find(e => e.type === 'saccade');
+                return saccade && (
+                  <span className="text-stone-400">
+                    {" "}last saccade {saccade.amplitude.toFixed(1)} px, {saccade.duration.toFixed(0)} ms, peak {saccade.peakVelocity.toFixed(0)} px/s
+                  </span>
+                );
+              })()}
+            </p>
+            <p className="text-xs">
+              Eyes R({(binocular.right.yaw * 180 / Math.PI).toFixed(1)}°, {(binocular.right.pitch * 180 / Math.PI).toFixed(1)}°)
+              {" "}L({(binocular.left.yaw * 180 / Math.PI).toFixed(1)}°, {(binocular.left.pitch * 180 / Math.PI).toFixed(1)}°)
+              {" "}disparity {binocular.disparity.toFixed(1)}°
+              {" "}vergence {(binocular.vergence * 180 / Math.PI).toFixed(2)}°
+              {" "}depth {binocular.vergenceDepthMm !== null ? `${binocular.vergenceDepthMm.toFixed(0)} mm` : "∞"}
+              {binocular.failedEye && <span className="text-red-400"> {binocular.failedEye === 'right' ? "R" : "L"} eye lost</span>}
+            </p>
+            {irisSize.samples.length > 0 && (
+              <p className="text-xs">
+                Iris size R:{irisSize.stats.right.toFixed(1)} px (σ{irisSize.stats.rightStability.toFixed(2)})
+                {" "}L:{irisSize.stats.left.toFixed(1)} px (σ{irisSize.stats.leftStability.toFixed(2)})
+                <span className={irisSize.stats.asymmetry > 0.15 ? "text-red-400" : "text-stone-400"}>
+                  {" "}asym {(irisSize.stats.asymmetry * 100).toFixed(0)}%
+                </span>
+              </p>
+            )}
+            {irisFilter && (
+              <p className="text-xs">
+                Iris{" "}
+                {(['right', 'left'] as const).map(side => {
+                  const gate = irisFilter[side];
+                  const color = gate.status === 'accepted' ? "text-green-400" : gate.status === 'rejected' ? "text-red-400" : "text-stone-400";
+                  return (
+                    <span key={side} className={`${color} mr-2`}>
+                      {side === 'right' ? "R" : "L"}:{gate.status} (d²={gate.distance.toFixed(1)}, R×{gate.noiseScale.toFixed(1)})
+                    </span>
+                  );
+                })}
+                <span className="text-stone-400">rejected {irisFilter.rejectedTotal}</span>
+              </p>
+            )}
+            <p className={blink.isBlinking ? "text-red-400" : blink.leftWink || blink.rightWink ? "text-yellow-400" : "text-green-400"}>
+              {blink.isBlinking ? "BLINKING" : blink.leftWink ? "WINK L" : blink.rightWink ? "WINK R" : "EYE OPEN"}{" "}
+              (EAR L:{blink.leftEAR.toFixed(3)}{blink.leftClosed ? "*" : ""} R:{blink.rightEAR.toFixed(3)}{blink.rightClosed ? "*" : ""})
+            </p>
+            <p className="text-xs">
+              Blinks: {blinkAnalysis.stats.ratePerMinute !== null ? `${blinkAnalysis.stats.ratePerMinute.toFixed(1)}/min` : "-"}
+              {blinkAnalysis.stats.trend !== null && (
+                <span className={blinkAnalysis.stats.trend > 0 ? "text-yellow-400" : "text-stone-400"}>
+                  {" "}({blinkAnalysis.stats.trend >= 0 ? "+" : ""}{blinkAnalysis.stats.trend.toFixed(1)}/min²)
+                </span>
+              )}
+              {blinkAnalysis.stats.lastBlink && (
+                <span className="text-stone-400">
+                  {" "}last {blinkAnalysis.stats.lastBlink.duration.toFixed(0)} ms, {(blinkAnalysis.stats.lastBlink.completeness * 100).toFixed(0)}%
+                  {blinkAnalysis.stats.incompleteRatio !== null && `, incomplete ${(blinkAnalysis.stats.incompleteRatio * 100).toFixed(0)}%`}
+                </span>
+              )}
             </p>
             {calibration && (
               <div className="text-xs text-stone-400 mt-1">
-                Calib: X[{calibration.inputXMin.toFixed(2)}, {calibration.inputXMax.toFixed(2)}] Y[{calibration.inputYMin.toFixed(2)}, {calibration.inputYMax.toFixed(2)}]
+                {calibration.regression
+                  ? <>
+                    Calib: regression, {gazeMapping === 'geometric' ? "bypassed (geometric)" : "applied"}
+                    {calibration.validation && ` / accuracy ${calibration.validation.accuracyDeg.toFixed(2)}°, precision ${calibration.validation.precisionDeg.toFixed(2)}°`}
+                  </>
+                  : <>Calib: X[{calibration.inputXMin.toFixed(2)}, {calibration.inputXMax.toFixed(2)}] Y[{calibration.inputYMin.toFixed(2)}, {calibration.inputYMax.toFixed(2)}]</>}
               </div>
             )}
           </div>
@@ -274,6 +513,50 @@ export default function Home() {
             <h1 className="text-lg font-bold text-white font-serif tracking-in-expand flex items-center gap-2">
               VR Art Museum
             </h1>
+            <div className="flex items-center gap-2 text-xs text-stone-400">
+              <span className={`w-2 h-2 rounded-full ${TRACKING_STATE_STYLES[trackingState].dot}`} />
+              <span>{TRACKING_STATE_STYLES[trackingState].label}</span>
+              <select
+                value={lossBehavior}
+                onChange={(e) => setLossBehavior(e.target.value as LossBehavior)}
+                title="When the face is lost"
+                className="bg-transparent border border-white/10 rounded px-1 text-stone-400 hover:text-white"
+              >
+                {LOSS_BEHAVIORS.map(b => (
+                  <option key={b} value={b} className="bg-black">{LOSS_BEHAVIOR_LABELS[b]}</option>
+                ))}
+              </select>
+              <select
+                value={predictionMode}
+                onChange={(e) => setPredictionMode(e.target.value as PredictionMode)}
+                title="Latency compensation"
+                className="bg-transparent border border-white/10 rounded px-1 text-stone-400 hover:text-white"
+              >
+                {PREDICTION_MODES.map(m => (
+                  <option key={m} value={m} className="bg-black">{PREDICTION_LABELS[m]}</option>
+                ))}
+              </select>
+              <select
+                value={eyeMovementAlgorithm}
+                onChange={(e) => setEyeMovementAlgorithm(e.target.value as EyeMovementAlgorithm)}
+                title="Eye movement classification"
+                className="bg-transparent border border-white/10 rounded px-1 text-stone-400 hover:text-white"
+              >
+                {EYE_MOVEMENT_ALGORITHMS.map(a => (
+                  <option key={a} value={a} className="bg-black">{EYE_MOVEMENT_ALGORITHM_LABELS[a]}</option>
+                ))}
+              </select>
+              <select
+                value={gazeMapping}
+                onChange={(e) => setGazeMapping(e.target.value as GazeMapping)}
+                title={calibration?.regression ? "Gaze to screen mapping" : "Gaze to screen mapping (not calibrated: geometric)"}
+                className="bg-transparent border border-white/10 rounded px-1 text-stone-400 hover:text-white"
+              >
+                {GAZE_MAPPINGS.map(m => (
+                  <option key={m} value={m} className="bg-black">{GAZE_MAPPING_LABELS[m]}</option>
+                ))}
+              </select>
+            </div>
           </div>
 
           <div className="flex items-center gap-2">
@@ -286,6 +569,87 @@ export default function Home() {
               <RotateCcw className="w-4 h-4" />
             </Button>
 
+            <Button
+              onClick={() => setIsCalibrating(true)}
+              variant="ghost"
+              size="sm"
+              title={calibration?.regression ? "Recalibrate gaze" : "Calibrate gaze"}
+              className="text-stone-400 hover:text-white hover:bg-white/10 rounded-full transition-all duration-300 hover:scale-105 active:scale-95"
+            >
+              <Crosshair className={`w-4 h-4 ${calibration?.regression ? "text-green-400" : ""}`} />
+            </Button>
+
+            <Button
+              onClick={() => setIsProfilesOpen(true)}
+              variant="ghost"
+              size="sm"
+              title={activeProfile ? `Calibration profile: ${activeProfile}` : "Calibration profiles"}
+              className="text-stone-400 hover:text-white hover:bg-white/10 rounded-full transition-all duration-300 hover:scale-105 active:scale-95"
+            >
+              <Users className="w-4 h-4" />
+            </Button>
+
+            <Button
+              onClick={handleToggleRecording}
+              variant="ghost"
+              size="sm"
+              title={isRecording ? "Stop recording" : "Record session"}
+              disabled={!!replaySource}
+              className="text-stone-400 hover:text-white hover:bg-white/10 rounded-full transition-all duration-300 hover:scale-105 active:scale-95"
+            >
+              {isRecording ? <Square className="w-4 h-4 text-red-400" /> : <Circle className="w-4 h-4" />}
+            </Button>
+
+            <Button
+              onClick={() => recordingInputRef.current?.click()}
+              variant="ghost"
+              size="sm"
+              title="Replay recording"
+              className="text-stone-400 hover:text-white hover:bg-white/10 rounded-full transition-all duration-300 hover:scale-105 active:scale-95"
+            >
+              <Upload className="w-4 h-4" />
+            </Button>
+            <input
+              ref={recordingInputRef}
+              type="file"
+              accept=".lmrec,.jsonl"
+              className="hidden"
+              onChange={(e) => {
+                handleLoadRecording(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+
+            <Button
+              onClick={() => setIsDisplaySettingsOpen(true)}
+              variant="ghost"
+              size="sm"
+              title="Display geometry"
+              className="text-stone-400 hover:text-white hover:bg-white/10 rounded-full transition-all duration-300 hover:scale-105 active:scale-95"
+            >
+              <Monitor className="w-4 h-4" />
+            </Button>
+
+            <Button
+              onClick={() => setIsFilterSettingsOpen(true)}
+              variant="ghost"
+              size="sm"
+              title="Filter tuning"
+              className="text-stone-400 hover:text-white hover:bg-white/10 rounded-full transition-all duration-300 hover:scale-105 active:scale-95"
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+            </Button>
+
+            <Button
+              onClick={() => setLocation("/metrics")}
+              variant="ghost"
+              size="sm"
+              title="Eye movement metrics"
+              className="text-stone-400 hover:text-white hover:bg-white/10 rounded-full transition-all duration-300 hover:scale-105 active:scale-95"
+            >
+              <LineChart className="w-4 h-4" />
+            </Button>
+
             <Button
               onClick={handleToggleFullscreen}
               variant="ghost"
@@ -298,6 +662,18 @@ export default function Home() {
         </div>
       </div>
 
+      {/* Replay scrub bar */}
+      {replaySource && !isFullscreen && (
+        <ReplayControls
+          source={replaySource}
+          onExit={() => {
+            setReplaySource(null);
+            setReplayRecording(null);
+          }}
+          onExport={replayRecording ? () => downloadSmoothedSession(smoothRecording(replayRecording)) : undefined}
+        />
+      )}
+
       {/* Fullscreen Exit Button */}
       {
         isFullscreen && (
@@ -311,6 +687,40 @@ export default function Home() {
         )
       }
 
+      <CalibrationProfilesDialog
+        open={isProfilesOpen}
+        current={calibration ? { calibration, trackingMode, filterSettings, displayProfile } : null}
+        activeName={activeProfile}
+        onLoad={(profile) => {
+          applyProfile(profile);
+          setIsProfilesOpen(false);
+        }}
+        onSaved={selectProfile}
+        onDeleted={(name) => name === activeProfile && selectProfile(null)}
+        onClose={() => setIsProfilesOpen(false)}
+      />
+
+      <DisplaySettingsDialog
+        open={isDisplaySettingsOpen}
+        profile={displayProfile}
+        onChange={setDisplayProfile}
+        onClose={() => setIsDisplaySettingsOpen(false)}
+      />
+
+      <FilterSettingsDialog
+        open={isFilterSettingsOpen}
+        settings={filterSettings}
+        onPreset={applyFilterPreset}
+        onChange={(patch) => setFilterSettings({ ...filterSettings, ...patch })}
+        motionModel={motionModel}
+        onMotionModelChange={setMotionModel}
+        onAutoTune={() => {
+          setIsFilterSettingsOpen(false);
+          setIsTuningFilter(true);
+        }}
+        onClose={() => setIsFilterSettingsOpen(false)}
+      />
+
       {/* Artwork Details Modal */}
       <Dialog open={!!selectedArt} onOpenChange={(open) => !open && setSelectedArt(null)}>
         <DialogContent className="sm:max-w-[425px] bg-black/90 border-gray-700 text-white">
@@ -0,0 +1,135 @@
+import { useEffect, useRef, useState } from "react";
+import { useLocation } from "wouter";
+import { ArrowLeft, Radio, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { MetricChart } from "@/components/ui/MetricChart";
+import { useTracking } from "@/contexts/TrackingContext";
+import { readRecordingFile } from "@/utils/SessionRecorder";
+import { smoothRecording } from "@/utils/SessionAnalysis";
+import { computeSessionMetrics, GazeMetrics, MetricKey, MetricsSample } from "@/utils/GazeMetrics";
+
+// Charts are redrawn at this rate (the metrics themselves update every frame)
+const CHART_UPDATE_INTERVAL_MS = 250;
+
+// Labels and y ranges of the reference tool's graphs
+const CHARTS: { metric: MetricKey; label: string; unit: string; color: string; domain?: [number, number] }[] = [
+  { metric: "gazeAngle", label: "視線角度 Gaze angle", unit: "deg", color: "#60a5fa", domain: [-180, 180] },
+  { metric: "velocity", label: "速度 Velocity", unit: "px/s", color: "#f97316" },
+  { metric: "blinkRate", label: "瞬き頻度 Blink rate", unit: "/min", color: "#34d399" },
+  { metric: "movementFrequency", label: "動き頻度 Movement frequency", unit: "/s", color: "#facc15" },
+  { metric: "saccadeFrequency", label: "サッケード頻度 Saccade frequency", unit: "/min", color: "#f472b6" },
+];
+
+export default function Metrics() {
+  const [, setLocation] = useLocation();
+  const { store, setIsTracking, trackingState, error } = useTracking();
+
+  const metricsRef = useRef(new GazeMetrics());
+  const [samples, setSamples] = useState<MetricsSample[]>([]);
+  // Whole-recording series; while set the live camera is paused
+  const [recording, setRecording] = useState<{ name: string; samples: MetricsSample[] } | null>(null);
+  const [recordingError, setRecordingError] = useState<string | null>(null);
+  const recordingInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    return store.subscribe(result => metricsRef.current.push(result));
+  }, [store]);
+
+  useEffect(() => {
+    if (recording) return;
+    const id = setInterval(() => setSamples([...metricsRef.current.samples]), CHART_UPDATE_INTERVAL_MS);
+    return () => clearInterval(id);
+  }, [recording]);
+
+  useEffect(() => {
+    setIsTracking(!recording);
+    if (!recording) metricsRef.current.reset();
+  }, [recording, setIsTracking]);
+
+  // The camera is shared with the other pages: leave it running
+  useEffect(() => () => setIsTracking(true), [setIsTracking]);
+
+  const handleLoadRecording = async (file: File | undefined) => {
+    if (!file) return;
+    setRecordingError(null);
+    try {
+      const loaded = await readRecordingFile(file);
+      setRecording({ name: file.name, samples: computeSessionMetrics(smoothRecording(loaded)) });
+    } catch (err) {
+      setRecordingError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const shown = recording ? recording.samples : samples;
+
+  return (
+    <div className="bg-black min-h-screen w-full text-stone-200">
+      <div className="max-w-5xl mx-auto px-4 py-6 flex flex-col gap-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Button
+              onClick={() => setLocation("/")}
+              variant="ghost"
+              size="sm"
+              title="Back"
+              className="text-stone-400 hover:text-white hover:bg-white/10 rounded-full"
+            >
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div>
+              <h1 className="text-lg font-semibold">眼球運動メトリクス Eye movement metrics</h1>
+              <p className="text-xs text-stone-500">
+                {recording
+                  ? `記録全体: ${recording.name} (${shown.length > 0 ? shown[shown.length - 1].time.toFixed(0) : 0} s)`
+                  : `ライブ: 直近30秒 / ${trackingState}`}
+                {" ・ 破線は線形回帰のトレンド"}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            {recording && (
+              <Button
+                onClick={() => setRecording(null)}
+                variant="ghost"
+                size="sm"
+                title="Back to live camera"
+                className="text-stone-400 hover:text-white hover:bg-white/10 rounded-full"
+              >
+                <Radio className="w-4 h-4" />
+              </Button>
+            )}
+            <Button
+              onClick={() => recordingInputRef.current?.click()}
+              variant="ghost"
+              size="sm"
+              title="Analyse recording"
+              className="text-stone-400 hover:text-white hover:bg-white/10 rounded-full"
+            >
+              <Upload className="w-4 h-4" />
+            </Button>
+            <input
+              ref={recordingInputRef}
+              type="file"
+              accept=".lmrec,.jsonl"
+              className="hidden"
+              onChange={(e) => {
+                handleLoadRecording(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+          </div>
+        </div>
+
+        {error && !recording && <p className="text-sm text-red-400">{error}</p>}
+        {recordingError && <p className="text-sm text-red-400">記録を読み込めません Failed to load recording: {recordingError}</p>}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {CHARTS.map(c => (
+            <MetricChart key={c.metric} {...c} samples={shown} />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+/**
+ * Binocular Gaze
+ * Per-eye gaze from the filtered iris offsets, the reference tool's binocular disparity
+ * (両眼視差), vergence and the fixation depth it implies, and detection of one eye's
+ * tracking failing while the other still works.
+ *
+ * Eye angles are eye-in-head rotations estimated in the image: the iris centre's offset from
+ * the eye centre over the eyeball radius, scaled to pixels with the (nearly constant) iris size.
+ * They are not corrected for head yaw / roll, so vergence is most accurate facing the camera.
+ */
+import {
+    calculateBinocularDisparity,
+    calculateCenter,
+    calculateGazeAngle,
+    computeIrisDiameter,
+    LEFT_IRIS_INDICES,
+    Point2D,
+    Point3D,
+    RIGHT_IRIS_INDICES,
+} from "./FaceUtils";
+import { EYEBALL_RADIUS_MM, IRIS_DIAMETER_MM } from "./FaceModel";
+import type { BlinkState, IrisFilterDiagnostics } from "./HeadTrackingPipeline";
+
+export type Eye = 'left' | 'right';
+
+export interface EyeGaze {
+    yaw: number;       // rad, positive = towards image right
+    pitch: number;     // rad, positive = up
+    direction: number; // deg, image-plane direction of the iris from the eye centre (reference gaze angle)
+}
+
+export interface BinocularState {
+    right: EyeGaze;
+    left: EyeGaze;
+    disparity: number;              // deg, |left.direction - right.direction|
+    vergence: number;               // rad, right.yaw - left.yaw minus the calibrated offset (positive = converging)
+    ipdMm: number;                  // Interpupillary distance measured from the iris centres
+    vergenceDepthMm: number | null; // Fixation distance; null when the lines of sight are (nearly) parallel
+    failedEye: Eye | null;          // One eye's gaze is implausible against the other's
+}
+
+// Eye contour landmarks (corners first and fourth), as in the EAR
+const RIGHT_EYE_CONTOUR = [33, 160, 158, 133, 153, 144];
+const LEFT_EYE_CONTOUR = [362, 385, 387, 263, 373, 380];
+// Anchors of TrackingResult.irisOffsets (see computeIrisOffsets)
+const RIGHT_ANCHOR = 33;
+const LEFT_ANCHOR = 362;
+
+// Adult average until measured
+export const DEFAULT_IPD_MM = 63;
+const IPD_SMOOTHING = 0.05;
+// How fast the vergence offset follows the expected vergence while calibrating
+const VERGENCE_OFFSET_SMOOTHING = 0.05;
+
+// Depth is only reported inside this range
+const MAX_VERGENCE_DEPTH_MM = 10000;
+
+// Beyond these the two eyes cannot be looking at the same point: one of them is mistracked
+const MAX_VERTICAL_DISAGREEMENT = (4 * Math.PI) / 180;
+const MIN_VERGENCE = (-3 * Math.PI) / 180;
+const MAX_VERGENCE = (25 * Math.PI) / 180;
+
+export const NEUTRAL_BINOCULAR: BinocularState = {
+    right: { yaw: 0, pitch: 0, direction: 0 },
+    left: { yaw: 0, pitch: 0, direction: 0 },
+    disparity: 0,
+    vergence: 0,
+    ipdMm: DEFAULT_IPD_MM,
+    vergenceDepthMm: null,
+    failedEye: null,
+};
+
+/**
+ * Per-eye angles in pixel space. `irisOffsets` are the filtered offsets from the eye anchors.
+ */
+export function computeEyeGazes(
+    landmarksPx: Point3D[],
+    irisOffsets: { right: Point2D; left: Point2D }
+): { right: EyeGaze; left: EyeGaze; ipdMm: number | null } {
+    const diameterPx = (computeIrisDiameter(RIGHT_IRIS_INDICES, landmarksPx) + computeIrisDiameter(LEFT_IRIS_INDICES, landmarksPx)) / 2;
+    const pxPerMm = diameterPx / IRIS_DIAMETER_MM;
+    const radiusPx = Math.max(EYEBALL_RADIUS_MM * pxPerMm, 1e-6);
+
+    const eye = (contour: number[], anchor: number, offset: Point2D) => {
+        const centre = calculateCenter(contour, landmarksPx);
+        const iris = { x: landmarksPx[anchor].x + offset.x, y: landmarksPx[anchor].y + offset.y };
+        const gaze: EyeGaze = {
+            yaw: Math.asin(clamp((iris.x - centre.x) / radiusPx, -1, 1)),
+            pitch: Math.asin(clamp((centre.y - iris.y) / radiusPx, -1, 1)),
+            direction: calculateGazeAngle(iris, centre).angle,
+        };
+        return { gaze, iris };
+    };
+    const right = eye(RIGHT_EYE_CONTOUR, RIGHT_ANCHOR, irisOffsets.right);
+    const left = eye(LEFT_EYE_CONTOUR, LEFT_ANCHOR, irisOffsets.left);
+
+    const ipdPx = Math.hypot(left.iris.x - right.iris.x, left.iris.y - right.iris.y);
+    return { right: right.gaze, left: left.gaze, ipdMm: pxPerMm > 0 ? ipdPx / pxPerMm : null };
+}
+
+/**
+ * Vergence angle of two eyes `ipdMm` apart fixating a point `depthMm` straight ahead.
+ */
+export function vergenceForDepth(depthMm: number, ipdMm: number): number {
+    return 2 * Math.atan(ipdMm / 2 / depthMm);
+}
+
+/**
+ * Smooths the IPD and turns per-eye gaze into vergence and depth. Landmark-based eye angles
+ * carry a per-user vergence bias; while `calibrating` (the user looks at the screen) the bias is
+ * learnt against the vergence expected for the measured viewing distance.
+ */
+export class BinocularEstimator {
+    private ipdMm = DEFAULT_IPD_MM;
+    private vergenceOffset = 0;
+
+    public update(
+        gazes: { right: EyeGaze; left: EyeGaze; ipdMm: number | null },
+        blink: BlinkState,
+        irisFilter: IrisFilterDiagnostics,
+        viewDistanceMm: number,
+        calibrating: boolean
+    ): BinocularState {
+        const { right, left } = gazes;
+        const eyesOpen = !blink.leftClosed && !blink.rightClosed;
+
+        if (eyesOpen && gazes.ipdMm !== null && Number.isFinite(gazes.ipdMm)) {
+            this.ipdMm += IPD_SMOOTHING * (gazes.ipdMm - this.ipdMm);
+        }
+
+        const rawVergence = right.yaw - left.yaw;
+        if (calibrating && eyesOpen) {
+            const bias = rawVergence - vergenceForDepth(viewDistanceMm, this.ipdMm);
+            this.vergenceOffset += VERGENCE_OFFSET_SMOOTHING * (bias - this.vergenceOffset);
+        }
+        const vergence = rawVergence - this.vergenceOffset;
+
+        const depth = vergence > 0 ? this.ipdMm / 2 / Math.tan(vergence / 2) : Infinity;
+        return {
+            right,
+            left,
+            disparity: calculateBinocularDisparity(left.direction, right.direction),
+            vergence,
+            ipdMm: this.ipdMm,
+            vergenceDepthMm: depth <= MAX_VERGENCE_DEPTH_MM ? depth : null,
+            failedEye: eyesOpen ? failedEye(right, left, vergence, irisFilter) : null,
+        };
+    }
+
+    public reset() {
+        this.ipdMm = DEFAULT_IPD_MM;
+        this.vergenceOffset = 0;
+    }
+}
+
+/**
+ * The eyes move together vertically and converge within a limited range; when they disagree the
+ * eye the iris filter trusts less (rejected, or the larger adaptive noise) is the failing one.
+ * Closed eyes (blinks, winks) are not failures and are excluded by the caller.
+ */
+function failedEye(right: EyeGaze, left: EyeGaze, vergence: number, irisFilter: IrisFilterDiagnostics): Eye | null {
+    const rightRejected = irisFilter.right.status === 'rejected';
+    const leftRejected = irisFilter.left.status === 'rejected';
+    if (rightRejected !== leftRejected) return rightRejected ? 'right' : 'left';
+
+    const disagree = Math.abs(right.pitch - left.pitch) > MAX_VERTICAL_DISAGREEMENT
+        || vergence < MIN_VERGENCE
+        || vergence > MAX_VERGENCE;
+    if (!disagree) return null;
+    return irisFilter.right.noiseScale >= irisFilter.left.noiseScale ? 'right' : 'left';
+}
+
+function clamp(v: number, min: number, max: number): number {
+    return Math.max(min, Math.min(max, v));
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { BlinkAnalyzer, BlinkEvent } from "./BlinkAnalyzer";
+import type { BlinkState } from "./HeadTrackingPipeline";
+
+const STEP_MS = 10;
+const OPEN_EAR = 0.3;
+
+function state(ear: number, isBlinking: boolean, irisVisible = true): BlinkState {
+    return {
+        isBlinking,
+        blinkStrength: isBlinking ? 1 : 0,
+        leftEAR: ear,
+        rightEAR: ear,
+        leftIrisVisible: irisVisible,
+        rightIrisVisible: irisVisible,
+        leftClosed: isBlinking,
+        rightClosed: isBlinking,
+        leftWink: false,
+        rightWink: false,
+    };
+}
+
+// Open eyes from `from` (ms), closed for `closedMs` at `closedEAR`, then open again for `openAfterMs`
+function pushBlink(
+    analyzer: BlinkAnalyzer,
+    from: number,
+    closedMs: number,
+    { closedEAR = 0.05, irisVisible = false, openAfterMs = 100 } = {}
+): BlinkEvent[] {
+    const events: BlinkEvent[] = [];
+    const push = (timestamp: number, blink: BlinkState) => {
+        const event = analyzer.push(timestamp, blink);
+        if (event) events.push(event);
+    };
+    let t = from;
+    for (; t < from + 100; t += STEP_MS) push(t, state(OPEN_EAR, false));
+    const closedFrom = t;
+    for (; t < closedFrom + closedMs; t += STEP_MS) push(t, state(closedEAR, true, irisVisible));
+    const openFrom = t;
+    for (; t < openFrom + openAfterMs; t += STEP_MS) push(t, state(OPEN_EAR, false));
+    return events;
+}
+
+describe("BlinkAnalyzer", () => {
+    it.each([
+        { closedMs: 30, blink: false },
+        { closedMs: 50, blink: true },
+        { closedMs: 200, blink: true },
+        { closedMs: 500, blink: true },
+        { closedMs: 510, blink: false },
+        { closedMs: 1000, blink: false },
+    ])("counts a $closedMs ms closure as a blink: $blink", ({ closedMs, blink }) => {
+        const analyzer = new BlinkAnalyzer();
+        const events = pushBlink(analyzer, 0, closedMs);
+
+        expect(events).toHaveLength(blink ? 1 : 0);
+        if (blink) {
+            expect(events[0].start).toBe(100);
+            expect(events[0].end).toBe(100 + closedMs);
+            expect(events[0].duration).toBe(closedMs);
+        }
+    });
+
+    it.each([
+        { name: "shut lids", closedEAR: 0.05, irisVisible: false, complete: true },
+        { name: "lids closed past 80%", closedEAR: 0.09, irisVisible: true, complete: true },
+        { name: "half-closed lids", closedEAR: 0.2, irisVisible: true, complete: false },
+        { name: "half-closed lids over the irises", closedEAR: 0.2, irisVisible: false, complete: true },
+    ])("rates $name complete: $complete", ({ closedEAR, irisVisible, complete }) => {
+        const [event] = pushBlink(new BlinkAnalyzer(), 0, 150, { closedEAR, irisVisible });
+
+        expect(event.minEAR).toBeCloseTo(closedEAR, 6);
+        // Relative to the open-eye EAR (0.3) and the EAR of shut lids (0.05)
+        expect(event.completeness).toBeCloseTo((OPEN_EAR - closedEAR) / (OPEN_EAR - 0.05), 6);
+        expect(event.complete).toBe(complete);
+    });
+
+    it("drops a closure interrupted by a gap", () => {
+        const analyzer = new BlinkAnalyzer();
+        analyzer.push(0, state(OPEN_EAR, false));
+        analyzer.push(10, state(0.05, true));
+        // Face lost for longer than maxGap: the closure may have been anything
+        for (let t = 300; t < 400; t += STEP_MS) analyzer.push(t, state(0.05, true));
+        const event = analyzer.push(400, state(OPEN_EAR, false));
+
+        expect(event?.start).toBe(300);
+        expect(event?.duration).toBe(100);
+        expect(analyzer.events).toHaveLength(1);
+    });
+
+    it("reports the rate only after enough tracking", () => {
+        const analyzer = new BlinkAnalyzer();
+        // One blink every 3 s: 20 per minute
+        for (let from = 0; from < 9000; from += 3000) pushBlink(analyzer, from, 150, { openAfterMs: 2750 });
+        expect(analyzer.stats().ratePerMinute).toBeNull();
+        expect(analyzer.stats().count).toBe(3);
+
+        for (let from = 9000; from < 60000; from += 3000) pushBlink(analyzer, from, 150, { openAfterMs: 2750 });
+        const stats = analyzer.stats();
+        expect(stats.count).toBe(20);
+        expect(stats.ratePerMinute).toBeCloseTo(20, 0);
+        expect(stats.meanDuration).toBe(150);
+        expect(stats.incompleteRatio).toBe(0);
+        expect(stats.lastBlink?.end).toBe(57250);
+    });
+
+    it("sees a rising blink rate as a rising trend", () => {
+        const analyzer = new BlinkAnalyzer();
+        // Blinks every 6 s for the first minute, then every 2 s
+        let from = 0;
+        for (; from < 60000; from += 6000) pushBlink(analyzer, from, 150, { openAfterMs: 5750 });
+        for (; from < 120000; from += 2000) pushBlink(analyzer, from, 150, { openAfterMs: 1750 });
+
+        expect(analyzer.stats().trend).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,200 @@
+/**
+ * Blink Analyzer
+ * Turns the per-frame BlinkState (EAR + iris coverage, debounced with hysteresis in the pipeline)
+ * into blink events with duration and completeness, and derives the blink rate (blinks/min over a
+ * sliding window) and its trend (blinks/min per minute), a fatigue indicator: the rate and the
+ * share of incomplete blinks rise as the eyes tire.
+ */
+import { fitLine } from "./math";
+import type { BlinkState } from "./HeadTrackingPipeline";
+
+export interface BlinkEvent {
+    start: number;        // ms, first closed frame
+    end: number;          // ms, first open frame again
+    duration: number;     // ms
+    minEAR: number;       // Lowest mean EAR while closed
+    completeness: number; // 0 (no closure) to 1 (lids fully shut), relative to the open-eye EAR
+    complete: boolean;    // Closed far enough, or both irises disappeared
+}
+
+export interface BlinkStats {
+    count: number;                 // Blinks in the rate window
+    ratePerMinute: number | null;  // null until MIN_RATE_SPAN_MS of tracking
+    trend: number | null;          // Slope of the rate (blinks/min per minute); null until enough history
+    meanDuration: number | null;   // ms, over the rate window
+    incompleteRatio: number | null; // Share of incomplete blinks in the rate window
+    lastBlink: BlinkEvent | null;
+}
+
+export interface BlinkAnalyzerOptions {
+    rateWindow: number;  // ms
+    trendWindow: number; // ms of rate history fitted for the trend
+    minDuration: number; // ms; shorter closures are detection noise
+    maxDuration: number; // ms; longer closures are deliberate (eyes shut), not blinks
+    maxGap: number;      // ms; a longer gap between frames (face lost) drops the blink in progress
+}
+
+export const DEFAULT_BLINK_ANALYZER_OPTIONS: BlinkAnalyzerOptions = {
+    rateWindow: 60000,
+    trendWindow: 120000,
+    minDuration: 50,
+    maxDuration: 500,
+    maxGap: 200,
+};
+
+export const EMPTY_BLINK_STATS: BlinkStats = {
+    count: 0,
+    ratePerMinute: null,
+    trend: null,
+    meanDuration: null,
+    incompleteRatio: null,
+    lastBlink: null,
+};
+
+// A blink closing at least this share of the open-eye EAR (towards CLOSED_EAR) is complete
+const COMPLETE_BLINK_RATIO = 0.8;
+// EAR of fully shut lids (the lid landmarks never quite meet)
+const CLOSED_EAR = 0.05;
+// Open-eye EAR before it has been measured, and how fast the measurement follows
+const DEFAULT_OPEN_EAR = 0.3;
+const OPEN_EAR_SMOOTHING = 0.02;
+
+// The rate is not reported from less tracking than this (it would be a guess from 0-1 blinks)
+const MIN_RATE_SPAN_MS = 10000;
+// The rate history for the trend is sampled at this interval
+const RATE_SAMPLE_INTERVAL_MS = 1000;
+const MIN_TREND_SAMPLES = 10;
+
+interface Closure {
+    start: number;
+    minEAR: number;
+    irisCovered: boolean;
+}
+
+export class BlinkAnalyzer {
+    private options: BlinkAnalyzerOptions;
+    private blinks: BlinkEvent[] = [];
+    private rateHistory: { timestamp: number; rate: number }[] = [];
+    private closed: Closure | null = null;
+    private openEAR = DEFAULT_OPEN_EAR;
+    private firstTimestamp: number | null = null;
+    private lastTimestamp: number | null = null;
+    private lastRateSample = -Infinity;
+
+    constructor(options: Partial<BlinkAnalyzerOptions> = {}) {
+        this.options = { ...DEFAULT_BLINK_ANALYZER_OPTIONS, ...options };
+    }
+
+    // Blinks in the longer of the rate / trend windows, oldest first
+    public get events(): BlinkEvent[] {
+        return this.blinks;
+    }
+
+    /**
+     * Adds one tracked frame; returns the blink it completed, if any.
+     */
+    public push(timestamp: number, blink: BlinkState): BlinkEvent | null {
+        const { maxGap } = this.options;
+        if (this.lastTimestamp !== null && (timestamp - this.lastTimestamp > maxGap || timestamp < this.lastTimestamp)) {
+            this.closed = null;
+        }
+        if (this.firstTimestamp === null) this.firstTimestamp = timestamp;
+        this.lastTimestamp = timestamp;
+
+        const ear = (blink.leftEAR + blink.rightEAR) / 2;
+        const irisCovered = !blink.leftIrisVisible && !blink.rightIrisVisible;
+        let completed: BlinkEvent | null = null;
+
+        if (blink.isBlinking) {
+            if (this.closed) {
+                this.closed.minEAR = Math.min(this.closed.minEAR, ear);
+                this.closed.irisCovered = this.closed.irisCovered || irisCovered;
+            } else {
+                this.closed = { start: timestamp, minEAR: ear, irisCovered };
+            }
+        } else {
+            if (this.closed) completed = this.completeBlink(this.closed, timestamp);
+            this.closed = null;
+            this.openEAR += OPEN_EAR_SMOOTHING * (ear - this.openEAR);
+        }
+
+        this.prune(timestamp);
+        if (timestamp - this.lastRateSample >= RATE_SAMPLE_INTERVAL_MS) {
+            this.lastRateSample = timestamp;
+            const rate = this.rate(timestamp);
+            if (rate !== null) this.rateHistory.push({ timestamp, rate });
+        }
+        return completed;
+    }
+
+    public stats(now: number | null = this.lastTimestamp): BlinkStats {
+        if (now === null) return EMPTY_BLINK_STATS;
+        const recent = this.recent(now);
+        return {
+            count: recent.length,
+            ratePerMinute: this.rate(now),
+            trend: this.trend(),
+            meanDuration: recent.length > 0 ? recent.reduce((sum, b) => sum + b.duration, 0) / recent.length : null,
+            incompleteRatio: recent.length > 0 ? recent.filter(b => !b.complete).length / recent.length : null,
+            lastBlink: this.blinks.length > 0 ? this.blinks[this.blinks.length - 1] : null,
+        };
+    }
+
+    public reset() {
+        this.blinks = [];
+        this.rateHistory = [];
+        this.closed = null;
+        this.openEAR = DEFAULT_OPEN_EAR;
+        this.firstTimestamp = null;
+        this.lastTimestamp = null;
+        this.lastRateSample = -Infinity;
+    }
+
+    private completeBlink(closed: Closure, end: number): BlinkEvent | null {
+        const duration = end - closed.start;
+        if (duration < this.options.minDuration || duration > this.options.maxDuration) return null;
+
+        const range = Math.max(this.openEAR - CLOSED_EAR, 1e-3);
+        const completeness = Math.max(0, Math.min(1, (this.openEAR - closed.minEAR) / range));
+        const event: BlinkEvent = {
+            start: closed.start,
+            end,
+            duration,
+            minEAR: closed.minEAR,
+            completeness,
+            complete: closed.irisCovered || completeness >= COMPLETE_BLINK_RATIO,
+        };
+        this.blinks.push(event);
+        return event;
+    }
+
+    private recent(now: number): BlinkEvent[] {
+        return this.blinks.filter(b => b.end > now - this.options.rateWindow && b.end <= now);
+    }
+
+    /**
+     * Blinks per minute over the rate window, or over the tracked time while that is shorter.
+     */
+    private rate(now: number): number | null {
+        if (this.firstTimestamp === null) return null;
+        const span = Math.min(this.options.rateWindow, now - this.firstTimestamp);
+        if (span < MIN_RATE_SPAN_MS) return null;
+        return this.recent(now).length / (span / 60000);
+    }
+
+    private trend(): number | null {
+        if (this.rateHistory.length < MIN_TREND_SAMPLES) return null;
+        const line = fitLine(
+            this.rateHistory.map(s => s.timestamp / 60000),
+            this.rateHistory.map(s => s.rate)
+        );
+        return line ? line.slope : null;
+    }
+
+    private prune(now: number) {
+        const { rateWindow, trendWindow } = this.options;
+        const keepFrom = now - Math.max(rateWindow, trendWindow);
+        while (this.blinks.length > 0 && this.blinks[0].end < keepFrom) this.blinks.shift();
+        while (this.rateHistory.length > 0 && this.rateHistory[0].timestamp < now - trendWindow) this.rateHistory.shift();
+    }
+}
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+    CalibrationProfile,
+    decodeCalibrationProfile,
+    encodeCalibrationProfile,
+    readCalibrationProfileFile,
+    safeParseCalibrationProfile,
+    validStoredProfiles,
+} from "./CalibrationProfiles";
+import { DEFAULT_DISPLAY_PROFILE } from "./DisplayProfile";
+
+function profile(name = "alice", savedAt = 1700000000000): CalibrationProfile {
+    return {
+        name,
+        savedAt,
+        calibration: {
+            inputXMin: -0.3,
+            inputXMax: 0.3,
+            inputYMin: -0.2,
+            inputYMax: 0.2,
+            regression: { x: [1.2, 0.1, 0, 0.02, 0, 0.5], y: [0.05, 1.4, 0, 0, 0.01, 0.5] },
+            validation: { accuracyPx: 31, accuracyDeg: 0.9, precisionPx: 6, precisionDeg: 0.2 },
+        },
+        trackingMode: 'iris',
+        filterSettings: { minCutoff: 0.1, beta: 5, speedGain: 2 },
+        displayProfile: DEFAULT_DISPLAY_PROFILE,
+    };
+}
+
+// The exported JSON of a valid profile with one field changed
+function exportedWith(change: (value: CalibrationProfile & { version?: number }) => void): string {
+    const value = JSON.parse(encodeCalibrationProfile(profile()));
+    change(value);
+    return JSON.stringify(value);
+}
+
+describe("calibration profile files", () => {
+    it("round-trips a profile through export and import", async () => {
+        const text = encodeCalibrationProfile(profile());
+        expect(JSON.parse(text).version).toBe(1);
+        expect(decodeCalibrationProfile(text)).toEqual({ ok: true, profile: profile() });
+        expect(await readCalibrationProfileFile(new Blob([text]))).toEqual(profile());
+    });
+
+    it("reads files exported before the format was versioned", () => {
+        const result = decodeCalibrationProfile(exportedWith(value => delete value.version));
+        expect(result).toEqual({ ok: true, profile: profile() });
+    });
+
+    it.each([
+        { name: "malformed JSON", text: "{\"name\": \"alice\"," },
+        { name: "a newer format version", text: exportedWith(value => value.version = 2) },
+        { name: "missing regression coefficients", text: exportedWith(value => value.calibration.regression!.x.pop()) },
+        { name: "a non-numeric coefficient", text: exportedWith(value => value.calibration.regression!.y[2] = "0" as unknown as number) },
+        // JSON has no Infinity / NaN: JSON.stringify writes them as null
+        { name: "a non-finite coefficient", text: exportedWith(value => value.calibration.regression!.x[0] = Infinity) },
+        { name: "a negative screen width", text: exportedWith(value => value.displayProfile.screenWidthMm = -344) },
+        { name: "a camera field of view beyond 180 deg", text: exportedWith(value => value.displayProfile.cameraHorizontalFov = 270) },
+        { name: "an empty name", text: exportedWith(value => value.name = "  ") },
+    ])("rejects $name with an error", async ({ text }) => {
+        let result: ReturnType<typeof decodeCalibrationProfile> | null = null;
+        expect(() => result = decodeCalibrationProfile(text)).not.toThrow();
+        expect(result).toMatchObject({ ok: false, error: expect.stringMatching(/^Invalid calibration profile/) });
+        // Importing a file turns it into a rejected promise for the dialog to show
+        await expect(readCalibrationProfileFile(new Blob([text]))).rejects.toThrow(/^Invalid calibration profile/);
+    });
+
+    it("rejects non-finite numbers in profiles that never were JSON", () => {
+        const value = profile();
+        value.calibration.regression!.x[0] = Number.NaN;
+        expect(safeParseCalibrationProfile(value).ok).toBe(false);
+        value.calibration.regression!.x[0] = Infinity;
+        expect(safeParseCalibrationProfile(value).ok).toBe(false);
+    });
+});
+
+describe("validStoredProfiles", () => {
+    beforeEach(() => {
+        vi.spyOn(console, "warn").mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("skips invalid stored entries and sorts the rest newest first", () => {
+        const broken = { ...profile("carol"), filterSettings: { minCutoff: -1, beta: 5, speedGain: 2 } };
+        const stored: unknown[] = [profile("alice", 1000), broken, null, "bob", profile("dave", 3000)];
+
+        expect(validStoredProfiles(stored).map(p => p.name)).toEqual(["dave", "alice"]);
+        expect(console.warn).toHaveBeenCalledTimes(3);
+    });
+});
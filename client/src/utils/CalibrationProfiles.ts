@@ -0,0 +1,191 @@
+/**
+ * Calibration Profiles
+ * Named per-user calibrations (gaze regression, tracking mode, filter settings and display
+ * geometry) kept in IndexedDB, with JSON import / export. Everything read back - from the
+ * database or a file - is validated against the schema first, so a stale or hand-edited profile
+ * is rejected instead of reaching GazeController.
+ */
+import { z } from "zod";
+import { downloadBlob } from "./SessionRecorder";
+import { filterSettingsSchema } from "./FilterSettings";
+import { displayProfileSchema } from "./DisplayProfile";
+
+// Six coefficients per axis (see RegressionUtils)
+const coefficientsSchema = z.array(z.number()).length(6);
+
+const calibrationSchema = z.object({
+    inputXMin: z.number(),
+    inputXMax: z.number(),
+    inputYMin: z.number(),
+    inputYMax: z.number(),
+    matrix: z.array(z.number()).optional(),
+    regression: z.object({ x: coefficientsSchema, y: coefficientsSchema }).optional(),
+    validation: z.object({
+        accuracyPx: z.number(),
+        accuracyDeg: z.number(),
+        precisionPx: z.number(),
+        precisionDeg: z.number(),
+    }).optional(),
+});
+
+const profileSchema = z.object({
+    name: z.string().trim().min(1),
+    savedAt: z.number(), // ms since epoch
+    calibration: calibrationSchema,
+    trackingMode: z.enum(['head', 'iris']),
+    filterSettings: filterSettingsSchema,
+    displayProfile: displayProfileSchema,
+});
+
+// Exported files carry a format version; files from before it had none and are read as version 1
+const PROFILE_FILE_VERSION = 1;
+
+const profileFileSchema = profileSchema.extend({
+    version: z.literal(PROFILE_FILE_VERSION).optional(),
+});
+
+export type CalibrationProfile = z.infer<typeof profileSchema>;
+
+export type CalibrationProfileResult =
+    | { ok: true; profile: CalibrationProfile }
+    | { ok: false; error: string };
+
+/**
+ * Validates an untrusted profile; the error lists the schema issues when it does not match.
+ */
+export function safeParseCalibrationProfile(value: unknown): CalibrationProfileResult {
+    return toResult(profileSchema.safeParse(value));
+}
+
+/**
+ * Like safeParseCalibrationProfile, but throws the error.
+ */
+export function parseCalibrationProfile(value: unknown): CalibrationProfile {
+    const result = safeParseCalibrationProfile(value);
+    if (!result.ok) throw new Error(result.error);
+    return result.profile;
+}
+
+function toResult(result: z.ZodSafeParseResult<CalibrationProfile>): CalibrationProfileResult {
+    if (!result.success) return { ok: false, error: `Invalid calibration profile: ${z.prettifyError(result.error)}` };
+    return { ok: true, profile: result.data };
+}
+
+// --- IndexedDB ---
+
+const DB_NAME = "calibrationProfiles";
+const DB_VERSION = 1;
+const STORE_NAME = "profiles";
+
+function openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: "name" });
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDatabase();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        db.close();
+    }
+}
+
+/**
+ * All stored profiles, newest first. Entries that no longer match the schema are skipped.
+ */
+export async function listCalibrationProfiles(): Promise<CalibrationProfile[]> {
+    return validStoredProfiles(await withStore<unknown[]>("readonly", store => store.getAll()));
+}
+
+/**
+ * The stored entries that match the schema, newest first.
+ */
+export function validStoredProfiles(stored: unknown[]): CalibrationProfile[] {
+    const profiles: CalibrationProfile[] = [];
+    for (const value of stored) {
+        const result = safeParseCalibrationProfile(value);
+        if (result.ok) profiles.push(result.profile);
+        else console.warn("Skipping stored calibration profile:", result.error);
+    }
+    return profiles.sort((a, b) => b.savedAt - a.savedAt);
+}
+
+export async function loadCalibrationProfile(name: string): Promise<CalibrationProfile | null> {
+    const value = await withStore<unknown>("readonly", store => store.get(name));
+    if (value === undefined) return null;
+    const result = safeParseCalibrationProfile(value);
+    if (result.ok) return result.profile;
+    console.warn(`Ignoring stored calibration profile "${name}":`, result.error);
+    return null;
+}
+
+// Saving under an existing name replaces that profile
+export async function saveCalibrationProfile(profile: CalibrationProfile) {
+    await withStore("readwrite", store => store.put(parseCalibrationProfile(profile)));
+}
+
+export async function deleteCalibrationProfile(name: string) {
+    await withStore("readwrite", store => store.delete(name));
+}
+
+// --- Active profile (restored on reload) ---
+
+const ACTIVE_STORAGE_KEY = "calibrationProfile";
+
+export function loadActiveProfileName(): string | null {
+    try {
+        return localStorage.getItem(ACTIVE_STORAGE_KEY);
+    } catch (e) {
+        console.warn("Failed to load active calibration profile:", e);
+        return null;
+    }
+}
+
+export function saveActiveProfileName(name: string | null) {
+    if (name === null) localStorage.removeItem(ACTIVE_STORAGE_KEY);
+    else localStorage.setItem(ACTIVE_STORAGE_KEY, name);
+}
+
+// --- JSON import / export ---
+
+export function encodeCalibrationProfile(profile: CalibrationProfile): string {
+    return JSON.stringify({ version: PROFILE_FILE_VERSION, ...profile }, null, 2);
+}
+
+/**
+ * Reads an exported profile file's text. Malformed JSON, another format version or a profile
+ * that does not match the schema give an error instead.
+ */
+export function decodeCalibrationProfile(text: string): CalibrationProfileResult {
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch (e) {
+        return { ok: false, error: `Invalid calibration profile: ${e instanceof Error ? e.message : "not JSON"}` };
+    }
+    const result = profileFileSchema.safeParse(value);
+    if (!result.success) return toResult(result);
+    const { version, ...profile } = result.data;
+    return { ok: true, profile };
+}
+
+export function exportCalibrationProfile(profile: CalibrationProfile) {
+    const blob = new Blob([encodeCalibrationProfile(profile)], { type: "application/json" });
+    const safeName = profile.name.replace(/[^\w-]+/g, "_");
+    downloadBlob(blob, `calibration-${safeName}.json`);
+}
+
+export async function readCalibrationProfileFile(file: Blob): Promise<CalibrationProfile> {
+    const result = decodeCalibrationProfile(await file.text());
+    if (!result.ok) throw new Error(result.error);
+    return result.profile;
+}
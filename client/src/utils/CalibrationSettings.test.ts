@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+    CALIBRATION_PATTERNS,
+    CalibrationPattern,
+    calibrationTargets,
+    targetOrder,
+    validationTargets,
+} from "./CalibrationSettings";
+import { QUADRATIC_MIN_POINTS } from "./RegressionUtils";
+
+const EDGE = 10;
+
+describe("calibrationTargets", () => {
+    it.each<{ pattern: CalibrationPattern; count: number }>([
+        { pattern: 'five', count: 5 },
+        { pattern: 'nine', count: 9 },
+        { pattern: 'thirteen', count: 13 },
+        { pattern: 'sixteen', count: 16 },
+    ])("lays out $count targets for '$pattern'", ({ pattern, count }) => {
+        const targets = calibrationTargets(pattern);
+
+        expect(targets).toHaveLength(count);
+        expect(targets.map(t => t.id)).toEqual(Array.from({ length: count }, (_, i) => i));
+        // Distinct, inside the edge margin and reaching it on all four sides
+        expect(new Set(targets.map(t => `${t.x},${t.y}`)).size).toBe(count);
+        for (const t of targets) {
+            expect(t.x).toBeGreaterThanOrEqual(EDGE);
+            expect(t.x).toBeLessThanOrEqual(100 - EDGE);
+            expect(t.y).toBeGreaterThanOrEqual(EDGE);
+            expect(t.y).toBeLessThanOrEqual(100 - EDGE);
+        }
+        expect(Math.min(...targets.map(t => t.x))).toBe(EDGE);
+        expect(Math.max(...targets.map(t => t.x))).toBe(100 - EDGE);
+        expect(Math.min(...targets.map(t => t.y))).toBe(EDGE);
+        expect(Math.max(...targets.map(t => t.y))).toBe(100 - EDGE);
+    });
+
+    it("puts the five-point pattern on the corners and the centre", () => {
+        expect(calibrationTargets('five').map(({ x, y }) => ({ x, y }))).toEqual([
+            { x: 10, y: 10 }, { x: 90, y: 10 }, { x: 50, y: 50 }, { x: 10, y: 90 }, { x: 90, y: 90 },
+        ]);
+    });
+
+    it("spaces the sixteen-point grid evenly", () => {
+        const columns = [...new Set(calibrationTargets('sixteen').map(t => t.x))];
+        expect(columns).toHaveLength(4);
+        columns.slice(1).forEach((x, i) => expect(x - columns[i]).toBeCloseTo(80 / 3, 1));
+    });
+
+    it("has the quadratic fit's point count in every pattern but 'five'", () => {
+        for (const pattern of CALIBRATION_PATTERNS) {
+            expect(calibrationTargets(pattern).length >= QUADRATIC_MIN_POINTS).toBe(pattern !== 'five');
+        }
+    });
+});
+
+describe("validationTargets", () => {
+    it.each(CALIBRATION_PATTERNS)("gives five fresh targets away from the '%s' targets", pattern => {
+        const targets = calibrationTargets(pattern);
+        const validation = validationTargets(targets);
+
+        expect(validation).toHaveLength(5);
+        expect(validation.map(t => t.id)).toEqual([0, 1, 2, 3, 4]);
+        for (const v of validation) {
+            for (const t of targets) expect(Math.hypot(v.x - t.x, v.y - t.y)).toBeGreaterThanOrEqual(8);
+        }
+    });
+});
+
+describe("targetOrder", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("visits the targets in order unless random", () => {
+        expect(targetOrder(calibrationTargets('nine'), false)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8]);
+    });
+
+    it("shuffles into a permutation of the targets", () => {
+        const values = [0.9, 0.1, 0.5, 0.7, 0.3, 0.2, 0.8, 0.4];
+        vi.spyOn(Math, "random").mockImplementation(() => values.shift() ?? 0);
+        const order = targetOrder(calibrationTargets('nine'), true);
+
+        expect(order).not.toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8]);
+        expect([...order].sort((a, b) => a - b)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8]);
+    });
+});
@@ -0,0 +1,129 @@
+/**
+ * Calibration Settings
+ * Calibration mode, target layout and timing of the point calibration, with the fresh validation
+ * targets that go with each layout. Stored in localStorage like the filter settings.
+ */
+
+// Fixating static points, or following a moving target (see PursuitCalibration)
+export type CalibrationMode = 'points' | 'pursuit';
+
+export const CALIBRATION_MODES: CalibrationMode[] = ['points', 'pursuit'];
+
+export type PursuitPath = 'lissajous' | 'spiral';
+
+export const PURSUIT_PATHS: PursuitPath[] = ['lissajous', 'spiral'];
+
+export type CalibrationPattern = 'five' | 'nine' | 'thirteen' | 'sixteen';
+
+export const CALIBRATION_PATTERNS: CalibrationPattern[] = ['five', 'nine', 'thirteen', 'sixteen'];
+
+export type TargetAnimation = 'shrink' | 'static';
+
+export const TARGET_ANIMATIONS: TargetAnimation[] = ['shrink', 'static'];
+
+export interface CalibrationSettings {
+    mode: CalibrationMode;
+    pursuitPath: PursuitPath;
+    pattern: CalibrationPattern;
+    randomOrder: boolean;
+    animation: TargetAnimation; // Shrinking targets hold attention on the centre
+    dwellMs: number;            // How long each target is shown
+    sampleMs: number;           // Gaze is sampled over the last part of the dwell
+}
+
+export const DEFAULT_CALIBRATION_SETTINGS: CalibrationSettings = {
+    mode: 'points',
+    pursuitPath: 'lissajous',
+    pattern: 'nine',
+    randomOrder: false,
+    animation: 'shrink',
+    dwellMs: 3000,
+    sampleMs: 1000,
+};
+
+// Slider ranges
+export const CALIBRATION_TIMING_LIMITS: Record<'dwellMs' | 'sampleMs', { min: number; max: number; step: number }> = {
+    dwellMs: { min: 1000, max: 5000, step: 250 },
+    sampleMs: { min: 300, max: 3000, step: 100 },
+};
+
+export interface CalibrationTarget {
+    x: number; // % of the screen
+    y: number;
+    id: number;
+}
+
+// Targets stay this far (%) from the screen edges
+const EDGE = 10;
+
+function grid(columns: number[], rows: number[]): { x: number; y: number }[] {
+    return rows.flatMap(y => columns.map(x => ({ x, y })));
+}
+
+const PATTERN_POINTS: Record<CalibrationPattern, { x: number; y: number }[]> = {
+    five: [
+        ...grid([EDGE, 100 - EDGE], [EDGE]),
+        { x: 50, y: 50 },
+        ...grid([EDGE, 100 - EDGE], [100 - EDGE]),
+    ],
+    nine: grid([EDGE, 50, 100 - EDGE], [EDGE, 50, 100 - EDGE]),
+    // 3x3 grid plus the centres of its four quadrants
+    thirteen: [
+        ...grid([EDGE, 50, 100 - EDGE], [EDGE, 50, 100 - EDGE]),
+        ...grid([30, 70], [30, 70]),
+    ],
+    sixteen: grid([EDGE, 36.67, 63.33, 100 - EDGE], [EDGE, 36.67, 63.33, 100 - EDGE]),
+};
+
+export function calibrationTargets(pattern: CalibrationPattern): CalibrationTarget[] {
+    return PATTERN_POINTS[pattern].map((p, id) => ({ ...p, id }));
+}
+
+// Validation candidates, in order of preference
+const VALIDATION_CANDIDATES = [
+    { x: 30, y: 30 }, { x: 70, y: 30 }, { x: 50, y: 70 }, { x: 30, y: 70 }, { x: 70, y: 70 },
+    { x: 50, y: 30 }, { x: 30, y: 50 }, { x: 70, y: 50 }, { x: 40, y: 60 }, { x: 60, y: 40 },
+];
+const VALIDATION_COUNT = 5;
+// A validation target this close (%) to a calibration target would not test the interpolation
+const MIN_VALIDATION_SEPARATION = 8;
+
+/**
+ * Fresh targets for validating a fit to `targets`, away from all of them.
+ */
+export function validationTargets(targets: CalibrationTarget[]): CalibrationTarget[] {
+    return VALIDATION_CANDIDATES
+        .filter(c => targets.every(t => Math.hypot(t.x - c.x, t.y - c.y) >= MIN_VALIDATION_SEPARATION))
+        .slice(0, VALIDATION_COUNT)
+        .map((p, id) => ({ ...p, id }));
+}
+
+/**
+ * Order in which the targets are visited.
+ */
+export function targetOrder(targets: CalibrationTarget[], random: boolean): number[] {
+    const order = targets.map(t => t.id);
+    if (!random) return order;
+    // Fisher-Yates
+    for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+    }
+    return order;
+}
+
+const STORAGE_KEY = "calibrationSettings";
+
+export function loadCalibrationSettings(): CalibrationSettings {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) return { ...DEFAULT_CALIBRATION_SETTINGS, ...JSON.parse(stored) };
+    } catch (e) {
+        console.warn("Failed to load calibration settings:", e);
+    }
+    return DEFAULT_CALIBRATION_SETTINGS;
+}
+
+export function saveCalibrationSettings(settings: CalibrationSettings) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
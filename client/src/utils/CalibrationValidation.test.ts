@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { evaluatePoint, summarizeValidation, ValidationGeometry } from "./CalibrationValidation";
+import { PolynomialRegression } from "./RegressionUtils";
+
+// 1000 x 500 px screen at 4 px/mm, viewed from 600 mm
+const GEOMETRY: ValidationGeometry = { screenWidth: 1000, screenHeight: 500, pixelsPerMm: 4, distanceMm: 600 };
+
+// Screen position = 0.5 + gaze angle, the identity fit of a perfect calibration
+function identityRegression(): PolynomialRegression {
+    const regression = new PolynomialRegression();
+    regression.setCoefficients({ x: [1, 0, 0, 0, 0, 0.5], y: [0, 1, 0, 0, 0, 0.5] });
+    return regression;
+}
+
+describe("evaluatePoint", () => {
+    it("measures the offset of the mean gaze and the sample-to-sample spread", () => {
+        // Mean gaze 0.02 (20 px) right of the target; samples alternate 0.01 (10 px) apart
+        const samples = [0.01, 0.03, 0.01, 0.03].map(yaw => ({ yaw, pitch: 0 }));
+        const error = evaluatePoint(identityRegression(), { x: 0.5, y: 0.5 }, samples, GEOMETRY)!;
+
+        expect(error.offsetPx.x).toBeCloseTo(20, 9);
+        expect(error.offsetPx.y).toBeCloseTo(0, 9);
+        expect(error.errorPx).toBeCloseTo(20, 9);
+        expect(error.errorDeg).toBeCloseTo((Math.atan2(5, 600) * 180) / Math.PI, 9);
+        expect(error.precisionPx).toBeCloseTo(20, 9);
+        expect(error.samples).toBe(4);
+    });
+
+    it("is null without usable samples", () => {
+        expect(evaluatePoint(identityRegression(), { x: 0.5, y: 0.5 }, [], GEOMETRY)).toBeNull();
+        expect(evaluatePoint(identityRegression(), { x: 0.5, y: 0.5 }, [{ yaw: NaN, pitch: 0 }], GEOMETRY)).toBeNull();
+    });
+});
+
+describe("summarizeValidation", () => {
+    it("averages the accuracy and takes the RMS of the precision", () => {
+        const regression = identityRegression();
+        const a = evaluatePoint(regression, { x: 0.5, y: 0.5 }, [{ yaw: 0.01, pitch: 0 }], GEOMETRY)!;
+        const b = evaluatePoint(regression, { x: 0.5, y: 0.5 }, [{ yaw: 0, pitch: 0.06 }, { yaw: 0, pitch: 0.1 }], GEOMETRY)!;
+        const report = summarizeValidation([a, b])!;
+
+        expect(report.points).toEqual([a, b]);
+        expect(report.accuracyPx).toBeCloseTo((10 + 40) / 2, 9);
+        expect(report.precisionPx).toBeCloseTo(Math.sqrt((0 + 20 ** 2) / 2), 9);
+    });
+
+    it("has no report without evaluated targets", () => {
+        expect(summarizeValidation([])).toBeNull();
+    });
+});
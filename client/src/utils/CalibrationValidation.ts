@@ -0,0 +1,114 @@
+/**
+ * Calibration Validation
+ * Quality of a gaze calibration measured on targets the regression was not fitted to:
+ * - accuracy: mean offset between the target and the mean predicted gaze
+ * - precision: RMS of the sample-to-sample distance of the predicted gaze while fixating
+ * Both are reported in screen pixels and in degrees of visual angle at the viewing distance.
+ */
+import { PolynomialRegression } from "./RegressionUtils";
+
+export interface GazeSample {
+    yaw: number;   // rad
+    pitch: number;
+}
+
+export interface ScreenPoint {
+    x: number; // Normalised screen coordinates (0..1, top-left origin)
+    y: number;
+}
+
+export interface ValidationGeometry {
+    screenWidth: number;  // px
+    screenHeight: number;
+    pixelsPerMm: number;
+    distanceMm: number;   // Eye to screen
+}
+
+export interface PointError {
+    target: ScreenPoint;
+    gaze: ScreenPoint;      // Mean predicted gaze
+    offsetPx: { x: number; y: number };
+    errorPx: number;
+    errorDeg: number;
+    precisionPx: number;
+    precisionDeg: number;
+    samples: number;
+}
+
+export interface ValidationSummary {
+    accuracyPx: number;
+    accuracyDeg: number;
+    precisionPx: number;
+    precisionDeg: number;
+}
+
+export interface ValidationReport extends ValidationSummary {
+    points: PointError[];
+}
+
+// Webcam eye tracking is good below ~1.5 deg; points beyond 3 deg should be redone
+export const GOOD_POINT_ERROR_DEG = 1.5;
+export const BAD_POINT_ERROR_DEG = 3;
+
+/**
+ * Error of one fixated target. Null when there are no usable samples.
+ */
+export function evaluatePoint(
+    regression: PolynomialRegression,
+    target: ScreenPoint,
+    samples: GazeSample[],
+    geometry: ValidationGeometry
+): PointError | null {
+    const toPx = (p: ScreenPoint) => ({ x: p.x * geometry.screenWidth, y: p.y * geometry.screenHeight });
+    const predicted = samples
+        .filter(s => Number.isFinite(s.yaw) && Number.isFinite(s.pitch))
+        .map(s => toPx(regression.predict(s.yaw, s.pitch)))
+        .filter(p => Number.isFinite(p.x) && Number.isFinite(p.y));
+    if (predicted.length === 0) return null;
+
+    const mean = {
+        x: predicted.reduce((sum, p) => sum + p.x, 0) / predicted.length,
+        y: predicted.reduce((sum, p) => sum + p.y, 0) / predicted.length,
+    };
+    const targetPx = toPx(target);
+    const offsetPx = { x: mean.x - targetPx.x, y: mean.y - targetPx.y };
+    const errorPx = Math.hypot(offsetPx.x, offsetPx.y);
+
+    let sumSq = 0;
+    for (let i = 1; i < predicted.length; i++) {
+        sumSq += (predicted[i].x - predicted[i - 1].x) ** 2 + (predicted[i].y - predicted[i - 1].y) ** 2;
+    }
+    const precisionPx = predicted.length > 1 ? Math.sqrt(sumSq / (predicted.length - 1)) : 0;
+
+    return {
+        target,
+        gaze: { x: mean.x / geometry.screenWidth, y: mean.y / geometry.screenHeight },
+        offsetPx,
+        errorPx,
+        errorDeg: pxToDeg(errorPx, geometry),
+        precisionPx,
+        precisionDeg: pxToDeg(precisionPx, geometry),
+        samples: predicted.length,
+    };
+}
+
+/**
+ * Accuracy and precision over the evaluated targets. Null when no target has usable samples.
+ */
+export function summarizeValidation(points: PointError[]): ValidationReport | null {
+    if (points.length === 0) return null;
+    const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+    const rms = (values: number[]) => Math.sqrt(mean(values.map(v => v * v)));
+    return {
+        points,
+        accuracyPx: mean(points.map(p => p.errorPx)),
+        accuracyDeg: mean(points.map(p => p.errorDeg)),
+        precisionPx: rms(points.map(p => p.precisionPx)),
+        precisionDeg: rms(points.map(p => p.precisionDeg)),
+    };
+}
+
+function pxToDeg(px: number, geometry: ValidationGeometry): number {
+    const mm = px / geometry.pixelsPerMm;
+    return (Math.atan2(mm, geometry.distanceMm) * 180) / Math.PI;
+}
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_DISPLAY_PROFILE, DISPLAY_PRESETS, loadDisplayProfile } from "./DisplayProfile";
+
+// localStorage holding `stored` under the profile key
+function storeDisplayProfile(stored: string | null) {
+    vi.stubGlobal("localStorage", { getItem: () => stored });
+}
+
+describe("loadDisplayProfile", () => {
+    beforeEach(() => {
+        vi.spyOn(console, "warn").mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it("reads back a saved profile", () => {
+        const custom = { ...DISPLAY_PRESETS[3], name: "Desk", pixelDensity: 4.2 };
+        storeDisplayProfile(JSON.stringify(custom));
+        expect(loadDisplayProfile()).toEqual(custom);
+    });
+
+    it("starts from the default profile", () => {
+        storeDisplayProfile(null);
+        expect(loadDisplayProfile()).toEqual(DEFAULT_DISPLAY_PROFILE);
+    });
+
+    it.each([
+        { name: "malformed JSON", stored: "{\"screenWidthMm\":" },
+        { name: "a string width", stored: JSON.stringify({ screenWidthMm: "344" }) },
+        // JSON.stringify writes NaN / Infinity as null
+        { name: "a non-finite height", stored: JSON.stringify({ screenHeightMm: Number.NaN }) },
+        { name: "a negative pixel density", stored: JSON.stringify({ pixelDensity: -3 }) },
+        { name: "an incomplete camera offset", stored: JSON.stringify({ cameraOffsetMm: { x: 0, y: 100 } }) },
+        { name: "a field of view beyond 180 deg", stored: JSON.stringify({ cameraHorizontalFov: 240 }) },
+    ])("falls back to the default profile on $name", ({ stored }) => {
+        storeDisplayProfile(stored);
+        expect(loadDisplayProfile()).toEqual(DEFAULT_DISPLAY_PROFILE);
+        expect(console.warn).toHaveBeenCalledOnce();
+    });
+});
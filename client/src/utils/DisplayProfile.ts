@@ -0,0 +1,150 @@
+/**
+ * Display Profile
+ * Physical geometry of the screen and webcam, used to turn tracked head positions into
+ * millimetres relative to the screen centre and millimetres into scene units.
+ *
+ * Screen frame: origin at the screen centre, +X right (as seen by the viewer), +Y up,
+ * +Z out of the screen towards the viewer.
+ */
+import { z } from "zod";
+import { Point3D } from "./FaceUtils";
+
+export interface DisplayProfile {
+    name: string;
+    screenWidthMm: number;
+    screenHeightMm: number;
+    pixelDensity: number | null;  // CSS px per mm; null = derive from window.screen and screenWidthMm
+    cameraOffsetMm: Point3D;      // Camera position in the screen frame
+    cameraHorizontalFov: number;  // Degrees
+}
+
+// Stored and imported profiles are checked against this (z.number() also rejects NaN / Infinity)
+export const displayProfileSchema = z.object({
+    name: z.string(),
+    screenWidthMm: z.number().positive(),
+    screenHeightMm: z.number().positive(),
+    pixelDensity: z.number().positive().nullable(),
+    cameraOffsetMm: z.object({ x: z.number(), y: z.number(), z: z.number() }),
+    cameraHorizontalFov: z.number().positive().max(180),
+});
+
+// CSS reference pixel: 1/96 inch. Fallback when nothing better is known.
+export const CSS_PX_PER_MM = 96 / 25.4;
+
+// Webcams sit just above the top edge of the panel
+const BEZEL_CAMERA_GAP_MM = 6;
+
+const aboveScreen = (heightMm: number): Point3D => ({ x: 0, y: heightMm / 2 + BEZEL_CAMERA_GAP_MM, z: 0 });
+
+export const DISPLAY_PRESETS: DisplayProfile[] = [
+    {
+        name: "Laptop 13\"",
+        screenWidthMm: 286,
+        screenHeightMm: 179,
+        pixelDensity: null,
+        cameraOffsetMm: aboveScreen(179),
+        cameraHorizontalFov: 60,
+    },
+    {
+        name: "Laptop 15\"",
+        screenWidthMm: 344,
+        screenHeightMm: 194,
+        pixelDensity: null,
+        cameraOffsetMm: aboveScreen(194),
+        cameraHorizontalFov: 60,
+    },
+    {
+        name: "Monitor 24\"",
+        screenWidthMm: 531,
+        screenHeightMm: 299,
+        pixelDensity: null,
+        cameraOffsetMm: aboveScreen(299),
+        cameraHorizontalFov: 70,
+    },
+    {
+        name: "Monitor 27\"",
+        screenWidthMm: 597,
+        screenHeightMm: 336,
+        pixelDensity: null,
+        cameraOffsetMm: aboveScreen(336),
+        cameraHorizontalFov: 70,
+    },
+    {
+        // Camera on a tripod below the projected image
+        name: "Projector 2m",
+        screenWidthMm: 2000,
+        screenHeightMm: 1125,
+        pixelDensity: null,
+        cameraOffsetMm: { x: 0, y: -1125 / 2 - 150, z: 300 },
+        cameraHorizontalFov: 70,
+    },
+];
+
+export const DEFAULT_DISPLAY_PROFILE = DISPLAY_PRESETS[1];
+
+/**
+ * CSS pixels per millimetre on this display.
+ */
+export function getPixelsPerMm(profile: DisplayProfile): number {
+    if (profile.pixelDensity && profile.pixelDensity > 0) return profile.pixelDensity;
+    if (typeof window !== "undefined" && window.screen && window.screen.width > 0 && profile.screenWidthMm > 0) {
+        return window.screen.width / profile.screenWidthMm;
+    }
+    return CSS_PX_PER_MM;
+}
+
+export function getCameraFovRadians(profile: DisplayProfile): number {
+    return (profile.cameraHorizontalFov * Math.PI) / 180;
+}
+
+/**
+ * Back-projects an image point at a known depth into the screen frame (mm).
+ * The webcam image is not mirrored and the camera faces the viewer, so image right is screen left
+ * and image down is screen down.
+ */
+export function imagePointToScreenMm(
+    u: number,
+    v: number,
+    depthMm: number,
+    imageWidth: number,
+    imageHeight: number,
+    focalLengthPx: number,
+    profile: DisplayProfile
+): Point3D {
+    // Camera frame (x right, y down in the image, z forward out of the lens)
+    const xc = ((u - imageWidth / 2) * depthMm) / focalLengthPx;
+    const yc = ((v - imageHeight / 2) * depthMm) / focalLengthPx;
+
+    return cameraToScreenMm({ x: xc, y: yc, z: depthMm }, profile);
+}
+
+/**
+ * Converts a point from camera coordinates (mm) into the screen frame (mm).
+ */
+export function cameraToScreenMm(p: Point3D, profile: DisplayProfile): Point3D {
+    return {
+        x: -p.x + profile.cameraOffsetMm.x,
+        y: -p.y + profile.cameraOffsetMm.y,
+        z: p.z + profile.cameraOffsetMm.z,
+    };
+}
+
+const STORAGE_KEY = "displayProfile";
+
+export function loadDisplayProfile(): DisplayProfile {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+            const result = displayProfileSchema.safeParse({ ...DEFAULT_DISPLAY_PROFILE, ...JSON.parse(stored) });
+            if (result.success) return result.data;
+            console.warn("Ignoring invalid stored display profile:", z.prettifyError(result.error));
+        }
+    } catch (e) {
+        console.warn("Failed to load display profile:", e);
+    }
+    return DEFAULT_DISPLAY_PROFILE;
+}
+
+export function saveDisplayProfile(profile: DisplayProfile) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+}
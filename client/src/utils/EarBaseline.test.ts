@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { EAR_BASELINE_WARMUP_MS, EarBaseline, EarThresholds } from "./EarBaseline";
+
+const DEFAULTS: EarThresholds = { close: 0.18, reopen: 0.216 };
+const FRAME_MS = 1000 / 30;
+
+// Feeds the same EAR series to both eyes, one frame each, from `from` (ms)
+function feed(baseline: EarBaseline, ears: number[], { from = 0, collect = false } = {}) {
+    ears.forEach((ear, i) => baseline.push(from + i * FRAME_MS, ear, ear, collect));
+}
+
+// Open-eye EARs alternating `spread` either side of `open`
+const openEyes = (open: number, count: number, spread = 0) => Array.from({ length: count }, (_, i) => open + (i % 2 === 0 ? spread : -spread));
+
+describe("EarBaseline", () => {
+    it("keeps the defaults until enough open-eye samples", () => {
+        const baseline = new EarBaseline(DEFAULTS);
+        feed(baseline, openEyes(0.4, 44));
+        expect(baseline.isCalibrated).toBe(false);
+        expect(baseline.thresholds.left).toEqual(DEFAULTS);
+
+        feed(baseline, openEyes(0.4, 1), { from: 44 * FRAME_MS });
+        expect(baseline.isCalibrated).toBe(true);
+        expect(baseline.thresholds.left.close).toBeCloseTo(0.24, 6);
+    });
+
+    it.each([
+        // Steady eyes: 60% of the open EAR; reopening is always 30% of the way back
+        { name: "wide eyes", open: 0.4, spread: 0, close: 0.24 },
+        { name: "average eyes", open: 0.3, spread: 0, close: 0.18 },
+        { name: "narrow eyes", open: 0.15, spread: 0, close: 0.09 },
+        // Never below the EAR the lid landmarks reach when they are about to meet
+        { name: "very narrow eyes", open: 0.12, spread: 0, close: 0.08 },
+        // Noisy eyes: at least four robust standard deviations below the open EAR
+        { name: "noisy eyes", open: 0.3, spread: 0.025, close: 0.3 - 4 * 1.4826 * 0.025 },
+    ])("places the thresholds for $name", ({ open, spread, close }) => {
+        const baseline = new EarBaseline(DEFAULTS);
+        feed(baseline, openEyes(open, 60, spread));
+        const { left, right } = baseline.thresholds;
+
+        expect(left.close).toBeCloseTo(close, 6);
+        expect(right).toEqual(left);
+        expect(left.reopen).toBeCloseTo(close + 0.3 * (open - close), 6);
+    });
+
+    it("adapts the eyes separately", () => {
+        const baseline = new EarBaseline(DEFAULTS);
+        for (let i = 0; i < 60; i++) baseline.push(i * FRAME_MS, 0.3, 0.2, false);
+        expect(baseline.thresholds.left.close).toBeCloseTo(0.18, 6);
+        expect(baseline.thresholds.right.close).toBeCloseTo(0.12, 6);
+    });
+
+    it("keeps blinks out of the open-eye EAR once adapted", () => {
+        const baseline = new EarBaseline(DEFAULTS);
+        feed(baseline, openEyes(0.3, 60));
+        // A long closure would pull the median down if it were sampled
+        feed(baseline, Array(90).fill(0.05), { from: 60 * FRAME_MS });
+        expect(baseline.thresholds.left.close).toBeCloseTo(0.18, 6);
+    });
+
+    it("absorbs blinks in the median before adapting", () => {
+        const baseline = new EarBaseline(DEFAULTS);
+        const ears = openEyes(0.3, 60);
+        [10, 11, 12, 40, 41].forEach(i => ears[i] = 0.05);
+        feed(baseline, ears);
+        expect(baseline.thresholds.left.close).toBeCloseTo(0.18, 6);
+    });
+
+    it("samples only during the warm-up unless asked to", () => {
+        const warmupFrames = Math.floor(EAR_BASELINE_WARMUP_MS / FRAME_MS);
+        const baseline = new EarBaseline(DEFAULTS);
+        feed(baseline, openEyes(0.3, warmupFrames));
+        const afterWarmup = baseline.thresholds;
+
+        // Wider eyes after the warm-up are ignored...
+        feed(baseline, openEyes(0.5, 300), { from: EAR_BASELINE_WARMUP_MS + 1000 });
+        expect(baseline.thresholds).toEqual(afterWarmup);
+        // ...unless the caller collects them (calibration)
+        feed(baseline, openEyes(0.5, 900), { from: EAR_BASELINE_WARMUP_MS + 20000, collect: true });
+        expect(baseline.thresholds.left.close).toBeCloseTo(0.3, 6);
+    });
+
+    it("starts over after reset", () => {
+        const baseline = new EarBaseline(DEFAULTS);
+        feed(baseline, openEyes(0.4, 60));
+        baseline.reset();
+        expect(baseline.isCalibrated).toBe(false);
+        expect(baseline.thresholds.left).toEqual(DEFAULTS);
+    });
+});
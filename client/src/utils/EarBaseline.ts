@@ -0,0 +1,110 @@
+/**
+ * EAR Baseline
+ * Per-user, per-eye blink thresholds. The open-eye EAR differs a lot between eye shapes (and
+ * with glasses), so one fixed threshold misses blinks on some users and fires on narrow eyes
+ * for others. The open-eye EAR of each eye is sampled over the first seconds of tracking and
+ * whenever the caller asks for it (during gaze calibration the user looks at the screen with
+ * open eyes), and the thresholds are placed relative to its median and spread.
+ */
+
+export interface EarThresholds {
+    close: number;  // The eye closes below this EAR
+    reopen: number; // ...and counts as open again only above this one (hysteresis)
+}
+
+export interface EyeThresholds {
+    left: EarThresholds;
+    right: EarThresholds;
+}
+
+// Sampling runs for this long after the first frame, then only while requested
+export const EAR_BASELINE_WARMUP_MS = 5000;
+
+// Open-eye samples kept per eye (~30 s at 30 fps) and needed before the thresholds adapt
+const MAX_SAMPLES = 900;
+const MIN_SAMPLES = 45;
+// Thresholds are recomputed after this many new samples, not every frame
+const UPDATE_EVERY = 15;
+
+// Close threshold: this share of the open EAR (0.18 / 0.3 for the default thresholds), but at
+// least NOISE_MARGIN robust standard deviations below it so noisy eyes do not flicker closed
+const CLOSE_RATIO = 0.6;
+const NOISE_MARGIN = 4;
+const MIN_CLOSE_EAR = 0.08;
+const MAX_CLOSE_RATIO = 0.8;
+// Reopen threshold: this far from the close threshold towards the open EAR
+const REOPEN_FRACTION = 0.3;
+
+class EyeSamples {
+    private samples: number[] = [];
+    private sinceUpdate = 0;
+
+    constructor(public thresholds: EarThresholds) { }
+
+    public get count(): number {
+        return this.samples.length;
+    }
+
+    public push(ear: number) {
+        if (!Number.isFinite(ear)) return;
+        // Once adapted, closed frames (blinks) stay out of the open-eye distribution. Before that
+        // the default threshold may sit above a narrow eye's open EAR; the median absorbs blinks.
+        if (this.samples.length >= MIN_SAMPLES && ear < this.thresholds.close) return;
+        this.samples.push(ear);
+        if (this.samples.length > MAX_SAMPLES) this.samples.shift();
+        this.sinceUpdate++;
+        if (this.samples.length >= MIN_SAMPLES && this.sinceUpdate >= UPDATE_EVERY) {
+            this.sinceUpdate = 0;
+            this.thresholds = thresholdsFor(this.samples);
+        }
+    }
+}
+
+export class EarBaseline {
+    private left: EyeSamples;
+    private right: EyeSamples;
+    private firstTimestamp: number | null = null;
+
+    constructor(private defaults: EarThresholds) {
+        this.left = new EyeSamples(defaults);
+        this.right = new EyeSamples(defaults);
+    }
+
+    public get thresholds(): EyeThresholds {
+        return { left: this.left.thresholds, right: this.right.thresholds };
+    }
+
+    // Both eyes have adapted thresholds (until then the defaults apply)
+    public get isCalibrated(): boolean {
+        return this.left.count >= MIN_SAMPLES && this.right.count >= MIN_SAMPLES;
+    }
+
+    /**
+     * Adds one frame's EARs while in the warm-up or while `collect` is set.
+     */
+    public push(timestamp: number, leftEAR: number, rightEAR: number, collect: boolean) {
+        if (this.firstTimestamp === null) this.firstTimestamp = timestamp;
+        if (!collect && timestamp - this.firstTimestamp > EAR_BASELINE_WARMUP_MS) return;
+        this.left.push(leftEAR);
+        this.right.push(rightEAR);
+    }
+
+    public reset() {
+        this.left = new EyeSamples(this.defaults);
+        this.right = new EyeSamples(this.defaults);
+        this.firstTimestamp = null;
+    }
+}
+
+function thresholdsFor(samples: number[]): EarThresholds {
+    const open = median(samples);
+    const sigma = 1.4826 * median(samples.map(s => Math.abs(s - open)));
+    const close = Math.max(MIN_CLOSE_EAR, Math.min(open * CLOSE_RATIO, open - NOISE_MARGIN * sigma, open * MAX_CLOSE_RATIO));
+    return { close, reopen: close + REOPEN_FRACTION * (open - close) };
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = sorted.length >> 1;
+    return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { analyzeEyeMovements, EyeMovementAnalyzer, EyeMovementType, GazeSample } from "./EyeMovementAnalyzer";
+
+const STEP_MS = 10;
+
+// Horizontal iris track at 100 Hz: runs of constant velocity (px/s) starting from a still sample
+function series(runs: { velocity: number; ms: number }[], start: GazeSample = { timestamp: 0, x: 0, y: 0 }): GazeSample[] {
+    const samples = [start];
+    for (const run of runs) {
+        for (let i = 0; i < run.ms / STEP_MS; i++) {
+            const last = samples[samples.length - 1];
+            samples.push({ timestamp: last.timestamp + STEP_MS, x: last.x + (run.velocity * STEP_MS) / 1000, y: last.y });
+        }
+    }
+    return samples;
+}
+
+const types = (samples: GazeSample[], algorithm: 'ivt' | 'idt' = 'ivt') => analyzeEyeMovements(samples, algorithm).map(e => e.type);
+
+describe("EyeMovementAnalyzer (I-VT)", () => {
+    it.each<{ before: number; velocity: number; label: EyeMovementType }>([
+        { before: 0, velocity: 9.5, label: 'fixation' },
+        { before: 0, velocity: 10.5, label: 'fixation' },   // Between fixation and pursuit: keeps the label
+        { before: 100, velocity: 10.5, label: 'pursuit' },
+        { before: 100, velocity: 29.5, label: 'pursuit' },
+        { before: 0, velocity: 30.5, label: 'pursuit' },
+        { before: 0, velocity: 199.5, label: 'pursuit' },
+        { before: 0, velocity: 200.5, label: 'fixation' },  // Between pursuit and saccade: keeps the label
+        { before: 100, velocity: 299.5, label: 'pursuit' },
+        { before: 500, velocity: 299.5, label: 'saccade' },
+        { before: 0, velocity: 300.5, label: 'saccade' },
+        { before: 500, velocity: 9.5, label: 'fixation' },
+    ])("labels $velocity px/s after $before px/s as $label", ({ before, velocity, label }) => {
+        const analyzer = new EyeMovementAnalyzer('ivt');
+        series([{ velocity: before, ms: 200 }, { velocity, ms: 100 }]).forEach(s => analyzer.push(s));
+        expect(analyzer.current).toBe(label);
+    });
+
+    it.each([
+        { ms: 10, saccade: false },
+        { ms: 20, saccade: true },
+        { ms: 50, saccade: true },
+    ])("reports a $ms ms saccade: $saccade", ({ ms, saccade }) => {
+        const events = types(series([{ velocity: 0, ms: 200 }, { velocity: 500, ms }, { velocity: 0, ms: 200 }]));
+        expect(events).toEqual(saccade ? ['fixation', 'saccade', 'fixation'] : ['fixation', 'fixation']);
+    });
+
+    it.each([
+        { ms: 50, pursuit: false },
+        { ms: 100, pursuit: true },
+        { ms: 300, pursuit: true },
+    ])("reports a $ms ms pursuit: $pursuit", ({ ms, pursuit }) => {
+        const events = types(series([{ velocity: 0, ms: 200 }, { velocity: 100, ms }, { velocity: 0, ms: 200 }]));
+        expect(events.includes('pursuit')).toBe(pursuit);
+    });
+
+    it("measures the saccade from the sample where the eye left", () => {
+        const events = analyzeEyeMovements(series([{ velocity: 0, ms: 200 }, { velocity: 500, ms: 50 }, { velocity: 0, ms: 200 }]));
+        const saccade = events.find(e => e.type === 'saccade')!;
+
+        expect(saccade.start).toBe(200);
+        expect(saccade.end).toBe(250);
+        expect(saccade.duration).toBe(50);
+        expect(saccade.sampleCount).toBe(5);
+        expect(saccade.amplitude).toBeCloseTo(25, 6);
+        expect(saccade.startPosition).toEqual({ x: 0, y: 0 });
+        expect(saccade.endPosition.x).toBeCloseTo(25, 6);
+        expect(saccade.peakVelocity).toBeCloseTo(500, 6);
+        expect(saccade.meanVelocity).toBeCloseTo(500, 6);
+        // The fixation after it starts at its own first sample
+        expect(events[events.length - 1].start).toBe(260);
+    });
+
+    it.each([
+        { gapMs: 80, fixations: 1 },
+        { gapMs: 100, fixations: 1 },
+        { gapMs: 150, fixations: 2 },
+    ])("splits a fixation across a $gapMs ms gap into $fixations", ({ gapMs, fixations }) => {
+        const before = series([{ velocity: 0, ms: 200 }]);
+        const last = before[before.length - 1];
+        const after = series([{ velocity: 0, ms: 200 }], { ...last, timestamp: last.timestamp + gapMs });
+        expect(types([...before, ...after])).toEqual(Array(fixations).fill('fixation'));
+    });
+
+    it("does not turn the jump across a gap into a saccade", () => {
+        const before = series([{ velocity: 0, ms: 200 }]);
+        const after = series([{ velocity: 0, ms: 200 }], { timestamp: 400, x: 50, y: 0 });
+        expect(types([...before, ...after])).toEqual(['fixation', 'fixation']);
+    });
+});
+
+describe("EyeMovementAnalyzer (I-DT)", () => {
+    it.each<{ name: string; runs: { velocity: number; ms: number }[]; events: EyeMovementType[] }>([
+        { name: "a still eye", runs: [{ velocity: 0, ms: 300 }], events: ['fixation'] },
+        { name: "drift within the dispersion", runs: [{ velocity: 5, ms: 300 }], events: ['fixation'] },
+        { name: "a saccade between fixations", runs: [{ velocity: 0, ms: 200 }, { velocity: 500, ms: 50 }, { velocity: 0, ms: 200 }], events: ['fixation', 'saccade', 'fixation'] },
+        { name: "a pursuit", runs: [{ velocity: 0, ms: 200 }, { velocity: 100, ms: 300 }, { velocity: 0, ms: 200 }], events: ['fixation', 'pursuit', 'fixation'] },
+    ])("segments $name", ({ runs, events }) => {
+        expect(types(series(runs), 'idt')).toEqual(events);
+    });
+});
@@ -0,0 +1,262 @@
+/**
+ * Eye Movement Analyzer
+ * Segments the filtered iris stream into fixations, saccades and smooth pursuits.
+ * Thresholds follow the reference tool (hint.text): saccade > 300 px/s lasting >= 20 ms,
+ * pursuit 30-200 px/s, fixation < 10 px/s, all in image pixels of iris movement.
+ *
+ * - I-VT (velocity threshold): every sample is labelled from its own velocity as it arrives.
+ * - I-DT (dispersion threshold): a fixation is a run of samples spread over at most `dispersion`
+ *   px for at least `fixationMinDuration`; the other samples are saccade or pursuit by velocity.
+ *   Labels come out with a delay of up to one fixation window.
+ */
+import { Point2D } from "./FaceUtils";
+
+export type EyeMovementType = 'fixation' | 'saccade' | 'pursuit';
+export type EyeMovementAlgorithm = 'ivt' | 'idt';
+
+export const EYE_MOVEMENT_ALGORITHMS: EyeMovementAlgorithm[] = ['ivt', 'idt'];
+
+export interface GazeSample {
+    timestamp: number; // ms
+    x: number;         // px
+    y: number;
+}
+
+export interface EyeMovementEvent {
+    type: EyeMovementType;
+    start: number;          // ms; for saccades / pursuits the sample before the first one, where the movement began
+    end: number;            // ms
+    duration: number;       // ms
+    amplitude: number;      // px between the start and end positions
+    peakVelocity: number;   // px/s
+    meanVelocity: number;   // px/s
+    startPosition: Point2D;
+    endPosition: Point2D;
+    sampleCount: number;
+}
+
+export interface EyeMovementThresholds {
+    saccadeVelocity: number;     // px/s
+    saccadeMinDuration: number;  // ms
+    pursuitMinVelocity: number;  // px/s
+    pursuitMaxVelocity: number;  // px/s
+    fixationVelocity: number;    // px/s
+    fixationMinDuration: number; // ms; also the I-DT window
+    pursuitMinDuration: number;  // ms
+    dispersion: number;          // px (I-DT: x range + y range)
+    maxGap: number;              // ms; a longer gap between samples (blink, lost face) ends the event
+}
+
+export const DEFAULT_EYE_MOVEMENT_THRESHOLDS: EyeMovementThresholds = {
+    saccadeVelocity: 300,
+    saccadeMinDuration: 20,
+    pursuitMinVelocity: 30,
+    pursuitMaxVelocity: 200,
+    fixationVelocity: 10,
+    fixationMinDuration: 100,
+    pursuitMinDuration: 100,
+    dispersion: 2,
+    maxGap: 100,
+};
+
+interface VelocitySample extends GazeSample {
+    velocity: number;     // px/s from the previous sample (0 after a gap)
+    previous: GazeSample; // Where the movement into this sample started (itself after a gap)
+}
+
+interface Segment {
+    type: EyeMovementType;
+    from: GazeSample;
+    last: VelocitySample;
+    peakVelocity: number;
+    velocitySum: number;
+    sampleCount: number;
+}
+
+export class EyeMovementAnalyzer {
+    private thresholds: EyeMovementThresholds;
+    private lastSample: GazeSample | null = null;
+    private lastLabel: EyeMovementType | null = null;
+    private window: VelocitySample[] = []; // I-DT candidate fixation
+    private segment: Segment | null = null;
+
+    constructor(private algorithm: EyeMovementAlgorithm = 'ivt', thresholds: Partial<EyeMovementThresholds> = {}) {
+        this.thresholds = { ...DEFAULT_EYE_MOVEMENT_THRESHOLDS, ...thresholds };
+    }
+
+    // Label of the most recently classified sample
+    public get current(): EyeMovementType | null {
+        return this.lastLabel;
+    }
+
+    /**
+     * Adds one sample; returns the events it completed (oldest first).
+     */
+    public push(sample: GazeSample): EyeMovementEvent[] {
+        const previous = this.lastSample;
+        const gap = !previous || sample.timestamp - previous.timestamp > this.thresholds.maxGap || sample.timestamp <= previous.timestamp;
+        const dt = previous ? (sample.timestamp - previous.timestamp) / 1000 : 0;
+        const v: VelocitySample = {
+            ...sample,
+            velocity: gap ? 0 : Math.hypot(sample.x - previous!.x, sample.y - previous!.y) / dt,
+            previous: gap ? sample : previous!,
+        };
+        this.lastSample = sample;
+
+        const events: EyeMovementEvent[] = [];
+        if (gap) events.push(...this.flush());
+
+        if (this.algorithm === 'ivt') {
+            this.label(v, this.velocityLabel(v.velocity), events);
+        } else {
+            this.pushDispersion(v, events);
+        }
+        return events;
+    }
+
+    /**
+     * Classifies whatever is still pending and closes the current event (end of stream or a gap).
+     */
+    public flush(): EyeMovementEvent[] {
+        const events: EyeMovementEvent[] = [];
+        if (this.window.length > 0) this.releaseWindow(events);
+        this.closeSegment(events);
+        this.lastLabel = null;
+        return events;
+    }
+
+    public reset() {
+        this.lastSample = null;
+        this.lastLabel = null;
+        this.window = [];
+        this.segment = null;
+    }
+
+    /**
+     * I-VT label. Velocities between the bands (10-30, 200-300 px/s) keep the previous label,
+     * so noise around a threshold does not split an event.
+     */
+    private velocityLabel(velocity: number): EyeMovementType {
+        const t = this.thresholds;
+        if (velocity > t.saccadeVelocity) return 'saccade';
+        if (velocity >= t.pursuitMinVelocity && velocity <= t.pursuitMaxVelocity) return 'pursuit';
+        if (velocity < t.fixationVelocity) return 'fixation';
+        if (this.lastLabel) return this.lastLabel;
+        return velocity < t.pursuitMinVelocity ? 'fixation' : 'pursuit';
+    }
+
+    // Outside an I-DT fixation there is only saccade or pursuit
+    private movementLabel(velocity: number): EyeMovementType {
+        return velocity > this.thresholds.saccadeVelocity ? 'saccade' : 'pursuit';
+    }
+
+    private pushDispersion(sample: VelocitySample, events: EyeMovementEvent[]) {
+        // A sample arriving at saccade speed is the end of that saccade, not the start of a fixation
+        if (this.window.length === 0 && sample.velocity > this.thresholds.saccadeVelocity) {
+            this.label(sample, 'saccade', events);
+            return;
+        }
+
+        const wasFixation = this.windowDuration() >= this.thresholds.fixationMinDuration;
+        this.window.push(sample);
+        if (dispersion(this.window) <= this.thresholds.dispersion) return;
+
+        if (wasFixation) {
+            // The fixation ended before this sample, which already moved away
+            this.window.pop();
+            this.window.forEach(s => this.label(s, 'fixation', events));
+            this.window = [];
+            this.label(sample, this.movementLabel(sample.velocity), events);
+            return;
+        }
+
+        // Too spread for a fixation: the oldest sample is movement; retry with the rest
+        while (this.window.length > 1 && dispersion(this.window) > this.thresholds.dispersion) {
+            const oldest = this.window.shift()!;
+            this.label(oldest, this.movementLabel(oldest.velocity), events);
+        }
+    }
+
+    private releaseWindow(events: EyeMovementEvent[]) {
+        const isFixation = this.windowDuration() >= this.thresholds.fixationMinDuration;
+        this.window.forEach(s => this.label(s, isFixation ? 'fixation' : this.movementLabel(s.velocity), events));
+        this.window = [];
+    }
+
+    private windowDuration(): number {
+        if (this.window.length === 0) return 0;
+        return this.window[this.window.length - 1].timestamp - this.window[0].timestamp;
+    }
+
+    private label(sample: VelocitySample, type: EyeMovementType, events: EyeMovementEvent[]) {
+        this.lastLabel = type;
+        const segment = this.segment;
+        if (segment && segment.type === type && sample.previous !== sample) {
+            segment.last = sample;
+            segment.peakVelocity = Math.max(segment.peakVelocity, sample.velocity);
+            segment.velocitySum += sample.velocity;
+            segment.sampleCount++;
+            return;
+        }
+
+        // Movements start where the eye left the previous sample; fixations at their first sample
+        this.closeSegment(events);
+        this.segment = {
+            type,
+            from: type === 'fixation' ? sample : sample.previous,
+            last: sample,
+            peakVelocity: sample.velocity,
+            velocitySum: sample.velocity,
+            sampleCount: 1,
+        };
+    }
+
+    private closeSegment(events: EyeMovementEvent[]) {
+        const segment = this.segment;
+        this.segment = null;
+        if (!segment) return;
+
+        const duration = segment.last.timestamp - segment.from.timestamp;
+        const t = this.thresholds;
+        const minDuration = segment.type === 'saccade' ? t.saccadeMinDuration
+            : segment.type === 'fixation' ? t.fixationMinDuration
+                : t.pursuitMinDuration;
+        if (duration < minDuration) return;
+
+        events.push({
+            type: segment.type,
+            start: segment.from.timestamp,
+            end: segment.last.timestamp,
+            duration,
+            amplitude: Math.hypot(segment.last.x - segment.from.x, segment.last.y - segment.from.y),
+            peakVelocity: segment.peakVelocity,
+            meanVelocity: segment.velocitySum / segment.sampleCount,
+            startPosition: { x: segment.from.x, y: segment.from.y },
+            endPosition: { x: segment.last.x, y: segment.last.y },
+            sampleCount: segment.sampleCount,
+        });
+    }
+}
+
+/**
+ * Whole-recording segmentation (e.g. of an RTS-smoothed session).
+ */
+export function analyzeEyeMovements(
+    samples: GazeSample[],
+    algorithm: EyeMovementAlgorithm = 'ivt',
+    thresholds: Partial<EyeMovementThresholds> = {}
+): EyeMovementEvent[] {
+    const analyzer = new EyeMovementAnalyzer(algorithm, thresholds);
+    return [...samples.flatMap(s => analyzer.push(s)), ...analyzer.flush()];
+}
+
+function dispersion(samples: GazeSample[]): number {
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    for (const s of samples) {
+        minX = Math.min(minX, s.x);
+        maxX = Math.max(maxX, s.x);
+        minY = Math.min(minY, s.y);
+        maxY = Math.max(maxY, s.y);
+    }
+    return (maxX - minX) + (maxY - minY);
+}
@@ -0,0 +1,102 @@
+/**
+ * Live webcam source using the MediaPipe Tasks FaceLandmarker (loaded from CDN as an ES module).
+ */
+import { Point3D } from "./FaceUtils";
+import { clockNow, LandmarkListener, LandmarkSource, startCamera, VIDEO_HEIGHT, VIDEO_WIDTH } from "./LandmarkSource";
+
+export const TASKS_VISION_URL = "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision/vision_bundle.mjs";
+export const TASKS_WASM_URL = "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision/wasm";
+export const FACE_LANDMARKER_MODEL_URL =
+    "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task";
+
+// The parts of the Tasks API used here; the CDN bundle comes without type declarations
+export interface FaceLandmarkerResult {
+    faceLandmarks?: Point3D[][];
+}
+
+export interface FaceLandmarker {
+    detectForVideo(image: TexImageSource, timestampMs: number): FaceLandmarkerResult;
+    close(): void;
+}
+
+interface TasksVisionModule {
+    FilesetResolver: { forVisionTasks(wasmUrl: string): Promise<unknown> };
+    FaceLandmarker: { createFromOptions(fileset: unknown, options: object): Promise<FaceLandmarker> };
+}
+
+/**
+ * Loads the Tasks runtime and model. Works on the main thread and in module workers;
+ * pass an OffscreenCanvas for the GPU delegate when there is no document.
+ */
+export async function createFaceLandmarker(canvas?: OffscreenCanvas): Promise<FaceLandmarker> {
+    const vision: TasksVisionModule = await import(/* @vite-ignore */ TASKS_VISION_URL);
+    const fileset = await vision.FilesetResolver.forVisionTasks(TASKS_WASM_URL);
+    return vision.FaceLandmarker.createFromOptions(fileset, {
+        baseOptions: { modelAssetPath: FACE_LANDMARKER_MODEL_URL, delegate: "GPU" },
+        runningMode: "VIDEO",
+        numFaces: 1,
+        ...(canvas ? { canvas } : {}),
+    });
+}
+
+export class FaceLandmarkerSource implements LandmarkSource {
+    public readonly kind = 'face-landmarker';
+
+    private landmarker: FaceLandmarker | null = null;
+    private stream: MediaStream | null = null;
+    private rafId: number | null = null;
+    private lastVideoTime = -1;
+    private paused = false;
+    private stopped = false;
+
+    constructor(private video: HTMLVideoElement) { }
+
+    public async start(listener: LandmarkListener): Promise<void> {
+        this.stopped = false;
+
+        const landmarker = await createFaceLandmarker();
+        this.landmarker = landmarker;
+
+        this.stream = await startCamera(this.video);
+        if (this.stopped) {
+            this.stop();
+            return;
+        }
+
+        const loop = () => {
+            if (this.stopped) return;
+            this.rafId = requestAnimationFrame(loop);
+
+            // Only run inference on new video frames
+            if (this.paused || this.video.currentTime === this.lastVideoTime) return;
+            this.lastVideoTime = this.video.currentTime;
+
+            const timestamp = clockNow();
+            const result = landmarker.detectForVideo(this.video, performance.now());
+            const landmarks: Point3D[] | null = result.faceLandmarks && result.faceLandmarks.length > 0
+                ? result.faceLandmarks[0]
+                : null;
+            listener({
+                landmarks,
+                timestamp,
+                width: this.video.videoWidth || VIDEO_WIDTH,
+                height: this.video.videoHeight || VIDEO_HEIGHT,
+            });
+        };
+        loop();
+    }
+
+    public stop() {
+        this.stopped = true;
+        if (this.rafId !== null) cancelAnimationFrame(this.rafId);
+        this.rafId = null;
+        this.stream?.getTracks().forEach(track => track.stop());
+        this.stream = null;
+        this.landmarker?.close();
+        this.landmarker = null;
+    }
+
+    public setPaused(paused: boolean) {
+        this.paused = paused;
+    }
+}
@@ -0,0 +1,112 @@
+/**
+ * Live webcam source using the legacy MediaPipe FaceMesh solution (CDN scripts).
+ */
+import { Point3D } from "./FaceUtils";
+import { clockNow, LandmarkListener, LandmarkSource, loadScript, VIDEO_HEIGHT, VIDEO_WIDTH } from "./LandmarkSource";
+
+// The parts of the CDN-loaded FaceMesh / camera_utils globals used here
+interface FaceMeshResults {
+    multiFaceLandmarks?: Point3D[][];
+}
+
+interface FaceMesh {
+    setOptions(options: Record<string, unknown>): void;
+    onResults(callback: (results: FaceMeshResults) => void): void;
+    send(input: { image: HTMLVideoElement }): Promise<void>;
+    close(): Promise<void>;
+}
+
+interface CameraOptions {
+    onFrame: () => Promise<void>;
+    width: number;
+    height: number;
+}
+
+interface Camera {
+    start(): Promise<void>;
+    stop(): void;
+}
+
+declare global {
+    interface Window {
+        FaceMesh?: new (config: { locateFile: (file: string) => string }) => FaceMesh;
+        Camera?: new (video: HTMLVideoElement, options: CameraOptions) => Camera;
+    }
+}
+
+const FACE_MESH_URL = "https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh";
+const CAMERA_UTILS_URL = "https://cdn.jsdelivr.net/npm/@mediapipe/camera_utils/camera_utils.js";
+
+export class FaceMeshSource implements LandmarkSource {
+    public readonly kind = 'facemesh';
+
+    private faceMesh: FaceMesh | null = null;
+    private camera: Camera | null = null;
+    private paused = false;
+    private stopped = false;
+    private captureTime = 0; // When the frame currently in FaceMesh was grabbed
+
+    constructor(private video: HTMLVideoElement) { }
+
+    public async start(listener: LandmarkListener): Promise<void> {
+        this.stopped = false;
+        await loadScript(`${FACE_MESH_URL}/face_mesh.js`);
+        await loadScript(CAMERA_UTILS_URL);
+        await this.waitForLibraries();
+        const FaceMesh = window.FaceMesh;
+        const Camera = window.Camera;
+        if (this.stopped || !FaceMesh || !Camera) return;
+
+        const faceMesh = new FaceMesh({
+            locateFile: (file: string) => `${FACE_MESH_URL}/${file}`,
+        });
+
+        faceMesh.setOptions({
+            maxNumFaces: 1,
+            refineLandmarks: true, // Required for Iris
+            minDetectionConfidence: 0.5,
+            minTrackingConfidence: 0.5,
+        });
+
+        faceMesh.onResults(results => {
+            const landmarks: Point3D[] | null = results.multiFaceLandmarks && results.multiFaceLandmarks.length > 0
+                ? results.multiFaceLandmarks[0]
+                : null;
+            listener({ landmarks, timestamp: this.captureTime, width: VIDEO_WIDTH, height: VIDEO_HEIGHT });
+        });
+
+        const camera = new Camera(this.video, {
+            onFrame: async () => {
+                if (!this.paused && !this.stopped) {
+                    this.captureTime = clockNow();
+                    await faceMesh.send({ image: this.video });
+                }
+            },
+            width: VIDEO_WIDTH,
+            height: VIDEO_HEIGHT,
+        });
+
+        this.faceMesh = faceMesh;
+        this.camera = camera;
+        await camera.start();
+    }
+
+    public stop() {
+        this.stopped = true;
+        this.camera?.stop();
+        this.faceMesh?.close();
+        this.camera = null;
+        this.faceMesh = null;
+    }
+
+    public setPaused(paused: boolean) {
+        this.paused = paused;
+    }
+
+    private async waitForLibraries() {
+        while (!window.FaceMesh || !window.Camera) {
+            if (this.stopped) return;
+            await new Promise(resolve => setTimeout(resolve, 500));
+        }
+    }
+}
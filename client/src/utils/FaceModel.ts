@@ -0,0 +1,72 @@
+/**
+ * Approximate metric face model for a subset of MediaPipe landmarks.
+ * Units are millimetres. Axes: +X towards image right (subject's left),
+ * +Y up, +Z out of the face towards the camera. Origin is between the inner eye corners.
+ * Values are rounded anthropometric averages, good enough for synthetic data and pose fitting.
+ */
+import { Point3D } from "./FaceUtils";
+
+// Human iris diameter is nearly constant across adults (~11.7 mm).
+export const IRIS_DIAMETER_MM = 11.7;
+
+const IRIS_RADIUS_MM = IRIS_DIAMETER_MM / 2;
+
+// Distance from the eyeball's centre of rotation to the iris plane (~12 mm in adults).
+export const EYEBALL_RADIUS_MM = 12;
+
+// Eye centres (midpoint of the corners), shared by the eyelid and iris points below.
+const RIGHT_EYE_CENTER: Point3D = { x: -30, y: 0.5, z: -6 };
+const LEFT_EYE_CENTER: Point3D = { x: 30, y: 0.5, z: -6 };
+
+// Half height of the open eye aperture at the eyelid landmarks.
+export const EYELID_HALF_OPENING_MM = 4.2;
+
+export const FACE_MODEL_MM: Record<number, Point3D> = {
+    // Midline
+    10: { x: 0, y: 70, z: -5 },     // Forehead
+    168: { x: 0, y: 8, z: 5 },      // Nose bridge
+    1: { x: 0, y: -45, z: 25 },     // Nose tip
+    2: { x: 0, y: -55, z: 12 },     // Subnasale
+    152: { x: 0, y: -120, z: -5 },  // Chin
+
+    // Face outline (cheek edges at eye level)
+    234: { x: -70, y: -20, z: -60 },
+    454: { x: 70, y: -20, z: -60 },
+
+    // Mouth corners
+    61: { x: -25, y: -75, z: 0 },
+    291: { x: 25, y: -75, z: 0 },
+
+    // Subject right eye (image left): corners, upper lid, lower lid
+    33: { x: -45, y: 1, z: -12 },
+    133: { x: -15, y: 0, z: 0 },
+    160: { x: -37, y: 0.5 + EYELID_HALF_OPENING_MM, z: -6 },
+    158: { x: -23, y: 0.5 + EYELID_HALF_OPENING_MM, z: -3 },
+    153: { x: -23, y: 0.5 - EYELID_HALF_OPENING_MM, z: -3 },
+    144: { x: -37, y: 0.5 - EYELID_HALF_OPENING_MM, z: -6 },
+
+    // Subject left eye (image right)
+    263: { x: 45, y: 1, z: -12 },
+    362: { x: 15, y: 0, z: 0 },
+    385: { x: 23, y: 0.5 + EYELID_HALF_OPENING_MM, z: -3 },
+    387: { x: 37, y: 0.5 + EYELID_HALF_OPENING_MM, z: -6 },
+    373: { x: 37, y: 0.5 - EYELID_HALF_OPENING_MM, z: -6 },
+    380: { x: 23, y: 0.5 - EYELID_HALF_OPENING_MM, z: -3 },
+
+    // Right iris: centre, then ring (image-right, top, image-left, bottom)
+    468: { ...RIGHT_EYE_CENTER },
+    469: { x: RIGHT_EYE_CENTER.x + IRIS_RADIUS_MM, y: RIGHT_EYE_CENTER.y, z: RIGHT_EYE_CENTER.z },
+    470: { x: RIGHT_EYE_CENTER.x, y: RIGHT_EYE_CENTER.y + IRIS_RADIUS_MM, z: RIGHT_EYE_CENTER.z },
+    471: { x: RIGHT_EYE_CENTER.x - IRIS_RADIUS_MM, y: RIGHT_EYE_CENTER.y, z: RIGHT_EYE_CENTER.z },
+    472: { x: RIGHT_EYE_CENTER.x, y: RIGHT_EYE_CENTER.y - IRIS_RADIUS_MM, z: RIGHT_EYE_CENTER.z },
+
+    // Left iris
+    473: { ...LEFT_EYE_CENTER },
+    474: { x: LEFT_EYE_CENTER.x + IRIS_RADIUS_MM, y: LEFT_EYE_CENTER.y, z: LEFT_EYE_CENTER.z },
+    475: { x: LEFT_EYE_CENTER.x, y: LEFT_EYE_CENTER.y + IRIS_RADIUS_MM, z: LEFT_EYE_CENTER.z },
+    476: { x: LEFT_EYE_CENTER.x - IRIS_RADIUS_MM, y: LEFT_EYE_CENTER.y, z: LEFT_EYE_CENTER.z },
+    477: { x: LEFT_EYE_CENTER.x, y: LEFT_EYE_CENTER.y - IRIS_RADIUS_MM, z: LEFT_EYE_CENTER.z },
+};
+
+// Total landmark count with refineLandmarks (468 mesh + 10 iris)
+export const LANDMARK_COUNT = 478;
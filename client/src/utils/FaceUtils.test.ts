@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { computeIrisDiameter, estimateIrisDistance, focalLengthFromFov, LEFT_IRIS_INDICES, Point3D, RIGHT_IRIS_INDICES } from "./FaceUtils";
+import { IRIS_DIAMETER_MM } from "./FaceModel";
+
+const WIDTH = 640;
+const HEIGHT = 480;
+
+// Normalized landmarks with both iris rings (centre, then right / top / left / bottom) at the given pixel diameters
+function irises(rightDiameterPx: number, leftDiameterPx: number): Point3D[] {
+    const landmarks: Point3D[] = [];
+    const ring = (indices: number[], cx: number, diameterPx: number) => {
+        const r = diameterPx / 2;
+        [[0, 0], [r, 0], [0, -r], [-r, 0], [0, r]].forEach(([dx, dy], i) => {
+            landmarks[indices[i]] = { x: (cx + dx) / WIDTH, y: (240 + dy) / HEIGHT, z: 0 };
+        });
+    };
+    ring(RIGHT_IRIS_INDICES, 290, rightDiameterPx);
+    ring(LEFT_IRIS_INDICES, 350, leftDiameterPx);
+    return landmarks;
+}
+
+describe("estimateIrisDistance", () => {
+    const focal = focalLengthFromFov(WIDTH, 60 * Math.PI / 180);
+
+    it("measures the horizontal iris diameter in pixels", () => {
+        const landmarks = irises(20, 24);
+        expect(computeIrisDiameter(RIGHT_IRIS_INDICES, landmarks, WIDTH, HEIGHT)).toBeCloseTo(20, 6);
+        expect(computeIrisDiameter(LEFT_IRIS_INDICES, landmarks, WIDTH, HEIGHT)).toBeCloseTo(24, 6);
+    });
+
+    it.each([
+        { right: 20, left: 20, distanceMm: 324.2 },
+        { right: 18, left: 22, distanceMm: 324.2 },
+        { right: 10, left: 10, distanceMm: 648.5 },
+        { right: 40, left: 40, distanceMm: 162.1 },
+    ])("puts an iris of $right / $left px at $distanceMm mm", ({ right, left, distanceMm }) => {
+        // 60 deg across 640 px: f = 320 / tan(30 deg) = 554.3 px
+        expect(focal).toBeCloseTo(554.3, 1);
+        const distance = estimateIrisDistance(irises(right, left), WIDTH, HEIGHT, focal);
+        expect(distance).toBeCloseTo(distanceMm, 1);
+        expect(distance).toBeCloseTo(focal * IRIS_DIAMETER_MM / ((right + left) / 2), 6);
+    });
+
+    it("takes the iris diameter in mm", () => {
+        expect(estimateIrisDistance(irises(20, 20), WIDTH, HEIGHT, 600, 12)).toBeCloseTo(360, 6);
+    });
+
+    it.each([
+        { name: "collapsed to a point", right: 0, left: 0 },
+        { name: "below a pixel", right: 0.8, left: 1 },
+    ])("gives no distance for an iris $name", ({ right, left }) => {
+        expect(estimateIrisDistance(irises(right, left), WIDTH, HEIGHT, focal)).toBeNull();
+    });
+});
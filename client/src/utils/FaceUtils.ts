@@ -3,6 +3,7 @@
  * Utility functions for face and iris tracking geometry.
  * Ref: hint.text
  */
+import { IRIS_DIAMETER_MM } from "./FaceModel";
 
 // Landmark Indices
 export const LEFT_IRIS_INDICES = [473, 474, 475, 476, 477];
@@ -92,6 +93,78 @@ export function calculateGazeAngle(irisCenter: Point2D, eyeCenter: Point2D): { a
     return { angle, distance };
 }
 
+/**
+ * Binocular disparity: difference of the two eyes' gaze angles (degrees), wrapped to 0..180.
+ * Ref: calculate_binocular_disparity
+ */
+export function calculateBinocularDisparity(leftGazeAngle: number, rightGazeAngle: number): number {
+    const diff = Math.abs(leftGazeAngle - rightGazeAngle) % 360;
+    return diff > 180 ? 360 - diff : diff;
+}
+
+/**
+ * Focal length in pixels of a pinhole camera with the given horizontal field of view (radians).
+ */
+export function focalLengthFromFov(imageWidth: number, horizontalFov: number): number {
+    return imageWidth / 2 / Math.tan(horizontalFov / 2);
+}
+
+/**
+ * Horizontal iris diameter in pixels from the iris ring (centre, then 4 ring points).
+ * The horizontal pair is used because the eyelids clip the vertical one.
+ */
+export function computeIrisDiameter(indices: number[], landmarks: Point3D[], width: number = 1, height: number = 1): number {
+    const right = scalePoint(landmarks[indices[1]], width, height);
+    const left = scalePoint(landmarks[indices[3]], width, height);
+    return distance2D(right, left);
+}
+
+/**
+ * Iris size (diameter equivalent): largest distance between the ring points (indices 1-4).
+ * Ref: calculate_iris_size
+ */
+export function calculateIrisSize(indices: number[], landmarks: Point3D[], width: number = 1, height: number = 1): number {
+    const ring = indices.slice(1).map(i => scalePoint(landmarks[i], width, height));
+    let maxDist = 0;
+    for (let i = 0; i < ring.length; i++) {
+        for (let j = i + 1; j < ring.length; j++) {
+            maxDist = Math.max(maxDist, distance2D(ring[i], ring[j]));
+        }
+    }
+    return maxDist;
+}
+
+/**
+ * Iris stability: standard deviation of the most recent 30 sizes (0 with fewer than 10).
+ * Ref: calculate_iris_stability
+ */
+export function calculateIrisStability(sizes: number[]): number {
+    if (sizes.length < 10) return 0;
+    const recent = sizes.slice(-30);
+    const mean = recent.reduce((sum, s) => sum + s, 0) / recent.length;
+    const variance = recent.reduce((sum, s) => sum + (s - mean) * (s - mean), 0) / recent.length;
+    return Math.sqrt(variance);
+}
+
+/**
+ * Estimates camera-to-eye distance (mm) from the apparent iris size.
+ * The human iris is ~11.7 mm across regardless of age or ethnicity, so distance = f * D / d.
+ * Both eyes are averaged; returns null when the iris is too small to measure.
+ */
+export function estimateIrisDistance(
+    landmarks: Point3D[],
+    width: number,
+    height: number,
+    focalLengthPx: number,
+    irisDiameterMm: number = IRIS_DIAMETER_MM
+): number | null {
+    const dRight = computeIrisDiameter(RIGHT_IRIS_INDICES, landmarks, width, height);
+    const dLeft = computeIrisDiameter(LEFT_IRIS_INDICES, landmarks, width, height);
+    const diameterPx = (dRight + dLeft) / 2;
+    if (diameterPx < 1) return null;
+    return (focalLengthPx * irisDiameterMm) / diameterPx;
+}
+
 /**
  * Helper to scale normalized landmark to pixel space.
  */
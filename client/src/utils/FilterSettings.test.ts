@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_FILTER_SETTINGS, FILTER_PRESETS, loadFilterSettings, saveFilterSettings } from "./FilterSettings";
+
+// localStorage holding `stored` under the settings key
+function storeFilterSettings(stored: string | null) {
+    vi.stubGlobal("localStorage", { getItem: () => stored, setItem: vi.fn() });
+}
+
+describe("loadFilterSettings", () => {
+    beforeEach(() => {
+        vi.spyOn(console, "warn").mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it("reads back saved settings", () => {
+        const setItem = vi.fn();
+        vi.stubGlobal("localStorage", { setItem });
+        saveFilterSettings(FILTER_PRESETS.gaming);
+        storeFilterSettings(setItem.mock.calls[0][1]);
+        expect(loadFilterSettings()).toEqual(FILTER_PRESETS.gaming);
+    });
+
+    it("starts from the defaults", () => {
+        storeFilterSettings(null);
+        expect(loadFilterSettings()).toEqual(DEFAULT_FILTER_SETTINGS);
+    });
+
+    it("fills fields missing from older settings with the defaults", () => {
+        storeFilterSettings(JSON.stringify({ minCutoff: 0.3, beta: 7 }));
+        expect(loadFilterSettings()).toEqual({ ...DEFAULT_FILTER_SETTINGS, minCutoff: 0.3, beta: 7 });
+        expect(console.warn).not.toHaveBeenCalled();
+    });
+
+    it.each([
+        { name: "malformed JSON", stored: "{\"minCutoff\": 0.3," },
+        { name: "a string cutoff", stored: JSON.stringify({ minCutoff: "0.3" }) },
+        // JSON.stringify writes NaN / Infinity as null
+        { name: "a non-finite beta", stored: JSON.stringify({ beta: Infinity }) },
+        { name: "a negative beta", stored: JSON.stringify({ beta: -1 }) },
+        { name: "a zero speed gain", stored: JSON.stringify({ speedGain: 0 }) },
+    ])("falls back to the defaults on $name", ({ stored }) => {
+        storeFilterSettings(stored);
+        expect(loadFilterSettings()).toEqual(DEFAULT_FILTER_SETTINGS);
+        expect(console.warn).toHaveBeenCalledOnce();
+    });
+});
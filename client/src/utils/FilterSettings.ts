@@ -0,0 +1,77 @@
+/**
+ * Filter Settings
+ * User-tunable smoothing of the head orientation (One Euro) and the gaze gain, with named presets.
+ * Stored in localStorage like the display profile.
+ */
+import { z } from "zod";
+import { OneEuroParams } from "./OneEuroFilter";
+
+export interface FilterSettings {
+    minCutoff: number; // Head orientation One Euro cutoff at rest (Hz): lower = smoother, more lag
+    beta: number;      // Cutoff increase per rad/s of head speed: higher = less lag on fast moves
+    speedGain: number; // Geometric cursor gain (GazeController); the calibrated mapping ignores it
+}
+
+// Stored and imported settings are checked against this (z.number() also rejects NaN / Infinity)
+export const filterSettingsSchema = z.object({
+    minCutoff: z.number().positive(),
+    beta: z.number().nonnegative(),
+    speedGain: z.number().positive(),
+});
+
+export type FilterPreset = 'smooth' | 'responsive' | 'gaming';
+
+export const FILTER_PRESET_NAMES: FilterPreset[] = ['smooth', 'responsive', 'gaming'];
+
+export const FILTER_PRESETS: Record<FilterPreset, FilterSettings> = {
+    smooth: { minCutoff: 0.05, beta: 2.0, speedGain: 2.0 },
+    responsive: { minCutoff: 0.1, beta: 5.0, speedGain: 2.0 },
+    gaming: { minCutoff: 0.8, beta: 15.0, speedGain: 3.0 },
+};
+
+export const DEFAULT_FILTER_SETTINGS: FilterSettings = FILTER_PRESETS.responsive;
+
+// Slider ranges
+export const FILTER_LIMITS: Record<keyof FilterSettings, { min: number; max: number; step: number }> = {
+    minCutoff: { min: 0.01, max: 3, step: 0.01 },
+    beta: { min: 0, max: 30, step: 0.1 },
+    speedGain: { min: 0.5, max: 4, step: 0.05 },
+};
+
+// Speed estimate smoothing of the head orientation filter (not user-tunable)
+const ORIENTATION_D_CUTOFF = 1.0;
+
+export function orientationFilterParams(settings: FilterSettings): OneEuroParams {
+    return { minCutoff: settings.minCutoff, beta: settings.beta, dCutoff: ORIENTATION_D_CUTOFF };
+}
+
+/**
+ * Name of the preset these settings equal, or null when they have been tuned by hand.
+ */
+export function matchFilterPreset(settings: FilterSettings): FilterPreset | null {
+    return FILTER_PRESET_NAMES.find(name => {
+        const preset = FILTER_PRESETS[name];
+        return preset.minCutoff === settings.minCutoff && preset.beta === settings.beta && preset.speedGain === settings.speedGain;
+    }) ?? null;
+}
+
+const STORAGE_KEY = "filterSettings";
+
+export function loadFilterSettings(): FilterSettings {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+            // Settings saved before a field existed take its default
+            const result = filterSettingsSchema.safeParse({ ...DEFAULT_FILTER_SETTINGS, ...JSON.parse(stored) });
+            if (result.success) return result.data;
+            console.warn("Ignoring invalid stored filter settings:", z.prettifyError(result.error));
+        }
+    } catch (e) {
+        console.warn("Failed to load filter settings:", e);
+    }
+    return DEFAULT_FILTER_SETTINGS;
+}
+
+export function saveFilterSettings(settings: FilterSettings) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { Quaternion, Vector3 } from "three";
+import { MIN_TUNING_SAMPLES, OrientationSample, TUNING_STILL_MS, TUNING_SWEEP_MS, tuneOneEuro } from "./FilterTuner";
+import { QuaternionOneEuroFilter } from "./QuaternionFilter";
+import { FILTER_PRESETS } from "./FilterSettings";
+
+const DEG = Math.PI / 180;
+const FRAME_MS = 1000 / 30;
+const UP = new Vector3(0, 1, 0);
+
+// Park-Miller, uniform in -0.5..0.5
+function noise(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state * 16807) % 2147483647;
+        return state / 2147483647 - 0.5;
+    };
+}
+
+interface Recording {
+    samples: OrientationSample[];
+    truth: Quaternion[]; // The head pose without tracking noise
+}
+
+// Yaw over `durationMs` plus up to +-jitter of tracking noise about random axes
+function record(durationMs: number, yaw: (t: number) => number, jitter: number, seed: number): Recording {
+    const random = noise(seed);
+    const samples: OrientationSample[] = [];
+    const truth: Quaternion[] = [];
+    for (let t = 0; t < durationMs; t += FRAME_MS) {
+        const pose = new Quaternion().setFromAxisAngle(UP, yaw(t));
+        const axis = new Vector3(random(), random(), random()).normalize();
+        const noisy = pose.clone().multiply(new Quaternion().setFromAxisAngle(axis, 2 * jitter * random()));
+        samples.push({ timestamp: t, orientation: { x: noisy.x, y: noisy.y, z: noisy.z, w: noisy.w } });
+        truth.push(pose);
+    }
+    return { samples, truth };
+}
+
+// RMS angle of the filtered recording from the true pose, after the filter has settled
+function trueError({ samples, truth }: Recording, minCutoff: number, beta: number): number {
+    const filter = new QuaternionOneEuroFilter(minCutoff, beta);
+    let sum = 0;
+    let count = 0;
+    samples.forEach((s, i) => {
+        const out = filter.filter(s.orientation, s.timestamp);
+        if (s.timestamp < 500) return;
+        sum += out.angleTo(truth[i]) ** 2;
+        count++;
+    });
+    return Math.sqrt(sum / count);
+}
+
+describe("tuneOneEuro", () => {
+    const still = record(TUNING_STILL_MS, () => 5 * DEG, 0.5 * DEG, 11);
+    const sweep = record(TUNING_SWEEP_MS, t => 25 * DEG * Math.sin(2 * Math.PI * t / 2000), 0.5 * DEG, 23);
+    const tuned = tuneOneEuro(still.samples, sweep.samples)!;
+
+    it("removes most of the jitter at rest", () => {
+        expect(tuned).not.toBeNull();
+        expect(tuned.rawJitter).toBeGreaterThan(0.2 * DEG);
+        expect(tuned.jitter).toBeLessThan(tuned.rawJitter / 2);
+        // Measured against the true pose, not just the recording's own mean
+        expect(trueError(still, tuned.minCutoff, tuned.beta)).toBeLessThan(trueError(still, 100, 0) / 2);
+    });
+
+    it("keeps up with the sweep", () => {
+        // Heavy smoothing without speed adaptation trails the sweep by degrees
+        const heavy = trueError(sweep, 0.05, 0);
+        expect(heavy).toBeGreaterThan(5 * DEG);
+        expect(trueError(sweep, tuned.minCutoff, tuned.beta)).toBeLessThan(heavy / 5);
+        expect(tuned.beta).toBeGreaterThan(0);
+    });
+
+    it("does at least as well as the presets on the recording", () => {
+        const cost = (minCutoff: number, beta: number) =>
+            30 * trueError(still, minCutoff, beta) ** 2 + trueError(sweep, minCutoff, beta) ** 2;
+        const tunedCost = cost(tuned.minCutoff, tuned.beta);
+        for (const preset of Object.values(FILTER_PRESETS)) {
+            expect(tunedCost).toBeLessThanOrEqual(cost(preset.minCutoff, preset.beta) * 1.05);
+        }
+    });
+
+    it("adapts less to speed when the tracking is noisier", () => {
+        const noisy = tuneOneEuro(
+            record(TUNING_STILL_MS, () => 5 * DEG, 2 * DEG, 11).samples,
+            record(TUNING_SWEEP_MS, t => 25 * DEG * Math.sin(2 * Math.PI * t / 2000), 2 * DEG, 23).samples
+        )!;
+        // Jitter reads as head speed: a high beta would open the filter on noise
+        expect(noisy.beta).toBeLessThan(tuned.beta);
+        expect(noisy.jitter).toBeLessThan(noisy.rawJitter / 3);
+    });
+
+    it("needs MIN_TUNING_SAMPLES in each phase", () => {
+        expect(tuneOneEuro(still.samples.slice(0, MIN_TUNING_SAMPLES - 1), sweep.samples)).toBeNull();
+        expect(tuneOneEuro(still.samples, sweep.samples.slice(0, MIN_TUNING_SAMPLES - 1))).toBeNull();
+    });
+});
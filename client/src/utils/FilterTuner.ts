@@ -0,0 +1,149 @@
+/**
+ * One Euro Auto-Tuning
+ * Picks minCutoff / beta for the head orientation filter from two short recordings of the raw
+ * head pose: holding still (what is left after filtering is jitter) and sweeping the head
+ * left-right (how far the output trails a lightly filtered, zero-lag reference is lag).
+ * The recordings are replayed through QuaternionOneEuroFilter for every candidate.
+ */
+import { Quaternion } from "three";
+import { QuaternionLike, QuaternionOneEuroFilter } from "./QuaternionFilter";
+import { FILTER_LIMITS } from "./FilterSettings";
+
+export interface OrientationSample {
+    timestamp: number;
+    orientation: QuaternionLike;
+}
+
+export interface FilterTuningResult {
+    minCutoff: number;
+    beta: number;
+    jitter: number;    // RMS deviation from the mean while still (rad), with the chosen parameters
+    lag: number;       // RMS error against the reference during the sweep (rad), with the chosen parameters
+    rawJitter: number; // Unfiltered RMS deviation while still (rad)
+}
+
+// Routine timing
+export const TUNING_STILL_MS = 4000;
+export const TUNING_SWEEP_MS = 6000;
+
+// Fewer usable samples than this per phase (face lost, low frame rate) gives no result
+export const MIN_TUNING_SAMPLES = 30;
+
+// Jitter at rest is far more visible than the same error while moving
+const JITTER_WEIGHT = 30;
+
+// The first samples of each phase only settle the filter
+const WARMUP_MS = 500;
+
+// Reference for the lag measurement: centred moving average over +-this many samples (no phase lag)
+const REFERENCE_HALF_WIDTH = 2;
+
+const GRID_SIZE = 14;
+const REFINE_STEPS = 3;
+
+/**
+ * Grid search (log-spaced), then local refinement around the best candidate.
+ * Returns null if either phase has too few samples.
+ */
+export function tuneOneEuro(still: OrientationSample[], sweep: OrientationSample[]): FilterTuningResult | null {
+    if (still.length < MIN_TUNING_SAMPLES || sweep.length < MIN_TUNING_SAMPLES) return null;
+
+    const stillCentre = averageOrientation(still.map(s => toQuaternion(s.orientation)));
+    const reference = centredAverage(sweep.map(s => toQuaternion(s.orientation)), REFERENCE_HALF_WIDTH);
+
+    const evaluate = (minCutoff: number, beta: number) => {
+        const jitter = rmsDeviation(runFilter(still, minCutoff, beta), still, () => stillCentre);
+        const lag = rmsDeviation(runFilter(sweep, minCutoff, beta), sweep, i => reference[i]);
+        return { minCutoff, beta, jitter, lag, cost: JITTER_WEIGHT * jitter * jitter + lag * lag };
+    };
+
+    const cutoffLimits = FILTER_LIMITS.minCutoff;
+    const betaLimits = FILTER_LIMITS.beta;
+
+    let best = evaluate(cutoffLimits.min, betaLimits.min);
+    const consider = (minCutoff: number, beta: number) => {
+        const candidate = evaluate(
+            roundTo(clamp(minCutoff, cutoffLimits.min, cutoffLimits.max), cutoffLimits.step),
+            roundTo(clamp(beta, betaLimits.min, betaLimits.max), betaLimits.step)
+        );
+        if (candidate.cost < best.cost) best = candidate;
+    };
+
+    // beta = 0 is a plain low-pass; the rest of the beta axis is log-spaced from one step up
+    const cutoffs = logSpace(cutoffLimits.min, cutoffLimits.max, GRID_SIZE);
+    const betas = [0, ...logSpace(betaLimits.step, betaLimits.max, GRID_SIZE - 1)];
+    cutoffs.forEach(c => betas.forEach(b => consider(c, b)));
+
+    // Refine on a shrinking multiplicative neighbourhood
+    let spread = Math.pow(cutoffLimits.max / cutoffLimits.min, 1 / (GRID_SIZE - 1));
+    for (let step = 0; step < REFINE_STEPS; step++) {
+        const centre = best;
+        for (const fc of [1 / spread, 1, spread]) {
+            for (const fb of [1 / spread, 1, spread]) {
+                consider(centre.minCutoff * fc, Math.max(centre.beta, betaLimits.step) * fb);
+            }
+        }
+        spread = Math.sqrt(spread);
+    }
+
+    return {
+        minCutoff: best.minCutoff,
+        beta: best.beta,
+        jitter: best.jitter,
+        lag: best.lag,
+        rawJitter: rmsDeviation(still.map(s => toQuaternion(s.orientation)), still, () => stillCentre),
+    };
+}
+
+function runFilter(samples: OrientationSample[], minCutoff: number, beta: number): Quaternion[] {
+    const filter = new QuaternionOneEuroFilter(minCutoff, beta);
+    return samples.map(s => filter.filter(s.orientation, s.timestamp));
+}
+
+/**
+ * RMS angle between `values` and `target(i)`, skipping the warm-up at the start of the phase.
+ */
+function rmsDeviation(values: Quaternion[], samples: OrientationSample[], target: (i: number) => Quaternion): number {
+    const start = samples[0].timestamp + WARMUP_MS;
+    let sum = 0;
+    let count = 0;
+    values.forEach((q, i) => {
+        if (samples[i].timestamp < start) return;
+        const angle = q.angleTo(target(i));
+        sum += angle * angle;
+        count++;
+    });
+    return count > 0 ? Math.sqrt(sum / count) : 0;
+}
+
+// Normalised sum on one hemisphere; accurate for the small spreads measured here
+function averageOrientation(qs: Quaternion[]): Quaternion {
+    const sum = new Quaternion(0, 0, 0, 0);
+    const first = qs[0];
+    qs.forEach(q => {
+        const sign = q.dot(first) < 0 ? -1 : 1;
+        sum.set(sum.x + sign * q.x, sum.y + sign * q.y, sum.z + sign * q.z, sum.w + sign * q.w);
+    });
+    return sum.normalize();
+}
+
+function centredAverage(qs: Quaternion[], halfWidth: number): Quaternion[] {
+    return qs.map((_, i) => averageOrientation(qs.slice(Math.max(0, i - halfWidth), i + halfWidth + 1)));
+}
+
+function toQuaternion(q: QuaternionLike): Quaternion {
+    return new Quaternion(q.x, q.y, q.z, q.w);
+}
+
+function logSpace(min: number, max: number, count: number): number[] {
+    const ratio = Math.pow(max / min, 1 / (count - 1));
+    return Array.from({ length: count }, (_, i) => min * Math.pow(ratio, i));
+}
+
+function clamp(v: number, min: number, max: number): number {
+    return Math.max(min, Math.min(max, v));
+}
+
+function roundTo(v: number, step: number): number {
+    return Number((Math.round(v / step) * step).toFixed(4));
+}
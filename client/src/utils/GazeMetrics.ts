@@ -0,0 +1,205 @@
+/**
+ * Gaze Metrics
+ * The reference tool's rolling graph metrics (hint.text, GRAPH_TIME_WINDOW = 30 s), computed from
+ * TrackingResults of the live tracker or from the RTS-smoothed session of a recording (no filter lag):
+ * - gaze angle: image-plane direction of the irises from the eye centres (deg, circular mean of both eyes)
+ * - velocity: iris speed (px/s, filtered offsets, both eyes averaged)
+ * - blink rate: blinks/min (BlinkAnalyzer)
+ * - movement frequency: eye movement onsets per second (speed rising above the pursuit band)
+ * - saccade frequency: saccades/min (EyeMovementAnalyzer, I-VT)
+ */
+import { fitLine } from "./math";
+import { BlinkAnalyzer } from "./BlinkAnalyzer";
+import { DEFAULT_EYE_MOVEMENT_THRESHOLDS, EyeMovementAnalyzer } from "./EyeMovementAnalyzer";
+import type { BlinkState, TrackingResult } from "./HeadTrackingPipeline";
+import type { Point2D } from "./FaceUtils";
+import type { SmoothedSession } from "./SessionAnalysis";
+
+export interface MetricsSample {
+    time: number;                     // s since the first tracked frame
+    gazeAngle: number | null;         // deg; null while the eyes are closed
+    velocity: number | null;          // px/s
+    blinkRate: number | null;         // blinks/min; null until enough tracking
+    movementFrequency: number;        // onsets/s
+    saccadeFrequency: number | null;  // saccades/min; null until enough tracking
+}
+
+// What the metrics need of one frame with a detected face
+export interface MetricsFrame {
+    timestamp: number;
+    blink: BlinkState;
+    irisOffsets: { right: Point2D; left: Point2D }; // px
+    gazeDirection: { right: number; left: number }; // deg
+}
+
+export type MetricKey = Exclude<keyof MetricsSample, 'time'>;
+
+export const METRIC_KEYS: MetricKey[] = ['gazeAngle', 'velocity', 'blinkRate', 'movementFrequency', 'saccadeFrequency'];
+
+export interface TrendLine {
+    slope: number;  // Metric units per second
+    start: { time: number; value: number };
+    end: { time: number; value: number };
+}
+
+// Rolling window of the live charts
+export const METRICS_WINDOW_MS = 30000;
+
+// One chart point per interval (a 30 s window is then 300 points, not 900)
+const SAMPLE_INTERVAL_MS = 100;
+// Frames further apart than this do not give a velocity
+const MAX_VELOCITY_GAP_MS = 100;
+// Onsets counted over this window for the movement frequency (the reference uses 1 s)
+const MOVEMENT_WINDOW_MS = 1000;
+// Saccades counted over this window, reported per minute
+const SACCADE_WINDOW_MS = 60000;
+// Saccade frequency is not reported from less tracking than this
+const MIN_SACCADE_SPAN_MS = 10000;
+
+export class GazeMetrics {
+    private series: MetricsSample[] = [];
+    private blinks = new BlinkAnalyzer();
+    private movements = new EyeMovementAnalyzer('ivt');
+    private saccadeTimes: number[] = [];
+    private movementOnsets: number[] = [];
+    private firstTimestamp: number | null = null;
+    private lastTimestamp: number | null = null;
+    private lastSampleAt = -Infinity;
+    private previous: { timestamp: number; x: number; y: number } | null = null;
+    private velocity: number | null = null;
+    private inMovement = false;
+
+    // Pass Infinity to keep a whole recording
+    constructor(private windowMs: number = METRICS_WINDOW_MS) { }
+
+    // Chart points in the window, oldest first
+    public get samples(): MetricsSample[] {
+        return this.series;
+    }
+
+    public push(result: TrackingResult) {
+        if (result.trackingState !== 'tracking') return;
+        this.pushFrame({
+            timestamp: result.timestamp,
+            blink: result.blink,
+            irisOffsets: result.irisOffsets,
+            gazeDirection: { right: result.binocular.right.direction, left: result.binocular.left.direction },
+        });
+    }
+
+    public pushFrame(frame: MetricsFrame) {
+        const { timestamp, blink } = frame;
+        // Time going backwards is a new session (recording restarted)
+        if (this.lastTimestamp === null || timestamp < this.lastTimestamp) this.reset(timestamp);
+        this.lastTimestamp = timestamp;
+
+        this.blinks.push(timestamp, blink);
+
+        if (blink.isBlinking) {
+            this.previous = null;
+            this.velocity = null;
+        } else {
+            this.updateMovement(frame);
+        }
+
+        if (timestamp - this.lastSampleAt < SAMPLE_INTERVAL_MS) return;
+        this.lastSampleAt = timestamp;
+
+        const { left, right } = frame.gazeDirection;
+        this.series.push({
+            time: (timestamp - this.firstTimestamp!) / 1000,
+            gazeAngle: blink.isBlinking ? null : circularMean(left, right),
+            velocity: this.velocity,
+            blinkRate: this.blinks.stats(timestamp).ratePerMinute,
+            movementFrequency: this.movementOnsets.filter(t => t > timestamp - MOVEMENT_WINDOW_MS).length / (MOVEMENT_WINDOW_MS / 1000),
+            saccadeFrequency: this.saccadeFrequency(timestamp),
+        });
+
+        const from = (timestamp - this.firstTimestamp!) / 1000 - this.windowMs / 1000;
+        while (this.series.length > 0 && this.series[0].time < from) this.series.shift();
+    }
+
+    public reset(firstTimestamp: number | null = null) {
+        this.series = [];
+        this.blinks.reset();
+        this.movements.reset();
+        this.saccadeTimes = [];
+        this.movementOnsets = [];
+        this.firstTimestamp = firstTimestamp;
+        this.lastTimestamp = null;
+        this.lastSampleAt = -Infinity;
+        this.previous = null;
+        this.velocity = null;
+        this.inMovement = false;
+    }
+
+    private updateMovement(frame: MetricsFrame) {
+        const { timestamp } = frame;
+        const { right, left } = frame.irisOffsets;
+        const current = { timestamp, x: (right.x + left.x) / 2, y: (right.y + left.y) / 2 };
+        const previous = this.previous;
+        this.previous = current;
+
+        const dt = previous ? timestamp - previous.timestamp : Infinity;
+        this.velocity = dt > 0 && dt <= MAX_VELOCITY_GAP_MS
+            ? Math.hypot(current.x - previous!.x, current.y - previous!.y) / (dt / 1000)
+            : null;
+
+        // Movement onset: speed rising out of the fixation / drift range
+        const moving = this.velocity !== null && this.velocity > DEFAULT_EYE_MOVEMENT_THRESHOLDS.pursuitMinVelocity;
+        if (moving && !this.inMovement) this.movementOnsets.push(timestamp);
+        this.inMovement = moving;
+
+        this.movements.push(current)
+            .filter(e => e.type === 'saccade')
+            .forEach(e => this.saccadeTimes.push(e.end));
+
+        this.movementOnsets = this.movementOnsets.filter(t => t > timestamp - MOVEMENT_WINDOW_MS);
+        this.saccadeTimes = this.saccadeTimes.filter(t => t > timestamp - SACCADE_WINDOW_MS);
+    }
+
+    private saccadeFrequency(now: number): number | null {
+        const span = Math.min(SACCADE_WINDOW_MS, now - this.firstTimestamp!);
+        if (span < MIN_SACCADE_SPAN_MS) return null;
+        return this.saccadeTimes.length / (span / 60000);
+    }
+}
+
+/**
+ * Metrics of a whole smoothed session (smoothRecording). Frames without a detected face are
+ * skipped like untracked live frames.
+ */
+export function computeSessionMetrics(session: SmoothedSession): MetricsSample[] {
+    const metrics = new GazeMetrics(Infinity);
+    for (const frame of session.frames) {
+        if (!frame || !frame.blink || !frame.gazeDirection) continue;
+        metrics.pushFrame({
+            timestamp: frame.timestamp,
+            blink: frame.blink,
+            irisOffsets: { right: frame.irisRight, left: frame.irisLeft },
+            gazeDirection: frame.gazeDirection,
+        });
+    }
+    return metrics.samples;
+}
+
+/**
+ * Least-squares trend of one metric over the given samples, as a drawable segment.
+ */
+export function metricTrend(samples: MetricsSample[], key: MetricKey): TrendLine | null {
+    const points = samples.filter(s => s[key] !== null);
+    const line = fitLine(points.map(s => s.time), points.map(s => s[key] as number));
+    if (!line) return null;
+    const t0 = points[0].time;
+    const t1 = points[points.length - 1].time;
+    return {
+        slope: line.slope,
+        start: { time: t0, value: line.intercept + line.slope * t0 },
+        end: { time: t1, value: line.intercept + line.slope * t1 },
+    };
+}
+
+function circularMean(a: number, b: number): number {
+    const rad = Math.PI / 180;
+    return Math.atan2(Math.sin(a * rad) + Math.sin(b * rad), Math.cos(a * rad) + Math.cos(b * rad)) / rad;
+}
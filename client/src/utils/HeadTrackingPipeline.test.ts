@@ -0,0 +1,345 @@
+import { describe, expect, it } from "vitest";
+import {
+    BLINK_EAR_THRESHOLD,
+    BlinkState,
+    calculateEAR,
+    computeBlink,
+    computeIrisOffsets,
+    computeIrisSize,
+    DEFAULT_EYE_GAIN,
+    HeadTrackingPipeline,
+    irisMeasurementNoiseScale,
+    isIrisVisible,
+    MAX_POSE_REPROJECTION_ERROR,
+    PipelineConfig,
+    SUBJECT_LEFT_EYE,
+    SUBJECT_RIGHT_EYE,
+    toPixelSpace,
+    TrackingResult,
+} from "./HeadTrackingPipeline";
+import { DEFAULT_SYNTHETIC_MOTION, generateSyntheticLandmarks, SyntheticMotion } from "./SyntheticLandmarkSource";
+import { LandmarkFrame, VIDEO_HEIGHT, VIDEO_WIDTH } from "./LandmarkSource";
+import { computeEyeScale, computeIrisDiameter, LEFT_IRIS_INDICES, Point3D, RIGHT_IRIS_INDICES } from "./FaceUtils";
+import { EyeThresholds } from "./EarBaseline";
+
+const FRAME_MS = 1000 / 30;
+
+// A head held still at (yaw, pitch): the generator's sweep stopped at its peak
+function stillPose(yaw: number, pitch: number, motion: Partial<SyntheticMotion> = {}): LandmarkFrame[] {
+    const still = { ...DEFAULT_SYNTHETIC_MOTION, swayMm: 0, gazeAmplitude: 0, blinkInterval: 0, ...motion };
+    // Quarter period: the yaw sweep is at sin = 1, pitch (0.77x the phase) at sin(0.77 pi / 2)
+    const landmarks = generateSyntheticLandmarks(still.period * 250, { ...still, yawAmplitude: yaw, pitchAmplitude: pitch / Math.sin(0.77 * Math.PI / 2) });
+    return Array.from({ length: 60 }, (_, i) => ({ landmarks, timestamp: i * FRAME_MS, width: VIDEO_WIDTH, height: VIDEO_HEIGHT }));
+}
+
+function syntheticSession(frameCount: number, motion: Partial<SyntheticMotion> = {}): LandmarkFrame[] {
+    return Array.from({ length: frameCount }, (_, i) => ({
+        landmarks: generateSyntheticLandmarks(i * FRAME_MS, { ...DEFAULT_SYNTHETIC_MOTION, ...motion }),
+        timestamp: i * FRAME_MS,
+        width: VIDEO_WIDTH,
+        height: VIDEO_HEIGHT,
+    }));
+}
+
+// processedAt is the wall clock, the only field that may differ between runs
+function withoutWallClock(result: TrackingResult | null) {
+    if (!result) return null;
+    const { processedAt, ...rest } = result;
+    return rest;
+}
+
+describe("HeadTrackingPipeline", () => {
+    it.each([
+        { yaw: 0, pitch: 0 },
+        { yaw: 0.2, pitch: 0 },
+        { yaw: -0.2, pitch: 0 },
+        { yaw: 0, pitch: 0.1 },
+        { yaw: 0.15, pitch: -0.08 },
+    ])("recovers a still head at yaw $yaw, pitch $pitch", ({ yaw, pitch }) => {
+        const pipeline = new HeadTrackingPipeline();
+        let result: TrackingResult | null = null;
+        for (const frame of stillPose(yaw, pitch)) result = pipeline.process(frame);
+
+        expect(result?.trackingState).toBe('tracking');
+        // Model pitch is positive upwards; the pipeline reports MediaPipe's down-positive pitch
+        expect(result!.rotation.yaw).toBeCloseTo(yaw, 2);
+        expect(result!.rotation.pitch).toBeCloseTo(-pitch, 2);
+        // The generator turns yaw then pitch, not in the pipeline's Euler order, so a combined pose has a little roll
+        expect(result!.rotation.roll).toBeCloseTo(0, 1);
+        // Head mode: gaze is the head angle
+        expect(result!.gaze.yaw).toBeCloseTo(result!.rotation.yaw, 6);
+        expect(result!.gaze.pitch).toBeCloseTo(result!.rotation.pitch, 6);
+    });
+
+    it("estimates the viewing distance from the iris", () => {
+        const pipeline = new HeadTrackingPipeline();
+        let result: TrackingResult | null = null;
+        for (const frame of stillPose(0, 0, { distanceMm: 600 })) result = pipeline.process(frame);
+
+        expect(result!.distanceMm).toBeGreaterThan(540);
+        expect(result!.distanceMm).toBeLessThan(660);
+    });
+
+    it("adds the eye rotation to the head angles with the configured eye gain", () => {
+        // Eyes turned to one side while the head stays still
+        const frames = stillPose(0, 0, { gazeAmplitude: DEFAULT_SYNTHETIC_MOTION.gazeAmplitude });
+        const gaze = (config: Partial<PipelineConfig>) => {
+            const pipeline = new HeadTrackingPipeline();
+            pipeline.configure(config);
+            let result: TrackingResult | null = null;
+            for (const frame of frames) result = pipeline.process(frame);
+            return result!.gaze;
+        };
+        // The eye component: iris mode minus the head angles alone
+        const head = gaze({ trackingMode: 'head' });
+        const eye = (config: Partial<PipelineConfig>) => {
+            const fused = gaze({ trackingMode: 'iris', ...config });
+            return { yaw: fused.yaw - head.yaw, pitch: fused.pitch - head.pitch };
+        };
+        const byDefault = eye({});
+        const doubled = eye({ eyeGain: 2 * DEFAULT_EYE_GAIN });
+
+        expect(Math.abs(byDefault.yaw)).toBeGreaterThan(0.01);
+        expect(doubled.yaw).toBeCloseTo(2 * byDefault.yaw, 6);
+        expect(doubled.pitch).toBeCloseTo(2 * byDefault.pitch, 6);
+        expect(eye({ eyeGain: 0 })).toEqual({ yaw: 0, pitch: 0 });
+    });
+
+    it("produces identical results for identical input", () => {
+        const frames = syntheticSession(150);
+        const run = () => {
+            const pipeline = new HeadTrackingPipeline();
+            return frames.map(frame => withoutWallClock(pipeline.process(frame)));
+        };
+        expect(run()).toEqual(run());
+    });
+
+    it("starts over after reset", () => {
+        const frames = syntheticSession(90);
+        const pipeline = new HeadTrackingPipeline();
+        const first = frames.map(frame => withoutWallClock(pipeline.process(frame)));
+        pipeline.reset();
+        const second = frames.map(frame => withoutWallClock(pipeline.process(frame)));
+        expect(second).toEqual(first);
+    });
+
+    it("reports the synthetic blinks", () => {
+        // Blinks every 1 s lasting 150 ms: about 5 closed frames per second
+        const pipeline = new HeadTrackingPipeline();
+        const results = syntheticSession(150, { blinkInterval: 1000, blinkDuration: 150 }).map(frame => pipeline.process(frame));
+        const blinking = results.filter(r => r?.blink.isBlinking).length;
+
+        expect(blinking).toBeGreaterThanOrEqual(15);
+        expect(blinking).toBeLessThanOrEqual(30);
+    });
+
+    it("loses the face when frames have no landmarks", () => {
+        const pipeline = new HeadTrackingPipeline();
+        const frames = stillPose(0, 0);
+        frames.forEach(frame => pipeline.process(frame));
+
+        const last = frames[frames.length - 1].timestamp;
+        let result: TrackingResult | null = null;
+        for (let i = 1; i <= 60; i++) {
+            result = pipeline.process({ landmarks: null, timestamp: last + i * FRAME_MS, width: VIDEO_WIDTH, height: VIDEO_HEIGHT });
+        }
+        expect(result?.trackingState).toBe('lost');
+    });
+});
+
+describe("computeBlink", () => {
+    const open = generateSyntheticLandmarks(500, { ...DEFAULT_SYNTHETIC_MOTION, blinkInterval: 0 });
+    // Mid-blink: the generator closes both lids for the first blinkDuration ms of each interval
+    const closed = generateSyntheticLandmarks(50, { ...DEFAULT_SYNTHETIC_MOTION, blinkInterval: 4000, blinkDuration: 150 });
+
+    it("sees open eyes as open", () => {
+        const blink = computeBlink(open, null, VIDEO_WIDTH, VIDEO_HEIGHT);
+        expect(blink.isBlinking).toBe(false);
+        expect(blink.leftClosed).toBe(false);
+        expect(blink.rightClosed).toBe(false);
+        expect(blink.leftIrisVisible).toBe(true);
+        expect(blink.rightIrisVisible).toBe(true);
+    });
+
+    it("sees closed lids as a blink", () => {
+        const blink = computeBlink(closed, null, VIDEO_WIDTH, VIDEO_HEIGHT);
+        expect(blink.isBlinking).toBe(true);
+        expect(blink.leftWink).toBe(false);
+        expect(blink.rightWink).toBe(false);
+        expect(blink.blinkStrength).toBeLessThan(computeBlink(open, null, VIDEO_WIDTH, VIDEO_HEIGHT).blinkStrength);
+    });
+
+    it("is a pure function of its input", () => {
+        const previous = computeBlink(closed, null, VIDEO_WIDTH, VIDEO_HEIGHT);
+        expect(computeBlink(open, previous, VIDEO_WIDTH, VIDEO_HEIGHT)).toEqual(computeBlink(open, previous, VIDEO_WIDTH, VIDEO_HEIGHT));
+    });
+});
+
+// Moves one eye's lids towards the line between its corners (0 shuts it)
+function narrowEye(landmarks: Point3D[], eye: number[], factor: number): Point3D[] {
+    const narrowed = landmarks.map(p => ({ ...p }));
+    const middle = (landmarks[eye[0]].y + landmarks[eye[3]].y) / 2;
+    for (const lid of [eye[1], eye[2], eye[4], eye[5]]) narrowed[lid].y = middle + (landmarks[lid].y - middle) * factor;
+    return narrowed;
+}
+
+describe("computeBlink winks", () => {
+    const open = generateSyntheticLandmarks(500, { ...DEFAULT_SYNTHETIC_MOTION, blinkInterval: 0 });
+    const eyes = { left: SUBJECT_LEFT_EYE, right: SUBJECT_RIGHT_EYE };
+    // Two frames in a row, the second seeing the first
+    const twice = (landmarks: Point3D[]) => {
+        const first = computeBlink(landmarks, null, VIDEO_WIDTH, VIDEO_HEIGHT);
+        return [first, computeBlink(landmarks, first, VIDEO_WIDTH, VIDEO_HEIGHT)];
+    };
+
+    it.each([
+        { closed: 'left' as const, open: 'right' as const },
+        { closed: 'right' as const, open: 'left' as const },
+    ])("detects a $closed wink from the second closed frame", ({ closed, open: other }) => {
+        const [first, second] = twice(narrowEye(open, eyes[closed], 0.05));
+        const wink = (blink: BlinkState, eye: 'left' | 'right') => eye === 'left' ? blink.leftWink : blink.rightWink;
+        const isClosed = (blink: BlinkState, eye: 'left' | 'right') => eye === 'left' ? blink.leftClosed : blink.rightClosed;
+
+        expect(isClosed(first, closed)).toBe(true);
+        expect(isClosed(first, other)).toBe(false);
+        // A single closed frame may be the start of a blink
+        expect(wink(first, closed)).toBe(false);
+        expect(wink(second, closed)).toBe(true);
+        expect(wink(second, other)).toBe(false);
+        expect(second.isBlinking).toBe(false);
+    });
+
+    it.each([
+        { name: "both eyes shut", left: 0.05, right: 0.05, leftWink: false, rightWink: false },
+        { name: "the other eye half closed", left: 0.05, right: 0.55, leftWink: false, rightWink: false },
+        { name: "the other eye narrowed but open", left: 0.05, right: 0.8, leftWink: true, rightWink: false },
+        { name: "a squint", left: 0.8, right: 0.8, leftWink: false, rightWink: false },
+    ])("tells winks from $name", ({ left, right, leftWink, rightWink }) => {
+        const [, blink] = twice(narrowEye(narrowEye(open, SUBJECT_LEFT_EYE, left), SUBJECT_RIGHT_EYE, right));
+        expect(blink.leftWink).toBe(leftWink);
+        expect(blink.rightWink).toBe(rightWink);
+    });
+
+    it.each([
+        { wasClosed: false, closed: false },
+        { wasClosed: true, closed: true },
+    ])("keeps an eye between the thresholds as it was (closed before: $wasClosed)", ({ wasClosed, closed }) => {
+        // Thresholds either side of this eye's open EAR
+        const ear = calculateEAR(open, SUBJECT_LEFT_EYE);
+        const band = { close: ear - 0.01, reopen: ear + 0.01 };
+        const thresholds: EyeThresholds = { left: band, right: band };
+        const previous = { ...computeBlink(open, null, VIDEO_WIDTH, VIDEO_HEIGHT), leftClosed: wasClosed, rightClosed: wasClosed };
+
+        const blink = computeBlink(open, previous, VIDEO_WIDTH, VIDEO_HEIGHT, thresholds);
+        expect(blink.leftClosed).toBe(closed);
+        expect(blink.rightClosed).toBe(closed);
+    });
+});
+
+describe("computeIrisOffsets", () => {
+    const still = { ...DEFAULT_SYNTHETIC_MOTION, yawAmplitude: 0, pitchAmplitude: 0, swayMm: 0, blinkInterval: 0 };
+    // The eyes sweep with sin(1.9 phase); a quarter of its period looks furthest to one side
+    const eyePeriodMs = (still.period * 1000) / 1.9;
+    const offsets = (t: number) => computeIrisOffsets(toPixelSpace(generateSyntheticLandmarks(t, still), VIDEO_WIDTH, VIDEO_HEIGHT));
+
+    it("measures the iris from the eye corner in pixels", () => {
+        const { right, left } = offsets(0);
+        // Both irises sit inside the eye, a few millimetres from the corner
+        expect(right.x).toBeGreaterThan(5);
+        expect(right.x).toBeLessThan(25);
+        expect(left.x).toBeGreaterThan(5);
+        expect(left.x).toBeLessThan(25);
+    });
+
+    it("moves both irises the same way when the eyes turn", () => {
+        const centre = offsets(0);
+        const turned = offsets(eyePeriodMs / 4);
+        const shiftRight = turned.right.x - centre.right.x;
+        const shiftLeft = turned.left.x - centre.left.x;
+
+        expect(Math.abs(shiftRight)).toBeGreaterThan(1);
+        expect(Math.sign(shiftRight)).toBe(Math.sign(shiftLeft));
+        expect(shiftRight).toBeCloseTo(shiftLeft, 0);
+    });
+});
+
+// Scales both iris rings about their centres to the given pixel diameter
+function withIrisDiameter(landmarks: Point3D[], diameterPx: number): Point3D[] {
+    const scaled = landmarks.map(p => ({ ...p }));
+    for (const iris of [RIGHT_IRIS_INDICES, LEFT_IRIS_INDICES]) {
+        const centre = landmarks[iris[0]];
+        const factor = diameterPx / computeIrisDiameter(iris, landmarks, VIDEO_WIDTH, VIDEO_HEIGHT);
+        for (const i of iris.slice(1)) {
+            scaled[i].x = centre.x + (landmarks[i].x - centre.x) * factor;
+            scaled[i].y = centre.y + (landmarks[i].y - centre.y) * factor;
+        }
+    }
+    return scaled;
+}
+
+describe("iris size and depth", () => {
+    const open = generateSyntheticLandmarks(500, { ...DEFAULT_SYNTHETIC_MOTION, blinkInterval: 0 });
+
+    it("measures both irises in pixels and relative to the eye scale", () => {
+        const landmarks = withIrisDiameter(open, 24);
+        const size = computeIrisSize(landmarks, VIDEO_WIDTH, VIDEO_HEIGHT);
+        const eyeScalePx = computeEyeScale(landmarks, VIDEO_WIDTH, VIDEO_HEIGHT);
+
+        expect(size.right).toBeGreaterThanOrEqual(24 - 1e-6);
+        expect(size.left).toBeGreaterThanOrEqual(24 - 1e-6);
+        expect(size.rightNormalized).toBeCloseTo(size.right / eyeScalePx, 9);
+        expect(size.leftNormalized).toBeCloseTo(size.left / eyeScalePx, 9);
+        expect(size.held).toBe(false);
+        // The size follows the ring
+        expect(computeIrisSize(withIrisDiameter(open, 48), VIDEO_WIDTH, VIDEO_HEIGHT).right).toBeCloseTo(2 * size.right, 6);
+    });
+
+    it.each([
+        { name: "shut lids", landmarks: narrowEye(narrowEye(open, SUBJECT_LEFT_EYE, 0.05), SUBJECT_RIGHT_EYE, 0.05) },
+        { name: "a collapsed iris ring", landmarks: withIrisDiameter(open, 0) },
+        { name: "missing iris landmarks", landmarks: open.slice(0, RIGHT_IRIS_INDICES[0]) },
+    ])("sees no iris behind $name", ({ landmarks }) => {
+        expect(isIrisVisible(landmarks, SUBJECT_RIGHT_EYE, RIGHT_IRIS_INDICES, VIDEO_WIDTH, VIDEO_HEIGHT)).toBe(false);
+        expect(isIrisVisible(landmarks, SUBJECT_LEFT_EYE, LEFT_IRIS_INDICES, VIDEO_WIDTH, VIDEO_HEIGHT)).toBe(false);
+    });
+
+    it("holds the iris size and distance while the iris is hidden", () => {
+        const pipeline = new HeadTrackingPipeline();
+        const results = syntheticSession(150, { blinkInterval: 1000, blinkDuration: 150 }).map(frame => pipeline.process(frame));
+        let held = 0;
+        results.forEach((result, i) => {
+            if (!result?.blink.isBlinking || !results[i - 1]) return;
+            const { held: _, ...previousSize } = results[i - 1]!.irisSize;
+            expect(result.irisSize).toEqual({ ...previousSize, held: true });
+            expect(result.distanceMm).toBe(results[i - 1]!.distanceMm);
+            held++;
+        });
+        expect(held).toBeGreaterThan(0);
+    });
+});
+
+describe("irisMeasurementNoiseScale", () => {
+    const OPEN_EAR = 0.3;
+    const REFERENCE_EYE_SCALE_PX = 55;
+
+    it.each([
+        { name: "an open eye at the reference size", ear: OPEN_EAR, eyeScalePx: REFERENCE_EYE_SCALE_PX, error: 0, scale: 1 },
+        { name: "a wide open eye", ear: 0.4, eyeScalePx: REFERENCE_EYE_SCALE_PX, error: 0, scale: 1 },
+        { name: "a small face (resolution bound)", ear: OPEN_EAR, eyeScalePx: 20, error: 0, scale: 1 },
+        { name: "a face twice the reference size", ear: OPEN_EAR, eyeScalePx: 2 * REFERENCE_EYE_SCALE_PX, error: 0, scale: 4 },
+        { name: "a half-closed eye", ear: OPEN_EAR / 1.5, eyeScalePx: REFERENCE_EYE_SCALE_PX, error: 0, scale: 2.25 },
+        { name: "a fit at the reprojection limit", ear: OPEN_EAR, eyeScalePx: REFERENCE_EYE_SCALE_PX, error: MAX_POSE_REPROJECTION_ERROR, scale: 2 },
+    ])("scales the noise of $name by $scale", ({ ear, eyeScalePx, error, scale }) => {
+        expect(irisMeasurementNoiseScale(ear, eyeScalePx, error)).toBeCloseTo(scale, 9);
+    });
+
+    it.each([0.1, 0.01, 0])("falls back to the blink threshold for an EAR of %s", ear => {
+        const atThreshold = irisMeasurementNoiseScale(BLINK_EAR_THRESHOLD, REFERENCE_EYE_SCALE_PX, 0);
+        expect(atThreshold).toBeCloseTo((OPEN_EAR / BLINK_EAR_THRESHOLD) ** 2, 9);
+        expect(irisMeasurementNoiseScale(ear, REFERENCE_EYE_SCALE_PX, 0)).toBe(atThreshold);
+    });
+
+    it("multiplies the factors", () => {
+        expect(irisMeasurementNoiseScale(OPEN_EAR / 1.5, 2 * REFERENCE_EYE_SCALE_PX, MAX_POSE_REPROJECTION_ERROR)).toBeCloseTo(2.25 * 4 * 2, 9);
+    });
+});
@@ -0,0 +1,788 @@
+/**
+ * Head/eye tracking math, independent of where landmarks come from.
+ * The pure functions take a landmark frame and return one measurement each;
+ * HeadTrackingPipeline chains them with the filters and the recenter offset.
+ */
+import { Euler, Quaternion, Vector3 } from "three";
+import { OneEuroFilter } from "./OneEuroFilter";
+import { QuaternionLike, QuaternionOneEuroFilter } from "./QuaternionFilter";
+import { GateOptions, MotionFilterOptions, MotionKalmanFilter, MotionModel } from "./KalmanFilter";
+import {
+    computeEyeScale,
+    calculateIrisSize,
+    computeIrisDiameter,
+    estimateIrisDistance,
+    focalLengthFromFov,
+    LEFT_IRIS_INDICES,
+    Point2D,
+    Point3D,
+    RIGHT_IRIS_INDICES,
+} from "./FaceUtils";
+import { LANDMARK_COUNT } from "./FaceModel";
+import { clockNow, LandmarkFrame } from "./LandmarkSource";
+import { cameraToScreenMm, DEFAULT_DISPLAY_PROFILE, DisplayProfile, getCameraFovRadians, imagePointToScreenMm } from "./DisplayProfile";
+import { CameraIntrinsics, HeadPose, PnPSolver, transformPoint } from "./PnPSolver";
+import { FACE_MODEL_MM } from "./FaceModel";
+import { LossBehavior, LOST_AFTER_MS, TrackingState, TrackingStateMachine } from "./TrackingState";
+import { DEFAULT_FILTER_SETTINGS, FilterSettings, orientationFilterParams } from "./FilterSettings";
+import { EarBaseline, EarThresholds, EyeThresholds } from "./EarBaseline";
+import { BinocularEstimator, BinocularState, computeEyeGazes } from "./Binocular";
+
+export type { LossBehavior, TrackingState, MotionModel, QuaternionLike };
+
+// Viewer eye position in mm relative to the screen centre (see DisplayProfile for axes)
+export interface EyePosition {
+    x: number;
+    y: number;
+    z: number;
+}
+
+export interface FaceRotation {
+    yaw: number;   // Left/Right
+    pitch: number; // Up/Down
+    roll: number;  // Tilt
+}
+
+export interface BlinkState {
+    isBlinking: boolean;
+    blinkStrength: number; // 0 (open) to 1 (closed)
+    leftEAR: number;
+    rightEAR: number;
+    leftIrisVisible: boolean;  // False when the lids cover the iris (or the iris landmarks are missing)
+    rightIrisVisible: boolean;
+    leftClosed: boolean;       // Per eye, against that eye's (per-user) thresholds
+    rightClosed: boolean;
+    leftWink: boolean;         // Closed for two frames or more while the other eye is clearly open
+    rightWink: boolean;
+}
+
+export interface IrisData {
+    x: number;
+    y: number;
+}
+
+export interface IrisSize {
+    right: number;           // px, largest distance between the iris ring points
+    left: number;
+    rightNormalized: number; // Divided by the eye scale, so viewing distance cancels out
+    leftNormalized: number;
+    held: boolean;           // Last measurement repeated (eyes closed, the lids deform the ring)
+}
+
+export type TrackingMode = 'head' | 'iris';
+
+// Settings the UI can change while the pipeline runs (also sent to the tracking worker)
+export interface PipelineConfig {
+    trackingMode: TrackingMode;
+    display: DisplayProfile;
+    lossBehavior: LossBehavior;
+    motionModel: MotionModel; // Kinematic model of the eye position / head rotation Kalman filters
+    filter: FilterSettings;   // Head orientation smoothing and gaze gain
+    eyeGain: number;          // Iris mode: multiplier of the eye rotation added to the head angles
+    calibrating: boolean;     // The user is fixating on-screen targets with open eyes: sample the blink / vergence baselines
+}
+
+// Eye position derivatives from the motion Kalman filter, for prediction to display time
+export interface EyeMotion {
+    velocity: Point3D;     // mm/ms (screen frame)
+    acceleration: Point3D; // mm/ms^2
+}
+
+// What the iris Kalman filter did with one eye's measurement this frame
+export type IrisMeasurementStatus = 'accepted' | 'rejected' | 'held';
+
+export interface IrisGate {
+    status: IrisMeasurementStatus; // 'held' while blinking (no measurement)
+    noiseScale: number;            // Adaptive R multiplier
+    distance: number;              // Squared Mahalanobis distance of the innovation
+}
+
+export interface IrisFilterDiagnostics {
+    right: IrisGate;
+    left: IrisGate;
+    rejectedTotal: number; // Rejected measurements (both eyes) since the last reset
+}
+
+export interface TrackingResult {
+    timestamp: number;
+    capturedAt: number;  // Wall clock (clockNow) of the camera frame
+    processedAt: number; // Wall clock when the pipeline finished with it
+    blink: BlinkState;
+    rotation: FaceRotation;
+    orientation: QuaternionLike; // Filtered, recentered head orientation (head only, no eye component)
+    gaze: { yaw: number; pitch: number }; // Fused head (+ eye) angles (rad); the gaze gain is applied by GazeController
+    iris: IrisData;
+    irisOffsets: { right: Point2D; left: Point2D }; // Kalman-filtered iris offsets from the eye corners (px)
+    binocular: BinocularState; // Per-eye gaze, disparity, vergence depth, one-eye failure
+    irisSize: IrisSize;
+    eyePos: EyePosition;
+    distanceMm: number; // Camera-to-eye distance estimated from iris size
+    headPose: HeadPose; // 6-DoF pose from PnP (unfiltered, not recentered)
+    irisFilter: IrisFilterDiagnostics;
+    trackingState: TrackingState; // While not 'tracking', outputs may be held, eased or coasted
+    motion: EyeMotion;
+}
+
+// Landmark Indices
+// Ref: User provided indices.
+// Subject Right Eye (MediaPipe 33...):
+export const SUBJECT_RIGHT_EYE = [33, 160, 158, 133, 153, 144];
+// Subject Left Eye (MediaPipe 362...):
+export const SUBJECT_LEFT_EYE = [362, 385, 387, 263, 373, 380];
+
+// Lowered to 0.18 to prevent false positives freezing the cursor
+export const BLINK_EAR_THRESHOLD = 0.18;
+// Hysteresis: once closed, the eyes count as open again only above this EAR
+export const BLINK_REOPEN_EAR_THRESHOLD = 0.21;
+// Per-eye thresholds until the EAR baseline has adapted them
+export const DEFAULT_EAR_THRESHOLDS: EarThresholds = { close: BLINK_EAR_THRESHOLD, reopen: BLINK_REOPEN_EAR_THRESHOLD };
+const DEFAULT_EYE_THRESHOLDS: EyeThresholds = { left: DEFAULT_EAR_THRESHOLDS, right: DEFAULT_EAR_THRESHOLDS };
+// Lid opening / iris diameter below which the iris counts as covered (open eye ~0.7)
+export const IRIS_COVERED_RATIO = 0.25;
+
+// Viewing distance assumed until the iris has been measured
+export const DEFAULT_VIEW_DISTANCE_MM = 600;
+
+// Above this RMS reprojection error (px) the PnP translation is not trusted for the eye position
+export const MAX_POSE_REPROJECTION_ERROR = 6;
+
+// Loss behaviour timing
+const EASE_TIME_CONSTANT_MS = 800;  // 'ease': time constant of the drift to neutral once lost
+const COAST_TIME_CONSTANT_MS = 250; // 'coast': velocity decays with this time constant
+const REACQUIRE_BLEND_MS = 300;     // Blend from the fallback output back to the live pose
+
+// EMA weight for the differentiated eye acceleration
+const ACCELERATION_SMOOTHING = 0.2;
+
+// Per-frame measurement before timing and tracking state are attached
+type Measured = Omit<TrackingResult, 'capturedAt' | 'processedAt' | 'trackingState' | 'motion'>;
+
+// Where 'ease' drifts to: looking straight at the screen centre from the default distance
+const NEUTRAL_EYE_POSITION: EyePosition = { x: 0, y: 0, z: DEFAULT_VIEW_DISTANCE_MM };
+const IDENTITY_ORIENTATION: QuaternionLike = { x: 0, y: 0, z: 0, w: 1 };
+const STILL: EyeMotion = { velocity: { x: 0, y: 0, z: 0 }, acceleration: { x: 0, y: 0, z: 0 } };
+
+// Iris measurement gating: chi-square, 2 degrees of freedom, p = 0.001
+const IRIS_GATE_THRESHOLD = 13.8;
+const IRIS_MAX_CONSECUTIVE_REJECTIONS = 3;
+
+// Iris mode: the eyes turn far less than the head would to cover the screen
+export const DEFAULT_EYE_GAIN = 5.0;
+
+// Adaptive iris measurement noise references
+const IRIS_REFERENCE_EYE_SCALE_PX = 55; // Eye scale of a face ~60 cm from a 640 px camera
+const IRIS_OPEN_EAR = 0.3;
+
+// Kalman noise, time in seconds. Iris offsets in px; eye position in mm; head rotation in radians.
+// Shared with the offline smoother (SessionAnalysis).
+export const IRIS_KALMAN: MotionFilterOptions = { processNoise: 2e4, measurementNoise: 0.1 };
+export const EYE_POSITION_KALMAN: Record<MotionModel, MotionFilterOptions> = {
+    'constant-velocity': { model: 'constant-velocity', processNoise: 5e4, measurementNoise: 4 },
+    'constant-acceleration': { model: 'constant-acceleration', processNoise: 5e6, measurementNoise: 4 },
+};
+export const ROTATION_KALMAN: Record<MotionModel, MotionFilterOptions> = {
+    'constant-velocity': { model: 'constant-velocity', processNoise: 5, measurementNoise: 1e-4 },
+    'constant-acceleration': { model: 'constant-acceleration', processNoise: 500, measurementNoise: 1e-4 },
+};
+
+// Cyclopean eye in the face model (midpoint of both iris centres)
+const MODEL_EYE_CENTER: Point3D = {
+    x: (FACE_MODEL_MM[468].x + FACE_MODEL_MM[473].x) / 2,
+    y: (FACE_MODEL_MM[468].y + FACE_MODEL_MM[473].y) / 2,
+    z: (FACE_MODEL_MM[468].z + FACE_MODEL_MM[473].z) / 2
+};
+
+/**
+ * Eye Aspect Ratio for one eye (6 landmark indices, corners first and fourth).
+ */
+export function calculateEAR(landmarks: Point3D[], indices: number[]): number {
+    // MediaPipe landmarks have x, y, z. We mostly care about 2D openness but 3D distance is better.
+    const p = indices.map(i => new Vector3(landmarks[i].x, landmarks[i].y, landmarks[i].z));
+
+    // Vertical distances
+    const v1 = p[1].distanceTo(p[5]);
+    const v2 = p[2].distanceTo(p[4]);
+
+    // Horizontal distance
+    const h = p[0].distanceTo(p[3]);
+
+    return (v1 + v2) / (2.0 * h);
+}
+
+/**
+ * Converts normalized landmarks to uniform pixel space to avoid aspect ratio distortion.
+ */
+export function toPixelSpace(landmarks: Point3D[], width: number, height: number): Point3D[] {
+    return landmarks.map(p => ({
+        x: p.x * width,
+        y: p.y * height,
+        z: p.z * width
+    }));
+}
+
+/**
+ * Whether the lids leave the iris visible: the lid opening (mean of the two vertical EAR
+ * distances) compared with the iris diameter, both in pixels so the aspect ratio cancels.
+ */
+export function isIrisVisible(
+    landmarks: Point3D[],
+    eye: number[],
+    iris: number[],
+    width: number = 1,
+    height: number = 1
+): boolean {
+    if (landmarks.length < LANDMARK_COUNT) return false;
+    const gap = (a: number, b: number) =>
+        Math.hypot((landmarks[a].x - landmarks[b].x) * width, (landmarks[a].y - landmarks[b].y) * height);
+    const opening = (gap(eye[1], eye[5]) + gap(eye[2], eye[4])) / 2;
+    const diameter = computeIrisDiameter(iris, landmarks, width, height);
+    return diameter > 0 && opening >= IRIS_COVERED_RATIO * diameter;
+}
+
+/**
+ * Per-eye closure (low EAR or iris covered) with hysteresis against the previous frame's state;
+ * a blink is both eyes closed, a wink one eye closed for two frames while the other is clearly open.
+ */
+export function computeBlink(
+    landmarks: Point3D[],
+    previous: BlinkState | null = null,
+    width: number = 1,
+    height: number = 1,
+    thresholds: EyeThresholds = DEFAULT_EYE_THRESHOLDS
+): BlinkState {
+    const rightEAR = calculateEAR(landmarks, SUBJECT_RIGHT_EYE);
+    const leftEAR = calculateEAR(landmarks, SUBJECT_LEFT_EYE);
+    const rightIrisVisible = isIrisVisible(landmarks, SUBJECT_RIGHT_EYE, RIGHT_IRIS_INDICES, width, height);
+    const leftIrisVisible = isIrisVisible(landmarks, SUBJECT_LEFT_EYE, LEFT_IRIS_INDICES, width, height);
+
+    const isClosed = (ear: number, t: EarThresholds, irisVisible: boolean, wasClosed: boolean) =>
+        !irisVisible || ear < (wasClosed ? t.reopen : t.close);
+    const rightClosed = isClosed(rightEAR, thresholds.right, rightIrisVisible, !!previous?.rightClosed);
+    const leftClosed = isClosed(leftEAR, thresholds.left, leftIrisVisible, !!previous?.leftClosed);
+
+    const isWink = (closed: boolean, wasClosed: boolean, otherClosed: boolean, otherEAR: number, other: EarThresholds) =>
+        closed && wasClosed && !otherClosed && otherEAR >= other.reopen;
+
+    return {
+        isBlinking: leftClosed && rightClosed,
+        blinkStrength: (leftEAR + rightEAR) / 2,
+        leftEAR,
+        rightEAR,
+        leftIrisVisible,
+        rightIrisVisible,
+        leftClosed,
+        rightClosed,
+        leftWink: isWink(leftClosed, !!previous?.leftClosed, rightClosed, rightEAR, thresholds.right),
+        rightWink: isWink(rightClosed, !!previous?.rightClosed, leftClosed, leftEAR, thresholds.left),
+    };
+}
+
+/**
+ * Per-eye iris size from the ring landmarks, in pixels and relative to the eye scale.
+ */
+export function computeIrisSize(landmarks: Point3D[], width: number, height: number): IrisSize {
+    const right = calculateIrisSize(RIGHT_IRIS_INDICES, landmarks, width, height);
+    const left = calculateIrisSize(LEFT_IRIS_INDICES, landmarks, width, height);
+    const eyeScalePx = computeEyeScale(landmarks, width, height);
+    return { right, left, rightNormalized: right / eyeScalePx, leftNormalized: left / eyeScalePx, held: false };
+}
+
+/**
+ * Head rotation as a quaternion. Same convention as the PnP angles: Euler 'YXZ' of the head
+ * relative to facing the camera, with pitch negated (positive = looking up).
+ */
+export function faceRotationToQuaternion(rotation: FaceRotation): Quaternion {
+    return new Quaternion().setFromEuler(new Euler(-rotation.pitch, rotation.yaw, rotation.roll, 'YXZ'));
+}
+
+export function quaternionToFaceRotation(q: QuaternionLike): FaceRotation {
+    const euler = new Euler().setFromQuaternion(new Quaternion(q.x, q.y, q.z, q.w), 'YXZ');
+    return { yaw: euler.y, pitch: -euler.x, roll: euler.z };
+}
+
+/**
+ * Iris centre offsets from the eye corner anchors, in pixel space.
+ */
+export function computeIrisOffsets(landmarksPx: Point3D[]): { right: Point2D; left: Point2D } {
+    // Anchors (Inner Eye Corners) - Use Pixel Space
+    const anchorR = landmarksPx[33];
+    const anchorL = landmarksPx[362];
+
+    // Iris (Pixel Space)
+    const irisR = landmarksPx[468];
+    const irisL = landmarksPx[473];
+
+    return {
+        right: { x: irisR.x - anchorR.x, y: irisR.y - anchorR.y },
+        left: { x: irisL.x - anchorL.x, y: irisL.y - anchorL.y }
+    };
+}
+
+/**
+ * Converts a normalized iris offset into eye rotation angles (radians).
+ */
+export function irisOffsetToEyeAngles(offset: IrisData, eyeScaleNorm: number): { yaw: number; pitch: number } {
+    const eyeSensitivity = 1.0;
+    const eyeRadius = eyeScaleNorm * 0.4;
+    return {
+        yaw: Math.atan2(offset.x, eyeRadius) * eyeSensitivity,
+        pitch: Math.atan2(offset.y, eyeRadius) * eyeSensitivity
+    };
+}
+
+/**
+ * Multiplier for the iris Kalman measurement noise R.
+ * - Eye openness: as the lids close they cover the iris ring and its centre estimate wanders.
+ * - Face size: landmark jitter in image pixels grows with the face (the detector works on a fixed-size crop),
+ *   while below the reference size it is bounded by the camera resolution.
+ * - Landmark confidence: a large PnP reprojection error means the landmarks disagree with a rigid face.
+ */
+export function irisMeasurementNoiseScale(ear: number, eyeScalePx: number, reprojectionError: number): number {
+    const openness = IRIS_OPEN_EAR / Math.max(ear, BLINK_EAR_THRESHOLD);
+    const earFactor = Math.max(1, openness * openness);
+    const size = eyeScalePx / IRIS_REFERENCE_EYE_SCALE_PX;
+    const sizeFactor = Math.max(1, size * size);
+    const fit = reprojectionError / MAX_POSE_REPROJECTION_ERROR;
+    const confidenceFactor = 1 + fit * fit;
+    return earFactor * sizeFactor * confidenceFactor;
+}
+
+export function cameraIntrinsics(width: number, height: number, display: DisplayProfile): CameraIntrinsics {
+    return {
+        focalLength: focalLengthFromFov(width, getCameraFovRadians(display)),
+        cx: width / 2,
+        cy: height / 2
+    };
+}
+
+/**
+ * Cyclopean eye (midpoint of both iris centres) in screen millimetres, back-projected from the image.
+ */
+export function computeEyePosition(
+    landmarksPx: Point3D[],
+    width: number,
+    height: number,
+    distanceMm: number,
+    display: DisplayProfile
+): EyePosition {
+    const u = (landmarksPx[468].x + landmarksPx[473].x) / 2;
+    const v = (landmarksPx[468].y + landmarksPx[473].y) / 2;
+    const focalPx = focalLengthFromFov(width, getCameraFovRadians(display));
+    return imagePointToScreenMm(u, v, distanceMm, width, height, focalPx, display);
+}
+
+/**
+ * Cyclopean eye from the PnP head pose. The pose fixes the viewing ray (unaffected by eye movement);
+ * depth is rescaled to the iris distance, which does not depend on the face model's scale.
+ */
+export function computeEyePositionFromPose(pose: HeadPose, distanceMm: number, display: DisplayProfile): EyePosition {
+    const eye = transformPoint(pose.rotation, pose.translation, MODEL_EYE_CENTER);
+    const scale = eye.z > 0 ? distanceMm / eye.z : 1;
+    return cameraToScreenMm({ x: eye.x * scale, y: eye.y * scale, z: eye.z * scale }, display);
+}
+
+/**
+ * Stateful filter chain: blink hold, iris Kalman, PnP head pose, head orientation One Euro (quaternion), recenter and head/eye fusion,
+ * plus the tracking state and the loss behaviour used while the face is missing.
+ */
+export class HeadTrackingPipeline {
+    private config: PipelineConfig = {
+        trackingMode: 'head',
+        display: DEFAULT_DISPLAY_PROFILE,
+        lossBehavior: 'hold',
+        motionModel: 'constant-velocity',
+        filter: DEFAULT_FILTER_SETTINGS,
+        eyeGain: DEFAULT_EYE_GAIN,
+        calibrating: false,
+    };
+
+    // Filters (head orientation, on quaternions)
+    private filterOrientation = new QuaternionOneEuroFilter(DEFAULT_FILTER_SETTINGS.minCutoff, DEFAULT_FILTER_SETTINGS.beta);
+
+    // Iris distance is noisy at the pixel level; smooth it (mm)
+    private filterDistance = new OneEuroFilter(0.5, 0.01);
+    private lastDistanceMm = DEFAULT_VIEW_DISTANCE_MM;
+
+    // Kalman Filters (Iris offsets, px)
+    private kalmanRight = new MotionKalmanFilter(2, IRIS_KALMAN);
+    private kalmanLeft = new MotionKalmanFilter(2, IRIS_KALMAN);
+    private lastIrisTimestamp = 0;
+    private lastBlink: BlinkState | null = null;
+    private lastIrisSize: IrisSize | null = null;
+    private earBaseline = new EarBaseline(DEFAULT_EAR_THRESHOLDS);
+    private binocular = new BinocularEstimator();
+    private irisRejectedTotal = 0;
+
+    // Store last valid filtered eye position to hold during blinking
+    private lastEyePos = { rX: 0, rY: 0, lX: 0, lY: 0 };
+
+    // Head pose
+    private pnp = new PnPSolver();
+    private lastPose: HeadPose | null = null;
+
+    // Face presence and what to output without one
+    private tracking = new TrackingStateMachine();
+    private lastMeasured: Measured | null = null;
+    private lastOutput: TrackingResult | null = null;
+    private blendFrom: Measured | null = null;
+    private blendStart = 0;
+
+    // 3D eye position (mm) and head rotation (rad) Kalman filters: smoothing of the eye position,
+    // and the velocities used for 'coast' and display-time prediction
+    private motionEye = new MotionKalmanFilter(3, EYE_POSITION_KALMAN['constant-velocity']);
+    private motionRotation = new MotionKalmanFilter(3, ROTATION_KALMAN['constant-velocity']);
+    private lastMotion: EyeMotion = STILL;
+
+    // Offset for Taring (inverse of the head orientation at recenter)
+    private orientationOffset = new Quaternion();
+    private recenterNextFrame = false;
+
+    public process(frame: LandmarkFrame): TrackingResult | null {
+        const { landmarks, timestamp } = frame;
+        const capturedAt = frame.capturedAt ?? timestamp;
+        if (frame.discontinuity) this.reset();
+
+        // SAFETY CHECK: Ensure Iris Landmarks (468+) exist
+        // This prevents the "Stopped Moving" / Crash issue.
+        const hasFace = !!landmarks && landmarks.length >= LANDMARK_COUNT;
+
+        // Re-acquisition: start the filters from scratch instead of from a pose seconds old
+        if (hasFace && this.tracking.state === 'lost') {
+            this.resetFilters();
+            this.blendFrom = this.lastOutput;
+            this.blendStart = timestamp;
+        }
+
+        const measurement = hasFace ? this.measure(frame) : null;
+        const state = this.tracking.update(
+            !measurement ? 'missing' : measurement.reliable ? 'good' : 'poor',
+            timestamp
+        );
+
+        if (!measurement) {
+            if (!this.lastMeasured) return null;
+            this.lastOutput = {
+                ...this.fallback(timestamp, state),
+                capturedAt,
+                processedAt: clockNow(),
+                trackingState: state,
+                motion: STILL,
+            };
+            return this.lastOutput;
+        }
+
+        const { measured, motion } = this.updateMotion(measurement.result);
+        this.lastMeasured = measured;
+        this.lastOutput = {
+            ...this.blendIn(measured, timestamp),
+            capturedAt,
+            processedAt: clockNow(),
+            trackingState: state,
+            motion,
+        };
+        return this.lastOutput;
+    }
+
+    /**
+     * One frame of measurement and filtering; `reliable` is false when the pose was reused or fits badly.
+     */
+    private measure(frame: LandmarkFrame): { result: Measured; reliable: boolean } | null {
+        const { timestamp, width, height } = frame;
+        const landmarks = frame.landmarks!;
+
+        // 1. Blink (per-eye EAR against the user's baseline + iris coverage, with hysteresis)
+        const blink = computeBlink(landmarks, this.lastBlink, width, height, this.earBaseline.thresholds);
+        this.lastBlink = blink;
+        this.earBaseline.push(timestamp, blink.leftEAR, blink.rightEAR, this.config.calibrating);
+
+        // 2. Head Pose (PnP against the face model, in pixel space)
+        const landmarksPx = toPixelSpace(landmarks, width, height);
+        const { trackingMode, display } = this.config;
+        const K = cameraIntrinsics(width, height, display);
+        const solved = this.pnp.solve(landmarksPx, K);
+        const pose = solved ?? this.lastPose;
+        if (!pose) return null;
+        this.lastPose = pose;
+        const rawOrientation = faceRotationToQuaternion(pose);
+
+        // 3. Eye Gaze Calculation (Eye Corner Ref + Pixel Space)
+        const eyeScaleNorm = computeEyeScale(landmarks);
+        const offsets = computeIrisOffsets(landmarksPx);
+
+        let kR = { x: 0, y: 0 };
+        let kL = { x: 0, y: 0 };
+        let irisFilter: IrisFilterDiagnostics;
+
+        if (!blink.isBlinking) {
+            const dt = (timestamp - this.lastIrisTimestamp) / 1000;
+            this.lastIrisTimestamp = timestamp;
+            const eyeScalePx = computeEyeScale(landmarks, width, height);
+            const gate = (ear: number): GateOptions => ({
+                threshold: IRIS_GATE_THRESHOLD,
+                maxConsecutiveRejections: IRIS_MAX_CONSECUTIVE_REJECTIONS,
+                noiseScale: irisMeasurementNoiseScale(ear, eyeScalePx, pose.reprojectionError),
+            });
+            const gateR = gate(blink.rightEAR);
+            const gateL = gate(blink.leftEAR);
+            const right = this.kalmanRight.updateGated([offsets.right.x, offsets.right.y], dt, gateR);
+            const left = this.kalmanLeft.updateGated([offsets.left.x, offsets.left.y], dt, gateL);
+            kR = { x: right.position[0], y: right.position[1] };
+            kL = { x: left.position[0], y: left.position[1] };
+            this.lastEyePos = { rX: kR.x, rY: kR.y, lX: kL.x, lY: kL.y };
+
+            this.irisRejectedTotal += (right.accepted ? 0 : 1) + (left.accepted ? 0 : 1);
+            irisFilter = {
+                right: { status: right.accepted ? 'accepted' : 'rejected', noiseScale: gateR.noiseScale!, distance: right.distance },
+                left: { status: left.accepted ? 'accepted' : 'rejected', noiseScale: gateL.noiseScale!, distance: left.distance },
+                rejectedTotal: this.irisRejectedTotal,
+            };
+        } else {
+            // Blink Hold (Reuse last valid pixel pos)
+            kR = { x: this.lastEyePos.rX, y: this.lastEyePos.rY };
+            kL = { x: this.lastEyePos.lX, y: this.lastEyePos.lY };
+            const held: IrisGate = { status: 'held', noiseScale: 1, distance: 0 };
+            irisFilter = { right: held, left: held, rejectedTotal: this.irisRejectedTotal };
+        }
+
+        // Normalize Back for Angle Calculation (Approx) and average both eyes
+        const iris = {
+            x: (kR.x / width + kL.x / width) / 2,
+            y: (kR.y / height + kL.y / height) / 2
+        };
+        const eyeAngles = irisOffsetToEyeAngles(iris, eyeScaleNorm);
+
+        // Per-eye gaze and vergence (against the previous distance estimate)
+        const binocular = this.binocular.update(
+            computeEyeGazes(landmarksPx, { right: kR, left: kL }),
+            blink,
+            irisFilter,
+            this.lastDistanceMm,
+            this.config.calibrating
+        );
+
+        // 4. Iris size and viewer distance from it (held while blinking, the lids deform the iris ring)
+        const irisSize: IrisSize = !blink.isBlinking || !this.lastIrisSize
+            ? computeIrisSize(landmarks, width, height)
+            : { ...this.lastIrisSize, held: true };
+        this.lastIrisSize = irisSize;
+        if (!blink.isBlinking) {
+            const rawDistance = estimateIrisDistance(landmarks, width, height, K.focalLength);
+            if (rawDistance !== null) {
+                this.lastDistanceMm = this.filterDistance.filter(rawDistance, timestamp);
+            }
+        }
+
+        // 5. Recenter (Tare) - Only for Head
+        if (this.recenterNextFrame) {
+            this.orientationOffset = rawOrientation.clone().invert();
+            this.recenterNextFrame = false;
+        }
+
+        // 6. Apply Head Filter (quaternion One Euro), then back to angles for the fusion
+        const orientation = this.filterOrientation.filter(
+            this.orientationOffset.clone().multiply(rawOrientation),
+            timestamp
+        );
+        const { yaw: fYaw, pitch: fPitch, roll: fRoll } = quaternionToFaceRotation(orientation);
+
+        // 7. Fusion (Head + Eye)
+        const isIrisMode = trackingMode === 'iris';
+
+        const { eyeGain } = this.config;
+        const eyeComponentYaw = isIrisMode ? eyeAngles.yaw * eyeGain : 0;
+        // Pitch: MediaPipe Pitch is Down=Positive, so the eye component is inverted.
+        const eyeComponentPitch = isIrisMode ? eyeAngles.pitch * -eyeGain : 0;
+
+        const finalYaw = fYaw + eyeComponentYaw;
+        const finalPitch = fPitch + eyeComponentPitch;
+
+        const poseIsGood = !!solved && pose.reprojectionError <= MAX_POSE_REPROJECTION_ERROR;
+        return {
+            result: {
+                timestamp,
+                blink,
+                rotation: { yaw: finalYaw, pitch: finalPitch, roll: fRoll },
+                orientation: toQuaternionLike(orientation),
+                gaze: { yaw: finalYaw, pitch: finalPitch },
+                iris,
+                irisOffsets: { right: kR, left: kL },
+                binocular,
+                irisSize,
+                eyePos: poseIsGood
+                    ? computeEyePositionFromPose(pose, this.lastDistanceMm, display)
+                    : computeEyePosition(landmarksPx, width, height, this.lastDistanceMm, display),
+                distanceMm: this.lastDistanceMm,
+                headPose: pose,
+                irisFilter
+            },
+            reliable: poseIsGood
+        };
+    }
+
+    /**
+     * Runs the eye position / rotation Kalman filters. Returns the measurement with the filtered eye
+     * position, and the eye motion in per-millisecond units.
+     */
+    private updateMotion(raw: Measured): { measured: Measured; motion: EyeMotion } {
+        const dtMs = this.lastMeasured ? raw.timestamp - this.lastMeasured.timestamp : 0;
+        const dt = dtMs / 1000;
+        const [x, y, z] = this.motionEye.update([raw.eyePos.x, raw.eyePos.y, raw.eyePos.z], dt);
+        this.motionRotation.update([raw.rotation.yaw, raw.rotation.pitch, raw.rotation.roll], dt);
+
+        const [vx, vy, vz] = this.motionEye.velocity;
+        const velocity = { x: vx / 1000, y: vy / 1000, z: vz / 1000 };
+
+        let acceleration: Point3D;
+        if (this.motionEye.hasAcceleration) {
+            const [ax, ay, az] = this.motionEye.acceleration;
+            acceleration = { x: ax / 1e6, y: ay / 1e6, z: az / 1e6 };
+        } else {
+            // Constant-velocity state has no acceleration term; differentiate its velocity and smooth heavily
+            const previous = this.lastMotion.velocity;
+            acceleration = { ...this.lastMotion.acceleration };
+            if (dtMs > 0 && dtMs < LOST_AFTER_MS) {
+                acceleration.x += ((velocity.x - previous.x) / dtMs - acceleration.x) * ACCELERATION_SMOOTHING;
+                acceleration.y += ((velocity.y - previous.y) / dtMs - acceleration.y) * ACCELERATION_SMOOTHING;
+                acceleration.z += ((velocity.z - previous.z) / dtMs - acceleration.z) * ACCELERATION_SMOOTHING;
+            }
+        }
+
+        this.lastMotion = { velocity, acceleration };
+        return { measured: { ...raw, eyePos: { x, y, z } }, motion: this.lastMotion };
+    }
+
+    /**
+     * Output for a frame without a usable face, according to the configured loss behaviour.
+     */
+    private fallback(timestamp: number, state: TrackingState): Measured {
+        const last = this.lastMeasured!;
+        const missingMs = Math.max(0, timestamp - last.timestamp);
+
+        if (this.config.lossBehavior === 'coast') {
+            // Constant velocity with exponential decay, so the pose glides to a stop
+            // (seconds of travel at the last velocity)
+            const travel = COAST_TIME_CONSTANT_MS * (1 - Math.exp(-missingMs / COAST_TIME_CONSTANT_MS)) / 1000;
+            const [vx, vy, vz] = this.motionEye.velocity;
+            const [vYaw, vPitch, vRoll] = this.motionRotation.velocity;
+            const head = quaternionToFaceRotation(last.orientation);
+            const coasted = faceRotationToQuaternion({
+                yaw: head.yaw + vYaw * travel,
+                pitch: head.pitch + vPitch * travel,
+                roll: head.roll + vRoll * travel,
+            });
+            return {
+                ...last,
+                timestamp,
+                orientation: toQuaternionLike(coasted),
+                rotation: {
+                    yaw: last.rotation.yaw + vYaw * travel,
+                    pitch: last.rotation.pitch + vPitch * travel,
+                    roll: last.rotation.roll + vRoll * travel,
+                },
+                gaze: { yaw: last.gaze.yaw + vYaw * travel, pitch: last.gaze.pitch + vPitch * travel },
+                eyePos: { x: last.eyePos.x + vx * travel, y: last.eyePos.y + vy * travel, z: last.eyePos.z + vz * travel },
+            };
+        }
+
+        if (this.config.lossBehavior === 'ease' && state === 'lost') {
+            const k = 1 - Math.exp(-(missingMs - LOST_AFTER_MS) / EASE_TIME_CONSTANT_MS);
+            return {
+                ...last,
+                timestamp,
+                rotation: { yaw: lerp(last.rotation.yaw, 0, k), pitch: lerp(last.rotation.pitch, 0, k), roll: lerp(last.rotation.roll, 0, k) },
+                orientation: slerpOrientation(last.orientation, IDENTITY_ORIENTATION, k),
+                gaze: { yaw: lerp(last.gaze.yaw, 0, k), pitch: lerp(last.gaze.pitch, 0, k) },
+                eyePos: lerpEyePosition(last.eyePos, NEUTRAL_EYE_POSITION, k),
+            };
+        }
+
+        return { ...last, timestamp };
+    }
+
+    /**
+     * Right after re-acquisition, slides from the last fallback output to the live pose.
+     */
+    private blendIn(measured: Measured, timestamp: number): Measured {
+        if (!this.blendFrom) return measured;
+        const k = Math.min(1, (timestamp - this.blendStart) / REACQUIRE_BLEND_MS);
+        if (k >= 1) {
+            this.blendFrom = null;
+            return measured;
+        }
+
+        const from = this.blendFrom;
+        return {
+            ...measured,
+            rotation: {
+                yaw: lerp(from.rotation.yaw, measured.rotation.yaw, k),
+                pitch: lerp(from.rotation.pitch, measured.rotation.pitch, k),
+                roll: lerp(from.rotation.roll, measured.rotation.roll, k),
+            },
+            orientation: slerpOrientation(from.orientation, measured.orientation, k),
+            gaze: { yaw: lerp(from.gaze.yaw, measured.gaze.yaw, k), pitch: lerp(from.gaze.pitch, measured.gaze.pitch, k) },
+            eyePos: lerpEyePosition(from.eyePos, measured.eyePos, k),
+        };
+    }
+
+    public configure(config: Partial<PipelineConfig>) {
+        const motionModelChanged = config.motionModel !== undefined && config.motionModel !== this.config.motionModel;
+        this.config = { ...this.config, ...config };
+        if (motionModelChanged) this.resetMotionFilters();
+        if (config.filter) this.filterOrientation.setParams(orientationFilterParams(config.filter));
+    }
+
+    public recenter() {
+        this.recenterNextFrame = true;
+    }
+
+    /**
+     * Drops all filter history and tracking state, e.g. when the landmark source changes.
+     */
+    public reset() {
+        this.resetFilters();
+        this.tracking.reset();
+        this.earBaseline.reset();
+        this.binocular.reset();
+        this.lastMeasured = null;
+        this.lastOutput = null;
+        this.blendFrom = null;
+    }
+
+    private resetFilters() {
+        this.filterOrientation.reset();
+        this.filterDistance.reset();
+        this.pnp.reset();
+        this.lastPose = null;
+        this.lastDistanceMm = DEFAULT_VIEW_DISTANCE_MM;
+        this.kalmanRight.reset();
+        this.kalmanLeft.reset();
+        this.irisRejectedTotal = 0;
+        this.lastBlink = null;
+        this.lastIrisSize = null;
+        this.lastEyePos = { rX: 0, rY: 0, lX: 0, lY: 0 };
+        this.resetMotionFilters();
+    }
+
+    private resetMotionFilters() {
+        this.motionEye = new MotionKalmanFilter(3, EYE_POSITION_KALMAN[this.config.motionModel]);
+        this.motionRotation = new MotionKalmanFilter(3, ROTATION_KALMAN[this.config.motionModel]);
+        this.lastMotion = STILL;
+    }
+}
+
+function lerp(a: number, b: number, k: number): number {
+    return a + (b - a) * k;
+}
+
+function lerpEyePosition(a: EyePosition, b: EyePosition, k: number): EyePosition {
+    return { x: lerp(a.x, b.x, k), y: lerp(a.y, b.y, k), z: lerp(a.z, b.z, k) };
+}
+
+function toQuaternionLike(q: Quaternion): QuaternionLike {
+    return { x: q.x, y: q.y, z: q.z, w: q.w };
+}
+
+function slerpOrientation(a: QuaternionLike, b: QuaternionLike, k: number): QuaternionLike {
+    const from = new Quaternion(a.x, a.y, a.z, a.w);
+    return toQuaternionLike(from.slerp(new Quaternion(b.x, b.y, b.z, b.w), k));
+}
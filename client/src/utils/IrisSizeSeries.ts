@@ -0,0 +1,89 @@
+/**
+ * Iris Size Series
+ * Rolling time series of the per-eye iris size with the reference tool's stability measure
+ * (standard deviation of the last 30 sizes). The apparent size only changes with viewing
+ * distance (a check on the iris-based distance estimate), while the normalised size should stay
+ * flat; drift or noise there is landmark trouble, or a rough arousal / lighting response.
+ */
+import { calculateIrisStability } from "./FaceUtils";
+import type { IrisSize } from "./HeadTrackingPipeline";
+
+export interface IrisSizeSample {
+    timestamp: number;
+    right: number;           // px
+    left: number;
+    rightNormalized: number; // Relative to the eye scale
+    leftNormalized: number;
+}
+
+export interface IrisSizeStats {
+    right: number;                  // Latest size (px)
+    left: number;
+    rightStability: number;         // Std-dev of the recent sizes (px); 0 until enough samples
+    leftStability: number;
+    rightNormalizedStability: number;
+    leftNormalizedStability: number;
+    asymmetry: number;              // |right - left| / mean; large values mean one ring is mis-detected
+}
+
+// Same span as the reference tool's graphs
+export const IRIS_SIZE_WINDOW_MS = 30000;
+
+export const EMPTY_IRIS_SIZE_STATS: IrisSizeStats = {
+    right: 0,
+    left: 0,
+    rightStability: 0,
+    leftStability: 0,
+    rightNormalizedStability: 0,
+    leftNormalizedStability: 0,
+    asymmetry: 0,
+};
+
+export class IrisSizeSeries {
+    private series: IrisSizeSample[] = [];
+
+    constructor(private windowMs: number = IRIS_SIZE_WINDOW_MS) { }
+
+    // Samples in the window, oldest first
+    public get samples(): IrisSizeSample[] {
+        return this.series;
+    }
+
+    /**
+     * Adds one frame's measurement; held sizes (eyes closed) are skipped.
+     */
+    public push(timestamp: number, size: IrisSize) {
+        if (size.held) return;
+        const last = this.series[this.series.length - 1];
+        if (last && timestamp < last.timestamp) this.series = [];
+
+        this.series.push({
+            timestamp,
+            right: size.right,
+            left: size.left,
+            rightNormalized: size.rightNormalized,
+            leftNormalized: size.leftNormalized,
+        });
+        while (this.series.length > 0 && this.series[0].timestamp < timestamp - this.windowMs) this.series.shift();
+    }
+
+    public stats(): IrisSizeStats {
+        const latest = this.series[this.series.length - 1];
+        if (!latest) return EMPTY_IRIS_SIZE_STATS;
+        const recent = this.series.slice(-30);
+        const mean = (latest.right + latest.left) / 2;
+        return {
+            right: latest.right,
+            left: latest.left,
+            rightStability: calculateIrisStability(recent.map(s => s.right)),
+            leftStability: calculateIrisStability(recent.map(s => s.left)),
+            rightNormalizedStability: calculateIrisStability(recent.map(s => s.rightNormalized)),
+            leftNormalizedStability: calculateIrisStability(recent.map(s => s.leftNormalized)),
+            asymmetry: mean > 0 ? Math.abs(latest.right - latest.left) / mean : 0,
+        };
+    }
+
+    public reset() {
+        this.series = [];
+    }
+}
@@ -0,0 +1,250 @@
+import { describe, expect, it } from "vitest";
+import { createMotionModel, GateOptions, KalmanFilter, MotionKalmanFilter, MotionSample, smoothMotionTrack, smoothRTS } from "./KalmanFilter";
+
+function expectRowsClose(actual: number[][], expected: number[][], digits = 12) {
+    expect(actual.length).toBe(expected.length);
+    actual.forEach((row, i) => row.forEach((v, j) => expect(v).toBeCloseTo(expected[i][j], digits)));
+}
+
+describe("createMotionModel", () => {
+    const q = 3;
+
+    it.each([0.01, 0.033, 0.1, 1])("constant velocity: F and Q scale with dt = %s s", dt => {
+        const model = createMotionModel(1, { model: 'constant-velocity', processNoise: q, measurementNoise: 1 });
+        expect(model.stateSize).toBe(2);
+        expectRowsClose(model.transition(dt).toRows(), [[1, dt], [0, 1]]);
+        expectRowsClose(model.processNoise(dt).toRows(), [
+            [q * dt ** 3 / 3, q * dt ** 2 / 2],
+            [q * dt ** 2 / 2, q * dt],
+        ]);
+    });
+
+    it.each([0.01, 0.033, 0.1, 1])("constant acceleration: F and Q scale with dt = %s s", dt => {
+        const model = createMotionModel(1, { model: 'constant-acceleration', processNoise: q, measurementNoise: 1 });
+        expect(model.stateSize).toBe(3);
+        expectRowsClose(model.transition(dt).toRows(), [
+            [1, dt, dt ** 2 / 2],
+            [0, 1, dt],
+            [0, 0, 1],
+        ]);
+        expectRowsClose(model.processNoise(dt).toRows(), [
+            [q * dt ** 5 / 20, q * dt ** 4 / 8, q * dt ** 3 / 6],
+            [q * dt ** 4 / 8, q * dt ** 3 / 3, q * dt ** 2 / 2],
+            [q * dt ** 3 / 6, q * dt ** 2 / 2, q * dt],
+        ]);
+    });
+
+    it("keeps the axes independent: positions, then velocities", () => {
+        const dt = 0.05;
+        const model = createMotionModel(2, { processNoise: q, measurementNoise: 0.5 });
+        expect(model.stateSize).toBe(4);
+        expectRowsClose(model.transition(dt).toRows(), [
+            [1, 0, dt, 0],
+            [0, 1, 0, dt],
+            [0, 0, 1, 0],
+            [0, 0, 0, 1],
+        ]);
+        expect(model.processNoise(dt).get(0, 1)).toBe(0);
+        expect(model.processNoise(dt).get(0, 3)).toBe(0);
+        expectRowsClose(model.measurement.toRows(), [[1, 0, 0, 0], [0, 1, 0, 0]]);
+        expectRowsClose(model.measurementNoise.toRows(), [[0.5, 0], [0, 0.5]]);
+    });
+
+    it("has no process noise over a zero time step", () => {
+        const model = createMotionModel(1, { model: 'constant-acceleration', processNoise: q, measurementNoise: 1 });
+        expect(model.processNoise(0).toArray().every(v => v === 0)).toBe(true);
+        expectRowsClose(model.transition(0).toRows(), [[1, 0, 0], [0, 1, 0], [0, 0, 1]]);
+    });
+});
+
+describe("KalmanFilter", () => {
+    it("predicts along the velocity and grows the uncertainty", () => {
+        const filter = new KalmanFilter(createMotionModel(1, { processNoise: 1, measurementNoise: 1 }));
+        filter.initialize([0, 2], [1, 1]);
+        filter.predict(0.5);
+
+        expect(filter.state).toEqual([1, 2]);
+        // P = F P F^T + Q
+        expect(filter.covariance.get(0, 0)).toBeCloseTo(1 + 0.25 + 0.5 ** 3 / 3, 12);
+    });
+
+    it("weighs the measurement by the relative uncertainties", () => {
+        const filter = new KalmanFilter(createMotionModel(1, { processNoise: 1, measurementNoise: 1 }));
+        // Equal state and measurement variance: the estimate moves halfway
+        filter.initialize([0, 0], [1, 1]);
+        filter.correct([2]);
+        expect(filter.state[0]).toBeCloseTo(1, 12);
+        expect(filter.covariance.get(0, 0)).toBeCloseTo(0.5, 12);
+    });
+
+    it("measures the Mahalanobis distance in innovation standard deviations", () => {
+        const filter = new KalmanFilter(createMotionModel(1, { processNoise: 1, measurementNoise: 3 }));
+        filter.initialize([0, 0], [1, 1]);
+        // S = P + R = 4: a residual of 2 is one standard deviation, 6 is three
+        expect(filter.mahalanobis([2])).toBeCloseTo(1, 12);
+        expect(filter.mahalanobis([6])).toBeCloseTo(9, 12);
+        // Scaling R widens the gate: S = 1 + 3 * 5
+        expect(filter.mahalanobis([6], 5)).toBeCloseTo(36 / 16, 12);
+    });
+});
+
+describe("MotionKalmanFilter", () => {
+    it("starts at the first measurement", () => {
+        const filter = new MotionKalmanFilter(2, { processNoise: 100, measurementNoise: 1 });
+        expect(filter.update([3, -4], 0)).toEqual([3, -4]);
+        expect(filter.velocity).toEqual([0, 0]);
+    });
+
+    it.each([
+        { model: 'constant-velocity' as const, position: (t: number) => 5 + 2 * t, velocity: () => 2, acceleration: 0 },
+        { model: 'constant-acceleration' as const, position: (t: number) => 1 + t + t * t, velocity: (t: number) => 1 + 2 * t, acceleration: 2 },
+    ])("follows $model motion at an irregular frame rate", ({ model, position, velocity, acceleration }) => {
+        const filter = new MotionKalmanFilter(1, { model, processNoise: 1e-3, measurementNoise: 1e-4 });
+        let t = 0;
+        for (let i = 0; i < 200; i++) {
+            // 25-40 ms frames
+            const dt = i === 0 ? 0 : 0.025 + 0.015 * ((i * 7) % 5) / 4;
+            t += dt;
+            filter.update([position(t)], dt);
+        }
+
+        expect(filter.position[0]).toBeCloseTo(position(t), 2);
+        expect(filter.velocity[0]).toBeCloseTo(velocity(t), 2);
+        expect(filter.acceleration[0]).toBeCloseTo(acceleration, 1);
+    });
+
+    describe("updateGated", () => {
+        const gate: GateOptions = { threshold: 9, maxConsecutiveRejections: 3 };
+
+        const settled = () => {
+            const filter = new MotionKalmanFilter(1, { processNoise: 1, measurementNoise: 0.01 });
+            for (let i = 0; i < 30; i++) filter.updateGated([0], 0.033, gate);
+            return filter;
+        };
+
+        it("accepts measurements inside the gate", () => {
+            const filter = settled();
+            const result = filter.updateGated([0.05], 0.033, gate);
+            expect(result.accepted).toBe(true);
+            expect(result.distance).toBeLessThan(gate.threshold);
+            expect(result.position[0]).toBeGreaterThan(0);
+        });
+
+        it("rejects an outlier and keeps the prediction", () => {
+            const filter = settled();
+            const result = filter.updateGated([10], 0.033, gate);
+            expect(result.accepted).toBe(false);
+            expect(result.distance).toBeGreaterThan(gate.threshold);
+            expect(Math.abs(result.position[0])).toBeLessThan(0.01);
+        });
+
+        it("restarts at the measurement after maxConsecutiveRejections", () => {
+            const filter = settled();
+            const results = Array.from({ length: gate.maxConsecutiveRejections + 1 }, () => filter.updateGated([10], 0.033, gate));
+
+            results.slice(0, -1).forEach(r => expect(Math.abs(r.position[0])).toBeLessThan(0.1));
+            const restart = results[results.length - 1];
+            expect(restart.accepted).toBe(false);
+            expect(restart.position).toEqual([10]);
+            expect(filter.position[0]).toBe(10);
+            expect(filter.velocity[0]).toBe(0);
+
+            // And tracks from there
+            expect(filter.updateGated([10.01], 0.033, gate).accepted).toBe(true);
+        });
+
+        it("counts only consecutive rejections", () => {
+            const filter = settled();
+            for (let i = 0; i < 3 * gate.maxConsecutiveRejections; i++) {
+                const outlier = i % 2 === 0;
+                const result = filter.updateGated([outlier ? 10 : 0], 0.033, gate);
+                expect(result.accepted).toBe(!outlier);
+                expect(Math.abs(result.position[0])).toBeLessThan(0.1);
+            }
+        });
+
+        it("widens the gate with the noise scale", () => {
+            const filter = settled();
+            const scaled = settled();
+            expect(filter.updateGated([1], 0.033, gate).accepted).toBe(false);
+            expect(scaled.updateGated([1], 0.033, { ...gate, noiseScale: 1e4 }).accepted).toBe(true);
+        });
+    });
+});
+
+// Deterministic noise for the smoothing tests (Park-Miller, then Box-Muller)
+function gaussianNoise(seed: number): () => number {
+    let state = seed;
+    const uniform = () => {
+        state = (state * 16807) % 2147483647;
+        return state / 2147483647;
+    };
+    return () => Math.sqrt(-2 * Math.log(uniform())) * Math.cos(2 * Math.PI * uniform());
+}
+
+function rms(errors: number[]): number {
+    return Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / errors.length);
+}
+
+describe("smoothRTS / smoothMotionTrack", () => {
+    const options = { processNoise: 50, measurementNoise: 0.05 ** 2 };
+    const truth = (t: number) => Math.sin(2 * t) + 0.5 * Math.sin(5 * t);
+    const FRAME_S = 1 / 30;
+
+    // 10 s of a 1-D track sampled at 30 Hz with 0.05 rms noise
+    const noisyTrack = (): MotionSample[] => {
+        const noise = gaussianNoise(7);
+        return Array.from({ length: 300 }, (_, i) => ({ timestamp: i * FRAME_S * 1000, value: [truth(i * FRAME_S) + 0.05 * noise()] }));
+    };
+
+    it("is closer to the truth than the causal filter", () => {
+        const samples = noisyTrack();
+        const filter = new MotionKalmanFilter(1, options);
+        const filtered = samples.map((s, i) => filter.update(s.value!, i === 0 ? 0 : FRAME_S)[0]);
+        const smoothed = smoothMotionTrack(samples, 1, options).map(s => s!.position[0]);
+
+        // Skip the start-up of the forward filter
+        const error = (values: number[]) => rms(values.slice(30).map((v, i) => v - truth((i + 30) * FRAME_S)));
+        const measured = error(samples.map(s => s.value![0]));
+        expect(error(filtered)).toBeLessThan(measured);
+        expect(error(smoothed)).toBeLessThan(error(filtered));
+    });
+
+    it("matches smoothRTS on the same steps", () => {
+        const samples = noisyTrack().slice(0, 60);
+        const model = createMotionModel(1, options);
+        const direct = smoothRTS(model, samples.map((s, k) => ({ z: s.value, dt: k === 0 ? 0 : FRAME_S })), {
+            state: [samples[0].value![0], 0],
+            variances: [options.measurementNoise, 1e6],
+        });
+        smoothMotionTrack(samples, 1, options).forEach((s, i) => {
+            expect(s!.position[0]).toBeCloseTo(direct[i].state[0], 9);
+            expect(s!.velocity[0]).toBeCloseTo(direct[i].state[1], 9);
+        });
+    });
+
+    it("gives no estimate before the first measurement", () => {
+        const samples = noisyTrack().slice(0, 30);
+        for (let i = 0; i < 5; i++) samples[i] = { ...samples[i], value: null };
+        const smoothed = smoothMotionTrack(samples, 1, options);
+
+        expect(smoothed.slice(0, 5)).toEqual([null, null, null, null, null]);
+        expect(smoothed.slice(5).every(s => s !== null)).toBe(true);
+        expect(smoothMotionTrack(samples.map(s => ({ ...s, value: null })), 1, options).every(s => s === null)).toBe(true);
+        expect(smoothRTS(createMotionModel(1, options), [], { state: [0, 0], variances: [1, 1] })).toEqual([]);
+    });
+
+    it("bridges a gap along the motion", () => {
+        // Straight line at 3 units/s with a 300 ms gap
+        const samples: MotionSample[] = Array.from({ length: 60 }, (_, i) => ({
+            timestamp: i * FRAME_S * 1000,
+            value: i >= 25 && i < 34 ? null : [3 * i * FRAME_S],
+        }));
+        const smoothed = smoothMotionTrack(samples, 1, { processNoise: 1, measurementNoise: 1e-4 });
+
+        for (let i = 25; i < 34; i++) {
+            expect(smoothed[i]!.position[0]).toBeCloseTo(3 * i * FRAME_S, 2);
+            expect(smoothed[i]!.velocity[0]).toBeCloseTo(3, 1);
+        }
+    });
+});
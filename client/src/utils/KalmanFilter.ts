@@ -1,179 +1,407 @@
 /**
- * Simple 2D Kalman Filter implementation in TypeScript.
- * Based on OpenCV's KalmanFilter logic (State: x, y, dx, dy / Measurement: x, y)
+ * Linear Kalman Filter of arbitrary state / measurement size.
+ * Based on OpenCV's KalmanFilter logic (predict, then correct), but the transition F and
+ * process noise Q are rebuilt from the real time step every frame instead of assuming dt = 1.
  * Reference: hint.text provided by user.
  */
-export class KalmanFilter {
-    // State Vector [x, y, dx, dy]
-    private x: number[];
-
-    // Covariance Matrix P (4x4)
-    private P: number[][];
-
-    // Process Noise Covariance Q (4x4)
-    private Q: number[][];
+import { Matrix } from "./Matrix";
 
-    // Measurement Noise Covariance R (2x2)
-    private R: number[][];
+export interface KalmanModel {
+    stateSize: number;
+    measurementSize: number;
+    transition(dt: number): Matrix;   // F (stateSize x stateSize)
+    processNoise(dt: number): Matrix; // Q (stateSize x stateSize)
+    measurement: Matrix;              // H (measurementSize x stateSize)
+    measurementNoise: Matrix;         // R (measurementSize x measurementSize)
+}
 
-    // Transition Matrix F (4x4)
-    // [1, 0, 1, 0]
-    // [0, 1, 0, 1]
-    // [0, 0, 1, 0]
-    // [0, 0, 0, 1]
-    private F: number[][];
+export class KalmanFilter {
+    // State Vector (stateSize x 1)
+    private x: Matrix;
 
-    // Measurement Matrix H (2x4)
-    // [1, 0, 0, 0]
-    // [0, 1, 0, 0]
-    private H: number[][];
+    // Covariance Matrix P (stateSize x stateSize)
+    private P: Matrix;
 
     private initialized: boolean = false;
 
-    constructor(processNoise = 0.01, measurementNoise = 0.1) {
-        // Initialize State: 0
-        this.x = [0, 0, 0, 0];
-
-        // Initialize P (Identity)
-        this.P = this.eye(4);
+    constructor(private model: KalmanModel) {
+        this.x = Matrix.zeros(model.stateSize, 1);
+        this.P = Matrix.identity(model.stateSize);
+    }
 
-        // Initialize Q (Process Noise)
-        this.Q = this.eye(4, processNoise);
+    public get isInitialized(): boolean {
+        return this.initialized;
+    }
 
-        // Initialize R (Measurement Noise)
-        this.R = this.eye(2, measurementNoise);
+    public get state(): number[] {
+        return this.x.toArray();
+    }
 
-        // Initialize F (Transition)
-        this.F = [
-            [1, 0, 1, 0],
-            [0, 1, 0, 1],
-            [0, 0, 1, 0],
-            [0, 0, 0, 1]
-        ];
+    public get covariance(): Matrix {
+        return this.P;
+    }
 
-        // Initialize H (Measurement)
-        this.H = [
-            [1, 0, 0, 0],
-            [0, 1, 0, 0]
-        ];
+    /**
+     * Sets the starting state and its uncertainty (diagonal variances).
+     */
+    public initialize(state: number[], variances: number[]) {
+        this.x = Matrix.column(state);
+        this.P = Matrix.diagonal(variances);
+        this.initialized = true;
     }
 
-    public update(mx: number, my: number): { x: number, y: number } {
-        if (!this.initialized) {
-            this.x = [mx, my, 0, 0];
-            this.initialized = true;
-            return { x: mx, y: my };
-        }
+    public predict(dt: number) {
+        const F = this.model.transition(dt);
 
-        // --- PREDICT ---
         // x = F * x
-        this.x = this.multiplyMatrixVector(this.F, this.x);
+        this.x = F.multiply(this.x);
 
         // P = F * P * F^T + Q
-        const FP = this.multiplyMatrices(this.F, this.P);
-        const FT = this.transposeTest(this.F); // Using explicit transpose
-        const FPF_T = this.multiplyMatrices(FP, FT);
-        this.P = this.addMatrices(FPF_T, this.Q);
+        this.P = F.multiply(this.P).multiply(F.transpose()).add(this.model.processNoise(dt));
+    }
 
+    /**
+     * Innovation y = z - H x and its covariance S = H P H^T + R, before correcting.
+     * @param noiseScale Multiplies R for this measurement (adaptive measurement noise)
+     */
+    public innovation(z: number[], noiseScale = 1): { residual: Matrix; covariance: Matrix } {
+        const H = this.model.measurement;
+        const residual = Matrix.column(z).subtract(H.multiply(this.x));
+        const covariance = H.multiply(this.P).multiply(H.transpose()).add(this.model.measurementNoise.scale(noiseScale));
+        return { residual, covariance };
+    }
 
-        // --- CORRECT (UPDATE) ---
-        // y = z - H * x (Innovation)
-        const z = [mx, my];
-        const Hx = this.multiplyMatrixVector(this.H, this.x);
-        const y = [z[0] - Hx[0], z[1] - Hx[1]];
+    /**
+     * Squared Mahalanobis distance of z from the predicted measurement (chi-square with
+     * measurementSize degrees of freedom when the filter is consistent).
+     */
+    public mahalanobis(z: number[], noiseScale = 1): number {
+        const { residual, covariance } = this.innovation(z, noiseScale);
+        const Si = covariance.inverse();
+        if (!Si) return Infinity;
+        return residual.transpose().multiply(Si).multiply(residual).get(0, 0);
+    }
 
-        // S = H * P * H^T + R (Innovation Covariance)
-        const HP = this.multiplyMatrices(this.H, this.P);
-        const HT = this.transposeTest(this.H);
-        const HPH_T = this.multiplyMatrices(HP, HT);
-        const S = this.addMatrices(HPH_T, this.R);
+    public correct(z: number[], noiseScale = 1) {
+        const H = this.model.measurement;
+        const { residual, covariance } = this.innovation(z, noiseScale);
 
         // K = P * H^T * S^-1 (Kalman Gain)
-        const Si = this.invert2x2(S);
-        const PHT = this.multiplyMatrices(this.P, HT);
-        const K = this.multiplyMatrices(PHT, Si);
+        const Si = covariance.inverse();
+        if (!Si) return; // Degenerate innovation covariance: skip the correction
+        const K = this.P.multiply(H.transpose()).multiply(Si);
 
         // x = x + K * y
-        const Ky = this.multiplyMatrixVector(K, y);
-        this.x = [
-            this.x[0] + Ky[0],
-            this.x[1] + Ky[1],
-            this.x[2] + Ky[2],
-            this.x[3] + Ky[3]
-        ];
+        this.x = this.x.add(K.multiply(residual));
 
         // P = (I - K * H) * P
-        const KH = this.multiplyMatrices(K, this.H);
-        const I = this.eye(4);
-        const I_KH = this.subtractMatrices(I, KH);
-        this.P = this.multiplyMatrices(I_KH, this.P);
+        this.P = Matrix.identity(this.model.stateSize).subtract(K.multiply(H)).multiply(this.P);
+    }
 
-        return { x: this.x[0], y: this.x[1] };
+    /**
+     * Predict by dt, then correct with measurement z. Returns the filtered measurement H x.
+     */
+    public update(z: number[], dt: number, noiseScale = 1): number[] {
+        this.predict(dt);
+        this.correct(z, noiseScale);
+        return this.model.measurement.multiply(this.x).toArray();
     }
 
-    // --- Matrix Helpers using vanilla arrays ---
+    public reset() {
+        this.x = Matrix.zeros(this.model.stateSize, 1);
+        this.P = Matrix.identity(this.model.stateSize);
+        this.initialized = false;
+    }
+}
+
+// --- Offline smoothing ---
+
+export interface KalmanStep {
+    z: number[] | null; // Measurement, or null to only predict (gap in the data)
+    dt: number;         // Seconds since the previous step (ignored for the first one)
+    noiseScale?: number;
+}
+
+export interface SmoothedState {
+    state: number[];
+    covariance: Matrix;
+}
+
+/**
+ * Rauch-Tung-Striebel smoother: a forward Kalman pass over the whole sequence, then a backward
+ * pass that corrects every estimate with the measurements that came after it.
+ * Only for recorded data (it needs the future); the result has no lag.
+ * @param initial State and diagonal variances before the first step's measurement
+ */
+export function smoothRTS(
+    model: KalmanModel,
+    steps: KalmanStep[],
+    initial: { state: number[]; variances: number[] }
+): SmoothedState[] {
+    const filter = new KalmanFilter(model);
+    filter.initialize(initial.state, initial.variances);
+
+    // Forward pass: predicted (k | k-1) and filtered (k | k) estimates, and F_k
+    const predicted: { x: Matrix; P: Matrix }[] = [];
+    const filtered: { x: Matrix; P: Matrix }[] = [];
+    const transitions: Matrix[] = [];
+
+    steps.forEach((step, k) => {
+        const dt = k === 0 ? 0 : Math.max(1e-4, step.dt);
+        if (k > 0) filter.predict(dt);
+        transitions.push(model.transition(dt));
+        predicted.push({ x: Matrix.column(filter.state), P: filter.covariance });
+        if (step.z) filter.correct(step.z, step.noiseScale ?? 1);
+        filtered.push({ x: Matrix.column(filter.state), P: filter.covariance });
+    });
+
+    // Backward pass
+    const n = steps.length;
+    const smoothed: { x: Matrix; P: Matrix }[] = new Array(n);
+    if (n === 0) return [];
+    smoothed[n - 1] = filtered[n - 1];
 
-    private eye(n: number, scale = 1.0): number[][] {
-        const m = [];
-        for (let i = 0; i < n; i++) {
-            const row = new Array(n).fill(0);
-            row[i] = scale;
-            m.push(row);
+    for (let k = n - 2; k >= 0; k--) {
+        const { x, P } = filtered[k];
+        const next = predicted[k + 1];
+        const nextInverse = next.P.inverse();
+        if (!nextInverse) {
+            smoothed[k] = filtered[k];
+            continue;
         }
-        return m;
+        // C = P_k|k F^T P_k+1|k^-1
+        const C = P.multiply(transitions[k + 1].transpose()).multiply(nextInverse);
+        const after = smoothed[k + 1];
+        smoothed[k] = {
+            x: x.add(C.multiply(after.x.subtract(next.x))),
+            P: P.add(C.multiply(after.P.subtract(next.P)).multiply(C.transpose())),
+        };
     }
 
-    private multiplyMatrixVector(A: number[][], v: number[]): number[] {
-        const result = new Array(A.length).fill(0);
-        for (let i = 0; i < A.length; i++) {
-            let sum = 0;
-            for (let j = 0; j < v.length; j++) {
-                sum += A[i][j] * v[j];
+    return smoothed.map(({ x, P }) => ({ state: x.toArray(), covariance: P }));
+}
+
+// --- Kinematic motion models ---
+
+export type MotionModel = 'constant-velocity' | 'constant-acceleration';
+
+export interface MotionFilterOptions {
+    model?: MotionModel;
+    // Spectral density of the white noise driving the highest derivative (unit^2 / s^3 for
+    // constant velocity, unit^2 / s^5 for constant acceleration). Higher = follows changes faster.
+    processNoise: number;
+    // Variance of a single measurement (unit^2)
+    measurementNoise: number;
+}
+
+export interface GateOptions {
+    threshold: number;          // Squared Mahalanobis distance above which a measurement is rejected
+    maxConsecutiveRejections: number; // After this many, the filter restarts at the measurement
+    noiseScale?: number;
+}
+
+export interface GatedUpdate {
+    position: number[];
+    accepted: boolean;
+    distance: number; // Squared Mahalanobis distance of the measurement
+}
+
+// Velocity / acceleration are unknown when a filter starts; give them a wide prior
+const INITIAL_DERIVATIVE_VARIANCE = 1e6;
+
+function factorial(n: number): number {
+    return n <= 1 ? 1 : n * factorial(n - 1);
+}
+
+/**
+ * Independent per-axis kinematic model. State layout: all positions, then all velocities
+ * (then all accelerations), so state[order * dims + axis].
+ */
+export function createMotionModel(dims: number, options: MotionFilterOptions): KalmanModel {
+    const order = options.model === 'constant-acceleration' ? 3 : 2;
+    const stateSize = dims * order;
+
+    const measurement = Matrix.zeros(dims, stateSize);
+    for (let axis = 0; axis < dims; axis++) measurement.set(axis, axis, 1);
+
+    return {
+        stateSize,
+        measurementSize: dims,
+        measurement,
+        measurementNoise: Matrix.identity(dims, options.measurementNoise),
+
+        transition(dt: number): Matrix {
+            // Taylor expansion: p += v dt + a dt^2 / 2, v += a dt
+            const F = Matrix.identity(stateSize);
+            for (let from = 1; from < order; from++) {
+                for (let to = 0; to < from; to++) {
+                    const k = from - to;
+                    const coefficient = Math.pow(dt, k) / factorial(k);
+                    for (let axis = 0; axis < dims; axis++) F.set(to * dims + axis, from * dims + axis, coefficient);
+                }
+            }
+            return F;
+        },
+
+        processNoise(dt: number): Matrix {
+            // Continuous white noise on the highest derivative, integrated over dt
+            const Q = Matrix.zeros(stateSize);
+            const top = order - 1;
+            for (let i = 0; i < order; i++) {
+                for (let j = 0; j < order; j++) {
+                    const a = top - i;
+                    const b = top - j;
+                    const value = options.processNoise * Math.pow(dt, a + b + 1)
+                        / ((a + b + 1) * factorial(a) * factorial(b));
+                    for (let axis = 0; axis < dims; axis++) Q.set(i * dims + axis, j * dims + axis, value);
+                }
             }
-            result[i] = sum;
+            return Q;
+        },
+    };
+}
+
+/**
+ * Kalman filter over `dims` independent coordinates (iris offset, 3D position, rotation angles)
+ * with a kinematic motion model. Time steps are in seconds.
+ */
+export class MotionKalmanFilter {
+    private filter: KalmanFilter;
+    private order: number;
+    private rejections = 0;
+
+    constructor(public readonly dims: number, private options: MotionFilterOptions) {
+        this.order = options.model === 'constant-acceleration' ? 3 : 2;
+        this.filter = new KalmanFilter(createMotionModel(dims, options));
+    }
+
+    public get isInitialized(): boolean {
+        return this.filter.isInitialized;
+    }
+
+    public get hasAcceleration(): boolean {
+        return this.order === 3;
+    }
+
+    /**
+     * @param z Measured position (dims values)
+     * @param dt Seconds since the previous update (ignored for the first one)
+     * @returns Filtered position
+     */
+    public update(z: number[], dt: number, noiseScale = 1): number[] {
+        if (!this.filter.isInitialized) {
+            this.initializeAt(z);
+            return [...z];
         }
-        return result;
+        return this.filter.update(z, Math.max(1e-4, dt), noiseScale);
     }
 
-    private multiplyMatrices(A: number[][], B: number[][]): number[][] {
-        const rowsA = A.length, colsA = A[0].length;
-        const rowsB = B.length, colsB = B[0].length;
-        if (colsA !== rowsB) throw new Error("Matrix mismatch");
+    /**
+     * Like update, but measurements whose innovation is implausible (Mahalanobis gating) are
+     * dropped and the prediction is kept instead. A run of rejections means the filter, not the
+     * measurement, is wrong (e.g. a saccade), so it then restarts at the measurement.
+     */
+    public updateGated(z: number[], dt: number, gate: GateOptions): GatedUpdate {
+        const noiseScale = gate.noiseScale ?? 1;
+        if (!this.filter.isInitialized) {
+            this.initializeAt(z);
+            return { position: [...z], accepted: true, distance: 0 };
+        }
 
-        const result = [];
-        for (let i = 0; i < rowsA; i++) {
-            const row = new Array(colsB).fill(0);
-            for (let j = 0; j < colsB; j++) {
-                let sum = 0;
-                for (let k = 0; k < colsA; k++) {
-                    sum += A[i][k] * B[k][j];
-                }
-                row[j] = sum;
+        this.filter.predict(Math.max(1e-4, dt));
+        const distance = this.filter.mahalanobis(z, noiseScale);
+
+        if (distance > gate.threshold) {
+            this.rejections++;
+            if (this.rejections > gate.maxConsecutiveRejections) {
+                this.initializeAt(z);
+                return { position: [...z], accepted: false, distance };
             }
-            result.push(row);
+            return { position: this.position, accepted: false, distance };
         }
-        return result;
+
+        this.rejections = 0;
+        this.filter.correct(z, noiseScale);
+        return { position: this.position, accepted: true, distance };
     }
 
-    private addMatrices(A: number[][], B: number[][]): number[][] {
-        return A.map((row, i) => row.map((val, j) => val + B[i][j]));
+    public get position(): number[] {
+        return this.derivative(0);
     }
 
-    private subtractMatrices(A: number[][], B: number[][]): number[][] {
-        return A.map((row, i) => row.map((val, j) => val - B[i][j]));
+    // Units per second
+    public get velocity(): number[] {
+        return this.derivative(1);
     }
 
-    private transposeTest(A: number[][]): number[][] {
-        return A[0].map((_, c) => A.map(r => r[c]));
+    // Units per second^2 (zero for the constant-velocity model)
+    public get acceleration(): number[] {
+        return this.order === 3 ? this.derivative(2) : new Array(this.dims).fill(0);
     }
 
-    private invert2x2(M: number[][]): number[][] {
-        const det = M[0][0] * M[1][1] - M[0][1] * M[1][0];
-        if (Math.abs(det) < 1e-6) return [[0, 0], [0, 0]]; // Fallback
-        const invDet = 1 / det;
-        return [
-            [M[1][1] * invDet, -M[0][1] * invDet],
-            [-M[1][0] * invDet, M[0][0] * invDet]
-        ];
+    public reset() {
+        this.filter.reset();
+        this.rejections = 0;
     }
+
+    private initializeAt(z: number[]) {
+        const state = new Array(this.dims * this.order).fill(0);
+        const variances = new Array(this.dims * this.order).fill(INITIAL_DERIVATIVE_VARIANCE);
+        z.forEach((v, axis) => {
+            state[axis] = v;
+            variances[axis] = this.options.measurementNoise;
+        });
+        this.filter.initialize(state, variances);
+        this.rejections = 0;
+    }
+
+    private derivative(index: number): number[] {
+        return this.filter.state.slice(index * this.dims, (index + 1) * this.dims);
+    }
+}
+
+export interface MotionSample {
+    timestamp: number;      // ms
+    value: number[] | null; // null where there was no measurement
+    noiseScale?: number;
+}
+
+export interface SmoothedMotion {
+    position: number[];
+    velocity: number[]; // Units per second
+}
+
+/**
+ * Offline counterpart of MotionKalmanFilter: RTS-smoothed positions and velocities for a recorded
+ * track. Samples before the first measurement have no estimate (null); gaps are bridged by the
+ * motion model.
+ */
+export function smoothMotionTrack(
+    samples: MotionSample[],
+    dims: number,
+    options: MotionFilterOptions
+): (SmoothedMotion | null)[] {
+    const first = samples.findIndex(s => s.value !== null);
+    if (first < 0) return samples.map(() => null);
+
+    const order = options.model === 'constant-acceleration' ? 3 : 2;
+    const state = new Array(dims * order).fill(0);
+    const variances = new Array(dims * order).fill(INITIAL_DERIVATIVE_VARIANCE);
+    samples[first].value!.forEach((v, axis) => {
+        state[axis] = v;
+        variances[axis] = options.measurementNoise;
+    });
+
+    const track = samples.slice(first);
+    const steps: KalmanStep[] = track.map((s, k) => ({
+        z: s.value,
+        dt: k === 0 ? 0 : (s.timestamp - track[k - 1].timestamp) / 1000,
+        noiseScale: s.noiseScale,
+    }));
+
+    const smoothed = smoothRTS(createMotionModel(dims, options), steps, { state, variances }).map(({ state }) => ({
+        position: state.slice(0, dims),
+        velocity: state.slice(dims, 2 * dims),
+    }));
+    return [...new Array(first).fill(null), ...smoothed];
 }
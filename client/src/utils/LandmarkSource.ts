@@ -0,0 +1,75 @@
+/**
+ * Landmark Source
+ * Anything that produces MediaPipe-style face landmark frames (live camera, recording, generator).
+ * useHeadTracking only depends on this interface, so detectors can be swapped freely.
+ */
+import { Point3D } from "./FaceUtils";
+
+export interface LandmarkFrame {
+    landmarks: Point3D[] | null; // Normalized (0-1) landmarks of the first face, null if no face was found
+    timestamp: number;           // Capture time in ms (clockNow for live sources)
+    width: number;               // Source image size in pixels
+    height: number;
+    discontinuity?: boolean;     // Stream jumped (seek, loop); stateful filters should restart
+    capturedAt?: number;         // Wall clock when the frame entered the pipeline, if not `timestamp` (replays)
+}
+
+/**
+ * Millisecond wall clock shared by the main thread and workers (performance.now() alone has a
+ * per-context origin), used for capture timestamps and latency measurement.
+ */
+export function clockNow(): number {
+    return performance.timeOrigin + performance.now();
+}
+
+export type LandmarkListener = (frame: LandmarkFrame) => void;
+
+export type LandmarkSourceKind = 'facemesh' | 'face-landmarker' | 'recorded' | 'synthetic';
+
+export interface LandmarkSource {
+    readonly kind: LandmarkSourceKind;
+
+    /**
+     * Starts producing frames. Resolves once the source is ready (libraries loaded, camera open).
+     */
+    start(listener: LandmarkListener): Promise<void>;
+
+    stop(): void;
+
+    /**
+     * While paused the source keeps running but skips inference / emission.
+     */
+    setPaused(paused: boolean): void;
+}
+
+// Default capture resolution for live sources
+export const VIDEO_WIDTH = 640;
+export const VIDEO_HEIGHT = 480;
+
+/**
+ * Injects a script tag once and resolves when it has loaded.
+ */
+export function loadScript(src: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (document.querySelector(`script[src="${src}"]`)) {
+            resolve();
+            return;
+        }
+        const script = document.createElement("script");
+        script.src = src;
+        script.async = true;
+        script.onload = () => resolve();
+        script.onerror = () => reject(new Error(`Failed to load ${src}`));
+        document.body.appendChild(script);
+    });
+}
+
+/**
+ * Opens the webcam into a video element and starts playback.
+ */
+export async function startCamera(video: HTMLVideoElement, width = VIDEO_WIDTH, height = VIDEO_HEIGHT): Promise<MediaStream> {
+    const stream = await navigator.mediaDevices.getUserMedia({ video: { width, height } });
+    video.srcObject = stream;
+    await video.play();
+    return stream;
+}
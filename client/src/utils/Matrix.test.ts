@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { Matrix } from "./Matrix";
+
+function expectMatrixClose(actual: Matrix, expected: number[][], digits = 10) {
+    expect(actual.rows).toBe(expected.length);
+    expect(actual.cols).toBe(expected[0].length);
+    actual.toRows().forEach((row, i) => row.forEach((v, j) => expect(v).toBeCloseTo(expected[i][j], digits)));
+}
+
+describe("Matrix", () => {
+    const a = Matrix.fromRows([[1, 2, 3], [4, 5, 6]]);
+    const b = Matrix.fromRows([[7, 8], [9, 10], [11, 12]]);
+
+    it("multiplies", () => {
+        expectMatrixClose(a.multiply(b), [[58, 64], [139, 154]]);
+        expectMatrixClose(Matrix.identity(2).multiply(a), a.toRows());
+    });
+
+    it("adds, subtracts and scales element-wise", () => {
+        expectMatrixClose(a.add(a), [[2, 4, 6], [8, 10, 12]]);
+        expectMatrixClose(a.subtract(a.scale(2)), [[-1, -2, -3], [-4, -5, -6]]);
+    });
+
+    it("transposes", () => {
+        expectMatrixClose(a.transpose(), [[1, 4], [2, 5], [3, 6]]);
+    });
+
+    it("does not mutate its inputs", () => {
+        const before = a.toRows();
+        a.add(a);
+        a.scale(3);
+        a.transpose();
+        expect(a.toRows()).toEqual(before);
+    });
+
+    it("rejects mismatched shapes", () => {
+        expect(() => a.multiply(a)).toThrow(/mismatch/);
+        expect(() => a.add(b)).toThrow(/mismatch/);
+        expect(() => new Matrix(2, 2, [1, 2, 3])).toThrow(/does not match/);
+        expect(() => a.inverse()).toThrow(/square/);
+    });
+
+    it.each([
+        { name: "diagonal", rows: [[2, 0, 0], [0, 4, 0], [0, 0, 0.5]] },
+        { name: "needing a pivot", rows: [[0, 1, 2], [1, 0, 3], [4, -3, 8]] },
+        { name: "symmetric positive definite", rows: [[4, 1, 0.5], [1, 3, 0.2], [0.5, 0.2, 2]] },
+    ])("inverts a $name matrix", ({ rows }) => {
+        const m = Matrix.fromRows(rows);
+        const inverse = m.inverse();
+        expect(inverse).not.toBeNull();
+        expectMatrixClose(m.multiply(inverse!), Matrix.identity(3).toRows());
+        expectMatrixClose(inverse!.multiply(m), Matrix.identity(3).toRows());
+    });
+
+    it("returns null for a singular matrix", () => {
+        expect(Matrix.fromRows([[1, 2], [2, 4]]).inverse()).toBeNull();
+        expect(Matrix.zeros(3).inverse()).toBeNull();
+    });
+
+    it("builds vectors and diagonals", () => {
+        expectMatrixClose(Matrix.column([1, 2, 3]), [[1], [2], [3]]);
+        expectMatrixClose(Matrix.diagonal([1, 2]), [[1, 0], [0, 2]]);
+        expectMatrixClose(Matrix.identity(2, 5), [[5, 0], [0, 5]]);
+    });
+});
@@ -0,0 +1,145 @@
+/**
+ * Small dense matrix type for the filters (row-major Float64Array).
+ * Operations return new matrices; nothing here mutates its inputs.
+ */
+export class Matrix {
+    public readonly data: Float64Array;
+
+    constructor(public readonly rows: number, public readonly cols: number, data?: ArrayLike<number>) {
+        if (data && data.length !== rows * cols) {
+            throw new Error(`Matrix data length ${data.length} does not match ${rows}x${cols}`);
+        }
+        this.data = data ? Float64Array.from(data) : new Float64Array(rows * cols);
+    }
+
+    static zeros(rows: number, cols: number = rows): Matrix {
+        return new Matrix(rows, cols);
+    }
+
+    static identity(n: number, scale = 1): Matrix {
+        const m = new Matrix(n, n);
+        for (let i = 0; i < n; i++) m.data[i * n + i] = scale;
+        return m;
+    }
+
+    static diagonal(values: number[]): Matrix {
+        const n = values.length;
+        const m = new Matrix(n, n);
+        values.forEach((v, i) => { m.data[i * n + i] = v; });
+        return m;
+    }
+
+    static fromRows(rows: number[][]): Matrix {
+        const cols = rows.length > 0 ? rows[0].length : 0;
+        return new Matrix(rows.length, cols, rows.flat());
+    }
+
+    // n x 1 column vector
+    static column(values: ArrayLike<number>): Matrix {
+        return new Matrix(values.length, 1, values);
+    }
+
+    public get(row: number, col: number): number {
+        return this.data[row * this.cols + col];
+    }
+
+    public set(row: number, col: number, value: number) {
+        this.data[row * this.cols + col] = value;
+    }
+
+    public multiply(other: Matrix): Matrix {
+        if (this.cols !== other.rows) {
+            throw new Error(`Matrix mismatch: ${this.rows}x${this.cols} * ${other.rows}x${other.cols}`);
+        }
+        const out = new Matrix(this.rows, other.cols);
+        for (let i = 0; i < this.rows; i++) {
+            for (let k = 0; k < this.cols; k++) {
+                const a = this.data[i * this.cols + k];
+                if (a === 0) continue;
+                for (let j = 0; j < other.cols; j++) {
+                    out.data[i * other.cols + j] += a * other.data[k * other.cols + j];
+                }
+            }
+        }
+        return out;
+    }
+
+    public add(other: Matrix): Matrix {
+        this.assertSameShape(other);
+        return new Matrix(this.rows, this.cols, this.data.map((v, i) => v + other.data[i]));
+    }
+
+    public subtract(other: Matrix): Matrix {
+        this.assertSameShape(other);
+        return new Matrix(this.rows, this.cols, this.data.map((v, i) => v - other.data[i]));
+    }
+
+    public scale(s: number): Matrix {
+        return new Matrix(this.rows, this.cols, this.data.map(v => v * s));
+    }
+
+    public transpose(): Matrix {
+        const out = new Matrix(this.cols, this.rows);
+        for (let i = 0; i < this.rows; i++) {
+            for (let j = 0; j < this.cols; j++) out.data[j * this.rows + i] = this.data[i * this.cols + j];
+        }
+        return out;
+    }
+
+    /**
+     * Gauss-Jordan inverse with partial pivoting; null if (numerically) singular.
+     */
+    public inverse(): Matrix | null {
+        if (this.rows !== this.cols) throw new Error("Only square matrices can be inverted");
+        const n = this.rows;
+        const a = Float64Array.from(this.data);
+        const inv = Matrix.identity(n).data;
+
+        for (let col = 0; col < n; col++) {
+            let pivot = col;
+            for (let r = col + 1; r < n; r++) {
+                if (Math.abs(a[r * n + col]) > Math.abs(a[pivot * n + col])) pivot = r;
+            }
+            if (Math.abs(a[pivot * n + col]) < 1e-12) return null;
+
+            if (pivot !== col) {
+                for (let j = 0; j < n; j++) {
+                    [a[col * n + j], a[pivot * n + j]] = [a[pivot * n + j], a[col * n + j]];
+                    [inv[col * n + j], inv[pivot * n + j]] = [inv[pivot * n + j], inv[col * n + j]];
+                }
+            }
+
+            const d = a[col * n + col];
+            for (let j = 0; j < n; j++) {
+                a[col * n + j] /= d;
+                inv[col * n + j] /= d;
+            }
+
+            for (let r = 0; r < n; r++) {
+                if (r === col) continue;
+                const f = a[r * n + col];
+                if (f === 0) continue;
+                for (let j = 0; j < n; j++) {
+                    a[r * n + j] -= f * a[col * n + j];
+                    inv[r * n + j] -= f * inv[col * n + j];
+                }
+            }
+        }
+        return new Matrix(n, n, inv);
+    }
+
+    // Column vector (or any matrix) as a flat array
+    public toArray(): number[] {
+        return Array.from(this.data);
+    }
+
+    public toRows(): number[][] {
+        return Array.from({ length: this.rows }, (_, i) => Array.from(this.data.subarray(i * this.cols, (i + 1) * this.cols)));
+    }
+
+    private assertSameShape(other: Matrix) {
+        if (this.rows !== other.rows || this.cols !== other.cols) {
+            throw new Error(`Matrix mismatch: ${this.rows}x${this.cols} vs ${other.rows}x${other.cols}`);
+        }
+    }
+}
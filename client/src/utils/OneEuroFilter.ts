@@ -2,6 +2,14 @@
  * One Euro Filter for smoothing noisy signals with minimal lag.
  * Based on: Casiez, G., Roussel, N., & Vogel, D. (2012). 1€ Filter: A Simple Speed-based Low-pass Filter for Noisy Input in Interactive Systems.
  */
+
+// Tunable parameters, plain data so they can be stored and sent to the tracking worker
+export interface OneEuroParams {
+    minCutoff: number; // Hz at rest (lower = smoother)
+    beta: number;      // Cutoff increase per unit/s of speed (higher = less lag on fast moves)
+    dCutoff: number;   // Hz, smoothing of the speed estimate
+}
+
 export class OneEuroFilter {
     private minCutoff: number;
     private beta: number;
@@ -19,6 +27,29 @@ export class OneEuroFilter {
         this.tPrev = null;
     }
 
+    get params(): OneEuroParams {
+        return { minCutoff: this.minCutoff, beta: this.beta, dCutoff: this.dCutoff };
+    }
+
+    // Parameters can change between samples; the filter state is kept
+    setParams(params: Partial<OneEuroParams>) {
+        if (params.minCutoff !== undefined) this.setMinCutoff(params.minCutoff);
+        if (params.beta !== undefined) this.setBeta(params.beta);
+        if (params.dCutoff !== undefined) this.setDCutoff(params.dCutoff);
+    }
+
+    setMinCutoff(minCutoff: number) {
+        this.minCutoff = minCutoff;
+    }
+
+    setBeta(beta: number) {
+        this.beta = beta;
+    }
+
+    setDCutoff(dCutoff: number) {
+        this.dCutoff = dCutoff;
+    }
+
     reset() {
         this.xPrev = null;
         this.dxPrev = null;
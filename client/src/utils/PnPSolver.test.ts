@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { Euler, Matrix4 } from "three";
+import { CameraIntrinsics, PNP_LANDMARKS, PnPSolver, projectPoint, transformPoint } from "./PnPSolver";
+import { FACE_MODEL_MM } from "./FaceModel";
+import { MAX_POSE_REPROJECTION_ERROR } from "./HeadTrackingPipeline";
+import { Point3D } from "./FaceUtils";
+
+const K: CameraIntrinsics = { focalLength: 640, cx: 320, cy: 240 };
+const DEG = Math.PI / 180;
+
+interface Pose {
+    yaw: number;   // rad, the solver's sign convention
+    pitch: number;
+    roll: number;
+    translation: Point3D; // mm
+}
+
+// Model -> camera rotation of a head pose: the facing rotation (diag(1, -1, -1)) after the head turn
+function poseRotation({ yaw, pitch, roll }: Pose): number[] {
+    const e = new Matrix4().makeRotationFromEuler(new Euler(-pitch, yaw, roll, 'YXZ')).elements; // column-major
+    const H = [e[0], e[4], e[8], e[1], e[5], e[9], e[2], e[6], e[10]];
+    return [H[0], H[1], H[2], -H[3], -H[4], -H[5], -H[6], -H[7], -H[8]];
+}
+
+// The PnP landmarks of FACE_MODEL_MM seen in `pose`, in pixels
+function projectFace(pose: Pose, perturb: (p: Point3D, index: number) => Point3D = p => p): Point3D[] {
+    const R = poseRotation(pose);
+    const landmarks: Point3D[] = [];
+    for (const i of PNP_LANDMARKS) {
+        const projected = projectPoint(transformPoint(R, pose.translation, FACE_MODEL_MM[i]), K);
+        landmarks[i] = perturb({ x: projected.x, y: projected.y, z: 0 }, i);
+    }
+    return landmarks;
+}
+
+// Park-Miller, uniform in -0.5..0.5
+function noise(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state * 16807) % 2147483647;
+        return state / 2147483647 - 0.5;
+    };
+}
+
+describe("PnPSolver", () => {
+    it.each<Pose>([
+        { yaw: 0, pitch: 0, roll: 0, translation: { x: 0, y: 0, z: 600 } },
+        { yaw: 20 * DEG, pitch: 0, roll: 0, translation: { x: 30, y: -20, z: 550 } },
+        { yaw: -15 * DEG, pitch: 10 * DEG, roll: 5 * DEG, translation: { x: -60, y: 40, z: 700 } },
+        { yaw: 5 * DEG, pitch: -20 * DEG, roll: -10 * DEG, translation: { x: 10, y: 80, z: 450 } },
+    ])("recovers yaw $yaw, pitch $pitch, roll $roll", pose => {
+        const solved = new PnPSolver().solve(projectFace(pose), K);
+
+        expect(solved).not.toBeNull();
+        expect(solved!.yaw).toBeCloseTo(pose.yaw, 4);
+        expect(solved!.pitch).toBeCloseTo(pose.pitch, 4);
+        expect(solved!.roll).toBeCloseTo(pose.roll, 4);
+        expect(solved!.translation.x).toBeCloseTo(pose.translation.x, 1);
+        expect(solved!.translation.y).toBeCloseTo(pose.translation.y, 1);
+        expect(solved!.translation.z).toBeCloseTo(pose.translation.z, 1);
+        expect(solved!.reprojectionError).toBeLessThan(1e-3);
+    });
+
+    it("starts from the previous frame's pose", () => {
+        const pose = { yaw: 12 * DEG, pitch: 6 * DEG, roll: 0, translation: { x: 20, y: 10, z: 600 } };
+        const solver = new PnPSolver();
+        const cold = solver.solve(projectFace(pose), K)!;
+        const moved = solver.solve(projectFace({ ...pose, yaw: 13 * DEG }), K)!;
+
+        expect(moved.yaw).toBeCloseTo(13 * DEG, 4);
+        expect(moved.iterations).toBeLessThan(cold.iterations);
+    });
+
+    it("keeps the fit of noisy landmarks within the pipeline's reprojection limit", () => {
+        const pose = { yaw: 10 * DEG, pitch: -5 * DEG, roll: 3 * DEG, translation: { x: 15, y: 25, z: 600 } };
+        // +-1 px of landmark jitter
+        const random = noise(7);
+        const solved = new PnPSolver().solve(projectFace(pose, p => ({ x: p.x + 2 * random(), y: p.y + 2 * random(), z: 0 })), K)!;
+
+        expect(solved.reprojectionError).toBeGreaterThan(0.1);
+        expect(solved.reprojectionError).toBeLessThan(1);
+        expect(solved.reprojectionError).toBeLessThan(MAX_POSE_REPROJECTION_ERROR);
+        expect(Math.abs(solved.yaw - pose.yaw)).toBeLessThan(2 * DEG);
+        expect(Math.abs(solved.pitch - pose.pitch)).toBeLessThan(2 * DEG);
+        expect(Math.abs(solved.translation.z - pose.translation.z)).toBeLessThan(15);
+    });
+
+    it("reports a bad fit when a landmark is far off, so the pipeline degrades", () => {
+        const pose = { yaw: 0, pitch: 0, roll: 0, translation: { x: 0, y: 0, z: 600 } };
+        // The chin jumps 60 px (e.g. a hand in front of the face)
+        const solved = new PnPSolver().solve(projectFace(pose, (p, i) => (i === 152 ? { ...p, x: p.x + 60 } : p)), K)!;
+
+        expect(solved).not.toBeNull();
+        expect(solved.reprojectionError).toBeGreaterThan(MAX_POSE_REPROJECTION_ERROR);
+    });
+
+    it("needs every PnP landmark", () => {
+        const landmarks = projectFace({ yaw: 0, pitch: 0, roll: 0, translation: { x: 0, y: 0, z: 600 } });
+        delete landmarks[PNP_LANDMARKS[3]];
+        expect(new PnPSolver().solve(landmarks, K)).toBeNull();
+    });
+});
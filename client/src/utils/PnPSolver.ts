@@ -0,0 +1,214 @@
+/**
+ * Perspective-n-Point head pose solver.
+ * Fits the rigid transform (rotation + translation) that best projects FACE_MODEL_MM onto the
+ * detected landmarks, using Levenberg–Marquardt on the reprojection error of a pinhole camera.
+ *
+ * Camera frame: +X image right, +Y image down, +Z forward out of the lens (mm).
+ * Head frame (FaceRotation): model axes, so yaw turns about the face's up axis.
+ */
+import { Euler, Matrix4 } from "three";
+import { Point2D, Point3D } from "./FaceUtils";
+import { FACE_MODEL_MM } from "./FaceModel";
+import { solveLinearSystem } from "./math";
+
+// Landmarks that do not move with blinks or gaze (mouth corners are kept for the lower face)
+export const PNP_LANDMARKS = [10, 168, 1, 2, 152, 234, 454, 61, 291, 33, 133, 263, 362];
+
+export interface CameraIntrinsics {
+    focalLength: number; // px
+    cx: number;
+    cy: number;
+}
+
+export interface HeadPose {
+    rotation: number[];         // 3x3 row-major, model -> camera
+    translation: Point3D;       // Model origin in camera coordinates (mm)
+    yaw: number;                // Head rotation relative to facing the camera (radians)
+    pitch: number;
+    roll: number;
+    reprojectionError: number;  // RMS in px
+    iterations: number;
+}
+
+// Model -> camera when the face looks straight into the lens: 180 deg about X (Y up -> down, Z towards -> away)
+const FACING_ROTATION_VECTOR = [Math.PI, 0, 0];
+
+const MAX_ITERATIONS = 30;
+const CONVERGENCE_STEP = 1e-6;
+
+/**
+ * Rotation vector (axis * angle) to 3x3 row-major matrix.
+ */
+export function rodrigues(r: number[]): number[] {
+    const theta = Math.hypot(r[0], r[1], r[2]);
+    if (theta < 1e-12) return [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+    const kx = r[0] / theta, ky = r[1] / theta, kz = r[2] / theta;
+    const c = Math.cos(theta), s = Math.sin(theta), v = 1 - c;
+    return [
+        c + kx * kx * v, kx * ky * v - kz * s, kx * kz * v + ky * s,
+        ky * kx * v + kz * s, c + ky * ky * v, ky * kz * v - kx * s,
+        kz * kx * v - ky * s, kz * ky * v + kx * s, c + kz * kz * v,
+    ];
+}
+
+export function transformPoint(R: number[], t: Point3D, p: Point3D): Point3D {
+    return {
+        x: R[0] * p.x + R[1] * p.y + R[2] * p.z + t.x,
+        y: R[3] * p.x + R[4] * p.y + R[5] * p.z + t.y,
+        z: R[6] * p.x + R[7] * p.y + R[8] * p.z + t.z,
+    };
+}
+
+export function projectPoint(p: Point3D, K: CameraIntrinsics): Point2D {
+    const z = Math.max(1e-6, p.z);
+    return { x: K.cx + (K.focalLength * p.x) / z, y: K.cy + (K.focalLength * p.y) / z };
+}
+
+/**
+ * Head Euler angles relative to the facing pose, in the sign convention the pipeline has always used
+ * (yaw positive when the nose moves to image right, pitch positive when looking up).
+ */
+function headAngles(R: number[]): { yaw: number; pitch: number; roll: number } {
+    // H = F^T * R, with F = diag(1, -1, -1) the facing rotation
+    const H = [
+        R[0], R[1], R[2],
+        -R[3], -R[4], -R[5],
+        -R[6], -R[7], -R[8],
+    ];
+    const m = new Matrix4().set(
+        H[0], H[1], H[2], 0,
+        H[3], H[4], H[5], 0,
+        H[6], H[7], H[8], 0,
+        0, 0, 0, 1
+    );
+    const euler = new Euler().setFromRotationMatrix(m, 'YXZ');
+    return { yaw: euler.y, pitch: -euler.x, roll: euler.z };
+}
+
+export class PnPSolver {
+    // Previous solution (rvec + t), reused as the starting point for the next frame
+    private previous: number[] | null = null;
+
+    constructor(private landmarkIndices: number[] = PNP_LANDMARKS) { }
+
+    public reset() {
+        this.previous = null;
+    }
+
+    /**
+     * @param landmarksPx All face landmarks in pixel coordinates
+     */
+    public solve(landmarksPx: Point3D[], K: CameraIntrinsics): HeadPose | null {
+        const model = this.landmarkIndices.map(i => FACE_MODEL_MM[i]);
+        const image = this.landmarkIndices.map(i => landmarksPx[i]);
+        if (image.some(p => !p)) return null;
+
+        let params = this.previous ? [...this.previous] : this.initialGuess(model, image, K);
+        let residuals = this.residuals(params, model, image, K);
+        let cost = sumSquares(residuals);
+        let lambda = 1e-3;
+        let iterations = 0;
+
+        for (; iterations < MAX_ITERATIONS; iterations++) {
+            const J = this.jacobian(params, model, image, K);
+
+            // Normal equations: (J^T J + lambda * diag(J^T J)) delta = -J^T r
+            const JtJ = Array.from({ length: 6 }, () => new Array(6).fill(0));
+            const Jtr = new Array(6).fill(0);
+            for (let row = 0; row < residuals.length; row++) {
+                for (let a = 0; a < 6; a++) {
+                    Jtr[a] += J[row][a] * residuals[row];
+                    for (let b = 0; b < 6; b++) JtJ[a][b] += J[row][a] * J[row][b];
+                }
+            }
+
+            let improved = false;
+            while (lambda < 1e8) {
+                const A = JtJ.map((row, a) => row.map((v, b) => (a === b ? v * (1 + lambda) + 1e-9 : v)));
+                const delta = solveLinearSystem(A, Jtr.map(v => -v));
+                if (!delta) {
+                    lambda *= 10;
+                    continue;
+                }
+
+                const candidate = params.map((p, k) => p + delta[k]);
+                const candidateResiduals = this.residuals(candidate, model, image, K);
+                const candidateCost = sumSquares(candidateResiduals);
+
+                if (candidateCost < cost) {
+                    const step = Math.sqrt(sumSquares(delta));
+                    params = candidate;
+                    residuals = candidateResiduals;
+                    cost = candidateCost;
+                    lambda = Math.max(1e-7, lambda / 10);
+                    improved = step > CONVERGENCE_STEP;
+                    break;
+                }
+                lambda *= 10;
+            }
+            if (!improved) break;
+        }
+
+        // Reject solutions behind the camera
+        if (params[5] <= 0) {
+            this.previous = null;
+            return null;
+        }
+
+        this.previous = params;
+        const R = rodrigues(params.slice(0, 3));
+        return {
+            rotation: R,
+            translation: { x: params[3], y: params[4], z: params[5] },
+            ...headAngles(R),
+            reprojectionError: Math.sqrt(cost / image.length),
+            iterations,
+        };
+    }
+
+    private initialGuess(model: Point3D[], image: Point3D[], K: CameraIntrinsics): number[] {
+        // Depth from the outer eye corner distance, position from the image centroid
+        const modelWidth = Math.abs(FACE_MODEL_MM[263].x - FACE_MODEL_MM[33].x);
+        const i33 = this.landmarkIndices.indexOf(33);
+        const i263 = this.landmarkIndices.indexOf(263);
+        const imageWidth = i33 >= 0 && i263 >= 0
+            ? Math.hypot(image[i263].x - image[i33].x, image[i263].y - image[i33].y)
+            : 0;
+        const z = imageWidth > 1 ? (K.focalLength * modelWidth) / imageWidth : 600;
+
+        const u = image.reduce((sum, p) => sum + p.x, 0) / image.length;
+        const v = image.reduce((sum, p) => sum + p.y, 0) / image.length;
+        return [...FACING_ROTATION_VECTOR, ((u - K.cx) * z) / K.focalLength, ((v - K.cy) * z) / K.focalLength, z];
+    }
+
+    private residuals(params: number[], model: Point3D[], image: Point3D[], K: CameraIntrinsics): number[] {
+        const R = rodrigues(params.slice(0, 3));
+        const t = { x: params[3], y: params[4], z: params[5] };
+        const out: number[] = [];
+        model.forEach((p, i) => {
+            const projected = projectPoint(transformPoint(R, t, p), K);
+            out.push(projected.x - image[i].x, projected.y - image[i].y);
+        });
+        return out;
+    }
+
+    private jacobian(params: number[], model: Point3D[], image: Point3D[], K: CameraIntrinsics): number[][] {
+        // Central differences; rotation in radians, translation in mm
+        const steps = [1e-5, 1e-5, 1e-5, 1e-3, 1e-3, 1e-3];
+        const columns = steps.map((h, k) => {
+            const plus = [...params];
+            const minus = [...params];
+            plus[k] += h;
+            minus[k] -= h;
+            const rPlus = this.residuals(plus, model, image, K);
+            const rMinus = this.residuals(minus, model, image, K);
+            return rPlus.map((v, i) => (v - rMinus[i]) / (2 * h));
+        });
+        return columns[0].map((_, row) => columns.map(col => col[row]));
+    }
+}
+
+function sumSquares(values: number[]): number {
+    return values.reduce((sum, v) => sum + v * v, 0);
+}
@@ -0,0 +1,218 @@
+/**
+ * Pose Codec
+ * Packs a TrackingResult into a flat Float64Array so the tracking worker can transfer it to the
+ * main thread without structured-cloning a tree of objects every frame. Landmarks travel as a
+ * separate Float32Array (x, y, z per point) only because the session recorder needs them.
+ *
+ * encodeTrackingResult and decodeTrackingResult must read/write the fields in the same order.
+ */
+import { Point3D } from "./FaceUtils";
+import { IrisGate, IrisMeasurementStatus, TrackingResult } from "./HeadTrackingPipeline";
+import { Eye, EyeGaze } from "./Binocular";
+import { TRACKING_STATES } from "./TrackingState";
+
+const IRIS_STATUSES: IrisMeasurementStatus[] = ['accepted', 'rejected', 'held'];
+const EYES: Eye[] = ['left', 'right'];
+
+class Writer {
+    public readonly values: number[] = [];
+
+    num(v: number) {
+        this.values.push(v);
+    }
+
+    bool(v: boolean) {
+        this.values.push(v ? 1 : 0);
+    }
+}
+
+class Reader {
+    private i = 0;
+
+    constructor(private values: Float64Array) { }
+
+    num(): number {
+        return this.values[this.i++];
+    }
+
+    bool(): boolean {
+        return this.values[this.i++] !== 0;
+    }
+
+    nums(count: number): number[] {
+        const out = Array.from(this.values.subarray(this.i, this.i + count));
+        this.i += count;
+        return out;
+    }
+}
+
+export function encodeTrackingResult(result: TrackingResult): Float64Array {
+    const w = new Writer();
+    w.num(result.timestamp);
+    w.num(result.capturedAt);
+    w.num(result.processedAt);
+
+    w.bool(result.blink.isBlinking);
+    w.num(result.blink.blinkStrength);
+    w.num(result.blink.leftEAR);
+    w.num(result.blink.rightEAR);
+    w.bool(result.blink.leftIrisVisible);
+    w.bool(result.blink.rightIrisVisible);
+    w.bool(result.blink.leftClosed);
+    w.bool(result.blink.rightClosed);
+    w.bool(result.blink.leftWink);
+    w.bool(result.blink.rightWink);
+
+    w.num(result.rotation.yaw);
+    w.num(result.rotation.pitch);
+    w.num(result.rotation.roll);
+
+    w.num(result.orientation.x);
+    w.num(result.orientation.y);
+    w.num(result.orientation.z);
+    w.num(result.orientation.w);
+
+    w.num(result.gaze.yaw);
+    w.num(result.gaze.pitch);
+
+    w.num(result.iris.x);
+    w.num(result.iris.y);
+
+    w.num(result.irisOffsets.right.x);
+    w.num(result.irisOffsets.right.y);
+    w.num(result.irisOffsets.left.x);
+    w.num(result.irisOffsets.left.y);
+
+    const writeEyeGaze = (gaze: EyeGaze) => {
+        w.num(gaze.yaw);
+        w.num(gaze.pitch);
+        w.num(gaze.direction);
+    };
+    const binocular = result.binocular;
+    writeEyeGaze(binocular.right);
+    writeEyeGaze(binocular.left);
+    w.num(binocular.disparity);
+    w.num(binocular.vergence);
+    w.num(binocular.ipdMm);
+    w.num(binocular.vergenceDepthMm ?? NaN);
+    w.num(binocular.failedEye ? EYES.indexOf(binocular.failedEye) : -1);
+
+    w.num(result.irisSize.right);
+    w.num(result.irisSize.left);
+    w.num(result.irisSize.rightNormalized);
+    w.num(result.irisSize.leftNormalized);
+    w.bool(result.irisSize.held);
+
+    w.num(result.eyePos.x);
+    w.num(result.eyePos.y);
+    w.num(result.eyePos.z);
+    w.num(result.distanceMm);
+
+    const pose = result.headPose;
+    pose.rotation.forEach(v => w.num(v));
+    w.num(pose.translation.x);
+    w.num(pose.translation.y);
+    w.num(pose.translation.z);
+    w.num(pose.yaw);
+    w.num(pose.pitch);
+    w.num(pose.roll);
+    w.num(pose.reprojectionError);
+    w.num(pose.iterations);
+
+    const writeGate = (gate: IrisGate) => {
+        w.num(IRIS_STATUSES.indexOf(gate.status));
+        w.num(gate.noiseScale);
+        w.num(gate.distance);
+    };
+    writeGate(result.irisFilter.right);
+    writeGate(result.irisFilter.left);
+    w.num(result.irisFilter.rejectedTotal);
+
+    w.num(TRACKING_STATES.indexOf(result.trackingState));
+
+    w.num(result.motion.velocity.x);
+    w.num(result.motion.velocity.y);
+    w.num(result.motion.velocity.z);
+    w.num(result.motion.acceleration.x);
+    w.num(result.motion.acceleration.y);
+    w.num(result.motion.acceleration.z);
+
+    return Float64Array.from(w.values);
+}
+
+export function decodeTrackingResult(values: Float64Array): TrackingResult {
+    const r = new Reader(values);
+    const readGate = (): IrisGate => ({ status: IRIS_STATUSES[r.num()], noiseScale: r.num(), distance: r.num() });
+    const readEyeGaze = (): EyeGaze => ({ yaw: r.num(), pitch: r.num(), direction: r.num() });
+    const readNullable = (): number | null => {
+        const v = r.num();
+        return Number.isNaN(v) ? null : v;
+    };
+    return {
+        timestamp: r.num(),
+        capturedAt: r.num(),
+        processedAt: r.num(),
+        blink: {
+            isBlinking: r.bool(),
+            blinkStrength: r.num(),
+            leftEAR: r.num(),
+            rightEAR: r.num(),
+            leftIrisVisible: r.bool(),
+            rightIrisVisible: r.bool(),
+            leftClosed: r.bool(),
+            rightClosed: r.bool(),
+            leftWink: r.bool(),
+            rightWink: r.bool(),
+        },
+        rotation: { yaw: r.num(), pitch: r.num(), roll: r.num() },
+        orientation: { x: r.num(), y: r.num(), z: r.num(), w: r.num() },
+        gaze: { yaw: r.num(), pitch: r.num() },
+        iris: { x: r.num(), y: r.num() },
+        irisOffsets: { right: { x: r.num(), y: r.num() }, left: { x: r.num(), y: r.num() } },
+        binocular: {
+            right: readEyeGaze(),
+            left: readEyeGaze(),
+            disparity: r.num(),
+            vergence: r.num(),
+            ipdMm: r.num(),
+            vergenceDepthMm: readNullable(),
+            failedEye: EYES[r.num()] ?? null,
+        },
+        irisSize: { right: r.num(), left: r.num(), rightNormalized: r.num(), leftNormalized: r.num(), held: r.bool() },
+        eyePos: { x: r.num(), y: r.num(), z: r.num() },
+        distanceMm: r.num(),
+        headPose: {
+            rotation: r.nums(9),
+            translation: { x: r.num(), y: r.num(), z: r.num() },
+            yaw: r.num(),
+            pitch: r.num(),
+            roll: r.num(),
+            reprojectionError: r.num(),
+            iterations: r.num(),
+        },
+        irisFilter: { right: readGate(), left: readGate(), rejectedTotal: r.num() },
+        trackingState: TRACKING_STATES[r.num()],
+        motion: {
+            velocity: { x: r.num(), y: r.num(), z: r.num() },
+            acceleration: { x: r.num(), y: r.num(), z: r.num() },
+        },
+    };
+}
+
+export function encodeLandmarks(landmarks: Point3D[]): Float32Array {
+    const out = new Float32Array(landmarks.length * 3);
+    landmarks.forEach((p, i) => {
+        out[i * 3] = p.x;
+        out[i * 3 + 1] = p.y;
+        out[i * 3 + 2] = p.z;
+    });
+    return out;
+}
+
+export function decodeLandmarks(values: Float32Array): Point3D[] {
+    const points: Point3D[] = [];
+    for (let i = 0; i + 2 < values.length; i += 3) {
+        points.push({ x: values[i], y: values[i + 1], z: values[i + 2] });
+    }
+    return points;
+}
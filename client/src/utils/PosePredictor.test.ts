@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { LatencyMonitor, MAX_PREDICTION_MS, predictEyePosition, PredictionMode } from "./PosePredictor";
+import { EyeMotion, TrackingResult } from "./HeadTrackingPipeline";
+import { TrackingState } from "./TrackingState";
+
+const CAPTURED_AT = 10000;
+const EYE_POS = { x: 10, y: -20, z: 600 };
+// mm/ms and mm/ms^2
+const MOTION: EyeMotion = { velocity: { x: 0.1, y: -0.05, z: 0.2 }, acceleration: { x: 0.001, y: 0.002, z: -0.004 } };
+
+// Only the fields the predictor and the latency monitor read
+function result(fields: Partial<Pick<TrackingResult, 'capturedAt' | 'eyePos' | 'motion' | 'trackingState'>> = {}): TrackingResult {
+    return { capturedAt: CAPTURED_AT, eyePos: EYE_POS, motion: MOTION, trackingState: 'tracking', ...fields } as TrackingResult;
+}
+
+describe("predictEyePosition", () => {
+    it.each<{ mode: PredictionMode; horizon: number; expected: { x: number; y: number; z: number } }>([
+        // p + v t
+        { mode: 'velocity', horizon: 50, expected: { x: 15, y: -22.5, z: 610 } },
+        // p + v t + a t^2 / 2
+        { mode: 'acceleration', horizon: 50, expected: { x: 16.25, y: -20, z: 605 } },
+        { mode: 'velocity', horizon: 0, expected: EYE_POS },
+        { mode: 'acceleration', horizon: 0, expected: EYE_POS },
+    ])("extrapolates $horizon ms with the $mode term", ({ mode, horizon, expected }) => {
+        const predicted = predictEyePosition(result(), CAPTURED_AT + horizon, mode);
+        expect(predicted.x).toBeCloseTo(expected.x, 9);
+        expect(predicted.y).toBeCloseTo(expected.y, 9);
+        expect(predicted.z).toBeCloseTo(expected.z, 9);
+    });
+
+    it.each<PredictionMode>(['velocity', 'acceleration'])("clamps the horizon to MAX_PREDICTION_MS (%s)", mode => {
+        const atLimit = predictEyePosition(result(), CAPTURED_AT + MAX_PREDICTION_MS, mode);
+        expect(predictEyePosition(result(), CAPTURED_AT + MAX_PREDICTION_MS + 500, mode)).toEqual(atLimit);
+        expect(atLimit.x).toBeGreaterThan(EYE_POS.x);
+    });
+
+    it.each<PredictionMode>(['velocity', 'acceleration'])("never predicts backwards in time (%s)", mode => {
+        // A display time before the capture (clock skew) is a zero horizon
+        expect(predictEyePosition(result(), CAPTURED_AT - 30, mode)).toEqual(EYE_POS);
+    });
+
+    it("passes the position through when prediction is off", () => {
+        expect(predictEyePosition(result(), CAPTURED_AT + 50, 'off')).toBe(EYE_POS);
+    });
+
+    it.each<TrackingState>(['acquiring', 'degraded', 'lost'])("passes the position through while %s", trackingState => {
+        expect(predictEyePosition(result({ trackingState }), CAPTURED_AT + 50, 'acceleration')).toBe(EYE_POS);
+    });
+
+    it("stays put without motion", () => {
+        const still = result({ motion: { velocity: { x: 0, y: 0, z: 0 }, acceleration: { x: 0, y: 0, z: 0 } } });
+        expect(predictEyePosition(still, CAPTURED_AT + 80, 'acceleration')).toEqual(EYE_POS);
+    });
+});
+
+describe("LatencyMonitor", () => {
+    it("measures the end-to-end latency once per camera frame", () => {
+        const monitor = new LatencyMonitor();
+        const first = result({ capturedAt: 1000 });
+        monitor.recordDisplay(first, 1050);
+        expect(monitor.current.endToEndMs).toBe(50);
+
+        // The same result drawn again on later render frames is not a new measurement
+        monitor.recordDisplay(first, 1067);
+        monitor.recordDisplay(first, 1083);
+        expect(monitor.current.endToEndMs).toBe(50);
+
+        monitor.recordDisplay(result({ capturedAt: 1033 }), 1133);
+        expect(monitor.current.endToEndMs).toBeGreaterThan(50);
+        expect(monitor.current.endToEndMs).toBeLessThan(100);
+    });
+
+    it("measures again after reset", () => {
+        const monitor = new LatencyMonitor();
+        const frame = result({ capturedAt: 1000 });
+        monitor.recordDisplay(frame, 1050);
+        monitor.reset();
+        monitor.recordDisplay(frame, 1080);
+        expect(monitor.current.endToEndMs).toBe(80);
+    });
+
+    it("ignores render intervals of paused or duplicate frames", () => {
+        const monitor = new LatencyMonitor();
+        monitor.recordRenderInterval(0);
+        monitor.recordRenderInterval(500);
+        expect(monitor.current.refreshMs).toBeCloseTo(1000 / 60, 9);
+        expect(monitor.expectedDisplayTime(2000)).toBeCloseTo(2000 + 1000 / 60, 9);
+    });
+});
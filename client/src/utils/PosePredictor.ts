@@ -0,0 +1,84 @@
+/**
+ * Pose Prediction
+ * The eye position that reaches the screen is already tens of milliseconds old (exposure,
+ * detection, filtering, the wait for the next render and the swap to the display). The renderer
+ * extrapolates it to the moment the frame will actually be shown, using the pipeline's Kalman
+ * motion estimate, and LatencyMonitor measures how far that is.
+ */
+import { EyePosition, TrackingResult } from "./HeadTrackingPipeline";
+
+export type PredictionMode = 'off' | 'velocity' | 'acceleration';
+
+export const PREDICTION_MODES: PredictionMode[] = ['off', 'velocity', 'acceleration'];
+
+// Never extrapolate further than this; beyond it the motion model is a guess
+export const MAX_PREDICTION_MS = 120;
+
+// EMA weight for the latency / refresh statistics
+const LATENCY_SMOOTHING = 0.05;
+
+export interface LatencyStats {
+    pipelineMs: number;  // Camera capture -> result on the main thread
+    endToEndMs: number;  // Camera capture -> expected display of the first frame that used it
+    refreshMs: number;   // Render frame interval
+}
+
+export class LatencyMonitor {
+    private stats: LatencyStats = { pipelineMs: 0, endToEndMs: 0, refreshMs: 1000 / 60 };
+    private lastDisplayedCapture = -1;
+
+    public get current(): LatencyStats {
+        return { ...this.stats };
+    }
+
+    public recordResult(result: TrackingResult, receivedAt: number) {
+        this.stats.pipelineMs = smooth(this.stats.pipelineMs, receivedAt - result.capturedAt);
+    }
+
+    public recordRenderInterval(deltaMs: number) {
+        if (deltaMs > 0 && deltaMs < 100) this.stats.refreshMs = smooth(this.stats.refreshMs, deltaMs);
+    }
+
+    /**
+     * When a frame rendered now will be on screen: after the next vsync.
+     */
+    public expectedDisplayTime(now: number): number {
+        return now + this.stats.refreshMs;
+    }
+
+    public recordDisplay(result: TrackingResult, displayTime: number) {
+        if (result.capturedAt === this.lastDisplayedCapture) return;
+        this.lastDisplayedCapture = result.capturedAt;
+        this.stats.endToEndMs = smooth(this.stats.endToEndMs, displayTime - result.capturedAt);
+    }
+
+    public reset() {
+        this.stats = { pipelineMs: 0, endToEndMs: 0, refreshMs: this.stats.refreshMs };
+        this.lastDisplayedCapture = -1;
+    }
+}
+
+/**
+ * Eye position extrapolated to `targetTime` (wall clock). Only live tracking is predicted;
+ * held / coasted outputs are returned as they are.
+ */
+export function predictEyePosition(result: TrackingResult, targetTime: number, mode: PredictionMode): EyePosition {
+    if (mode === 'off' || result.trackingState !== 'tracking') return result.eyePos;
+
+    const horizon = Math.max(0, Math.min(MAX_PREDICTION_MS, targetTime - result.capturedAt));
+    const { velocity, acceleration } = result.motion;
+    const useAcceleration = mode === 'acceleration';
+
+    const extrapolate = (p: number, v: number, a: number) =>
+        p + v * horizon + (useAcceleration ? 0.5 * a * horizon * horizon : 0);
+
+    return {
+        x: extrapolate(result.eyePos.x, velocity.x, acceleration.x),
+        y: extrapolate(result.eyePos.y, velocity.y, acceleration.y),
+        z: extrapolate(result.eyePos.z, velocity.z, acceleration.z),
+    };
+}
+
+function smooth(previous: number, value: number): number {
+    return previous === 0 ? value : previous + (value - previous) * LATENCY_SMOOTHING;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { estimatePursuitLag, fitPursuit, LAG_STEP_MS, MIN_PAIRS, PURSUIT_DURATION_MS, PursuitSample, pursuitTarget } from "./PursuitCalibration";
+import type { PursuitPath } from "./CalibrationSettings";
+
+const FRAME_MS = 1000 / 30;
+const PATHS: PursuitPath[] = ['lissajous', 'spiral'];
+
+// A viewer following the target `lagMs` behind, gaze linear in the target position
+function follow(path: PursuitPath, lagMs: number, saccadeEvery = 0): PursuitSample[] {
+    const samples: PursuitSample[] = [];
+    for (let time = 0; time <= PURSUIT_DURATION_MS; time += FRAME_MS) {
+        const target = pursuitTarget(path, time - lagMs);
+        let yaw = 0.6 * (target.x - 0.5) + 0.02;
+        let pitch = -0.4 * (target.y - 0.5);
+        // A catch-up saccade: the eye is briefly well away from the path
+        if (saccadeEvery && samples.length % saccadeEvery === saccadeEvery - 1) {
+            yaw += 0.08;
+            pitch -= 0.06;
+        }
+        samples.push({ time, yaw, pitch });
+    }
+    return samples;
+}
+
+describe("estimatePursuitLag", () => {
+    it.each(PATHS.flatMap(path => [0, 80, 150, 320].map(lagMs => ({ path, lagMs }))))(
+        "recovers a lag of $lagMs ms on the $path",
+        ({ path, lagMs }) => {
+            expect(Math.abs(estimatePursuitLag(follow(path, lagMs), path) - lagMs)).toBeLessThanOrEqual(LAG_STEP_MS);
+        }
+    );
+
+    it.each(PATHS)("is not pulled by saccades on the %s", path => {
+        expect(Math.abs(estimatePursuitLag(follow(path, 150, 25), path) - 150)).toBeLessThanOrEqual(LAG_STEP_MS);
+    });
+});
+
+describe("fitPursuit", () => {
+    it.each(PATHS)("drops the saccades and maps gaze onto the %s", path => {
+        const fit = fitPursuit(follow(path, 150, 25), path);
+
+        expect(fit).not.toBeNull();
+        expect(Math.abs(fit!.lagMs - 150)).toBeLessThanOrEqual(LAG_STEP_MS);
+        expect(fit!.rejected).toBeGreaterThan(0);
+        expect(fit!.pairs).toBeGreaterThanOrEqual(MIN_PAIRS);
+        // A point on the path, from a gaze that is not a saccade
+        const target = pursuitTarget(path, 7000);
+        const predicted = fit!.regression.predict(0.6 * (target.x - 0.5) + 0.02, -0.4 * (target.y - 0.5));
+        expect(predicted.x).toBeCloseTo(target.x, 2);
+        expect(predicted.y).toBeCloseTo(target.y, 2);
+    });
+
+    it("needs MIN_PAIRS usable samples", () => {
+        // Past the onset, a sample every 200 ms
+        const samples = follow('lissajous', 150).filter(s => s.time >= 2000).filter((_, i) => i % 6 === 0);
+        expect(fitPursuit(samples.slice(0, MIN_PAIRS - 1), 'lissajous')).toBeNull();
+        expect(fitPursuit(samples.slice(0, MIN_PAIRS + 10), 'lissajous')).not.toBeNull();
+        expect(fitPursuit([], 'lissajous')).toBeNull();
+    });
+});
@@ -0,0 +1,135 @@
+/**
+ * Pursuit Calibration
+ * Calibration from smooth pursuit: the user follows a target moving along a Lissajous figure or
+ * a spiral while every tracked frame's gaze is paired with where the target was. The eye trails
+ * the target (and the pipeline adds its own latency), so the lag is estimated first as the shift
+ * that best correlates gaze with target position; the lag-corrected pairs are then fitted.
+ */
+import { PolynomialRegression } from "./RegressionUtils";
+import type { PursuitPath } from "./CalibrationSettings";
+import type { ScreenPoint } from "./CalibrationValidation";
+
+export interface PursuitSample {
+    time: number;  // ms since the target started moving
+    yaw: number;   // rad
+    pitch: number;
+}
+
+export interface PursuitFit {
+    regression: PolynomialRegression;
+    lagMs: number;
+    pairs: number;    // Pairs in the final fit
+    rejected: number; // Pairs dropped as outliers
+}
+
+// One pass of the path
+export const PURSUIT_DURATION_MS = 20000;
+
+// The path stays this far (normalised) from the screen edges
+const EDGE = 0.1;
+// Lissajous frequencies per pass (3:2 covers the screen without retracing)
+const LISSAJOUS_X_CYCLES = 3;
+const LISSAJOUS_Y_CYCLES = 2;
+// Spiral turns from the edge to the centre
+const SPIRAL_TURNS = 4;
+const SPIRAL_MIN_RADIUS = 0.05;
+
+// The eye needs a moment to lock on: samples before this are not used
+const ONSET_MS = 1000;
+// Lags searched (eye + pipeline)
+const MAX_LAG_MS = 500;
+export const LAG_STEP_MS = 10;
+// Pairs further off the first fit than this many median residuals are dropped (catch-up saccades, lapses)
+const OUTLIER_FACTOR = 3;
+export const MIN_PAIRS = 30;
+
+/**
+ * Target position (normalised screen coordinates) `timeMs` into the pass.
+ */
+export function pursuitTarget(path: PursuitPath, timeMs: number, durationMs: number = PURSUIT_DURATION_MS): ScreenPoint {
+    const u = Math.max(0, Math.min(1, timeMs / durationMs));
+    const amplitude = 0.5 - EDGE;
+    if (path === 'lissajous') {
+        return {
+            x: 0.5 + amplitude * Math.sin(2 * Math.PI * LISSAJOUS_X_CYCLES * u + Math.PI / 2),
+            y: 0.5 + amplitude * Math.sin(2 * Math.PI * LISSAJOUS_Y_CYCLES * u),
+        };
+    }
+    // Spiral inwards; the radius shrinks linearly with the angle (Archimedean)
+    const radius = amplitude - (amplitude - SPIRAL_MIN_RADIUS) * u;
+    const angle = 2 * Math.PI * SPIRAL_TURNS * u;
+    return { x: 0.5 + radius * Math.cos(angle), y: 0.5 + radius * Math.sin(angle) };
+}
+
+/**
+ * Lag (ms) at which gaze correlates best with the target: yaw with x, pitch with y.
+ * Every candidate lag is scored on the same samples, those whose lagged target time is on the
+ * path for all lags, so the scores compare.
+ */
+export function estimatePursuitLag(samples: PursuitSample[], path: PursuitPath, durationMs: number = PURSUIT_DURATION_MS): number {
+    const used = samples.filter(s => s.time - MAX_LAG_MS >= ONSET_MS && s.time <= durationMs);
+    if (used.length < MIN_PAIRS) return 0;
+    let bestLag = 0;
+    let bestScore = -Infinity;
+    for (let lag = 0; lag <= MAX_LAG_MS; lag += LAG_STEP_MS) {
+        const targets = used.map(s => pursuitTarget(path, s.time - lag, durationMs));
+        const rx = correlation(used.map(s => s.yaw), targets.map(t => t.x));
+        const ry = correlation(used.map(s => s.pitch), targets.map(t => t.y));
+        const score = rx * rx + ry * ry;
+        if (score > bestScore) {
+            bestScore = score;
+            bestLag = lag;
+        }
+    }
+    return bestLag;
+}
+
+/**
+ * Lag-corrected regression from a pass of samples. Null when there are too few usable samples.
+ */
+export function fitPursuit(samples: PursuitSample[], path: PursuitPath, durationMs: number = PURSUIT_DURATION_MS): PursuitFit | null {
+    const lagMs = estimatePursuitLag(samples, path, durationMs);
+    const pairs = samples
+        .filter(s => s.time - lagMs >= ONSET_MS && s.time - lagMs <= durationMs)
+        .map(s => ({ input: { x: s.yaw, y: s.pitch }, output: pursuitTarget(path, s.time - lagMs, durationMs) }));
+    if (pairs.length < MIN_PAIRS) return null;
+
+    const fit = (used: typeof pairs) => {
+        const regression = new PolynomialRegression();
+        regression.fit(used.map(p => p.input), used.map(p => p.output));
+        const coeffs = regression.getCoefficients();
+        return coeffs.x && coeffs.y ? regression : null;
+    };
+
+    const first = fit(pairs);
+    if (!first) return null;
+    const residuals = pairs.map(p => {
+        const predicted = first.predict(p.input.x, p.input.y);
+        return Math.hypot(predicted.x - p.output.x, predicted.y - p.output.y);
+    });
+    const limit = OUTLIER_FACTOR * median(residuals);
+    const inliers = pairs.filter((_, i) => residuals[i] <= limit);
+    const regression = inliers.length >= MIN_PAIRS ? fit(inliers) : null;
+    if (!regression) return { regression: first, lagMs, pairs: pairs.length, rejected: 0 };
+
+    return { regression, lagMs, pairs: inliers.length, rejected: pairs.length - inliers.length };
+}
+
+function correlation(a: number[], b: number[]): number {
+    const n = a.length;
+    const meanA = a.reduce((sum, v) => sum + v, 0) / n;
+    const meanB = b.reduce((sum, v) => sum + v, 0) / n;
+    let cov = 0, varA = 0, varB = 0;
+    for (let i = 0; i < n; i++) {
+        cov += (a[i] - meanA) * (b[i] - meanB);
+        varA += (a[i] - meanA) ** 2;
+        varB += (b[i] - meanB) ** 2;
+    }
+    return varA > 0 && varB > 0 ? cov / Math.sqrt(varA * varB) : 0;
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = sorted.length >> 1;
+    return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { Quaternion, Vector3 } from "three";
+import { QuaternionOneEuroFilter } from "./QuaternionFilter";
+
+const DEG = Math.PI / 180;
+const FRAME_MS = 1000 / 30;
+const UP = new Vector3(0, 1, 0);
+const TILTED = new Vector3(1, 2, 0.5).normalize();
+
+const rotation = (axis: Vector3, angle: number) => new Quaternion().setFromAxisAngle(axis, angle);
+const negated = (q: Quaternion) => new Quaternion(-q.x, -q.y, -q.z, -q.w);
+
+describe("QuaternionOneEuroFilter", () => {
+    it.each([
+        { name: "identity", q: new Quaternion() },
+        { name: "a yaw", q: rotation(UP, 30 * DEG) },
+        { name: "a tilted turn", q: rotation(TILTED, -100 * DEG) },
+    ])("passes a constant $name through unchanged", ({ q }) => {
+        const filter = new QuaternionOneEuroFilter(1.0, 0.5);
+        for (let i = 0; i < 30; i++) {
+            expect(filter.filter(q, i * FRAME_MS).angleTo(q)).toBeLessThan(1e-6);
+        }
+    });
+
+    it("does not modify its input", () => {
+        const filter = new QuaternionOneEuroFilter();
+        const q = rotation(UP, 20 * DEG);
+        filter.filter(rotation(UP, 0), 0);
+        filter.filter(q, FRAME_MS);
+        expect(q.toArray()).toEqual(rotation(UP, 20 * DEG).toArray());
+    });
+
+    it("smooths jitter around a still pose", () => {
+        const pose = rotation(TILTED, 25 * DEG);
+        const filter = new QuaternionOneEuroFilter(1.0, 0.0);
+        const raw: number[] = [];
+        const filtered: number[] = [];
+        for (let i = 0; i < 120; i++) {
+            // +-1 deg about alternating axes
+            const axis = new Vector3(Math.sin(i * 1.7), Math.cos(i * 2.3), Math.sin(i * 0.9)).normalize();
+            const sample = pose.clone().multiply(rotation(axis, (i % 2 ? 1 : -1) * DEG));
+            const out = filter.filter(sample, i * FRAME_MS);
+            if (i < 30) continue;
+            raw.push(sample.angleTo(pose));
+            filtered.push(out.angleTo(pose));
+        }
+        const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+        expect(mean(raw)).toBeCloseTo(DEG, 6);
+        expect(mean(filtered)).toBeLessThan(mean(raw) / 3);
+    });
+
+    it("follows q and -q as the same rotation", () => {
+        const q = rotation(TILTED, 40 * DEG);
+        const filter = new QuaternionOneEuroFilter(1.0, 0.5);
+        for (let i = 0; i < 30; i++) {
+            const out = filter.filter(i % 2 ? negated(q) : q, i * FRAME_MS);
+            expect(out.angleTo(q)).toBeLessThan(1e-6);
+        }
+    });
+
+    it.each([
+        { name: "a small step given as -q", from: 10 * DEG, to: 12 * DEG, flip: true },
+        { name: "yaw crossing 180 deg", from: 178 * DEG, to: -178 * DEG, flip: false },
+        { name: "yaw crossing 180 deg given as -q", from: 178 * DEG, to: -178 * DEG, flip: true },
+    ])("takes the short way for $name", ({ from, to, flip }) => {
+        const filter = new QuaternionOneEuroFilter(1.0, 0.5);
+        let previous = new Quaternion();
+        for (let i = 0; i < 10; i++) previous = filter.filter(rotation(UP, from), i * FRAME_MS);
+        const target = rotation(UP, to);
+
+        const out = filter.filter(flip ? negated(target) : target, 10 * FRAME_MS);
+        // A partial step towards the target along the short arc, never beyond it or the other way round
+        const step = previous.angleTo(target);
+        expect(step).toBeLessThan(5 * DEG);
+        expect(out.angleTo(previous)).toBeGreaterThan(0);
+        expect(out.angleTo(previous)).toBeLessThan(step);
+        expect(out.angleTo(target)).toBeLessThan(step);
+        // ... and on the previous output's side, so its components do not jump
+        expect(out.dot(previous)).toBeGreaterThan(0.99);
+    });
+});
@@ -0,0 +1,118 @@
+/**
+ * One Euro Filter for rotations.
+ * Same speed-adaptive low-pass as OneEuroFilter, but on unit quaternions: the derivative is the
+ * angular velocity and smoothing is a slerp towards the new sample. There is no wrap-around at
+ * ±π and the axes stay coupled, which filtering yaw / pitch / roll independently cannot give.
+ */
+import { Quaternion, Vector3 } from "three";
+import { OneEuroParams } from "./OneEuroFilter";
+
+export interface QuaternionLike {
+    x: number;
+    y: number;
+    z: number;
+    w: number;
+}
+
+export class QuaternionOneEuroFilter {
+    private minCutoff: number;
+    private beta: number;
+    private dCutoff: number;
+    private qPrev: Quaternion | null;
+    private omegaPrev: Vector3; // Smoothed angular velocity (rad/s, axis * rate)
+    private tPrev: number | null;
+
+    constructor(minCutoff: number = 1.0, beta: number = 0.0, dCutoff: number = 1.0) {
+        this.minCutoff = minCutoff;
+        this.beta = beta;
+        this.dCutoff = dCutoff;
+        this.qPrev = null;
+        this.omegaPrev = new Vector3();
+        this.tPrev = null;
+    }
+
+    get params(): OneEuroParams {
+        return { minCutoff: this.minCutoff, beta: this.beta, dCutoff: this.dCutoff };
+    }
+
+    // Parameters can change between samples; the filter state is kept
+    setParams(params: Partial<OneEuroParams>) {
+        if (params.minCutoff !== undefined) this.setMinCutoff(params.minCutoff);
+        if (params.beta !== undefined) this.setBeta(params.beta);
+        if (params.dCutoff !== undefined) this.setDCutoff(params.dCutoff);
+    }
+
+    setMinCutoff(minCutoff: number) {
+        this.minCutoff = minCutoff;
+    }
+
+    // Per rad/s of angular speed
+    setBeta(beta: number) {
+        this.beta = beta;
+    }
+
+    setDCutoff(dCutoff: number) {
+        this.dCutoff = dCutoff;
+    }
+
+    reset() {
+        this.qPrev = null;
+        this.omegaPrev.set(0, 0, 0);
+        this.tPrev = null;
+    }
+
+    /**
+     * @returns A new quaternion; the input is not modified
+     */
+    filter(q: QuaternionLike, timestamp: number = Date.now()): Quaternion {
+        const x = new Quaternion(q.x, q.y, q.z, q.w).normalize();
+
+        if (this.tPrev === null || this.qPrev === null) {
+            this.qPrev = x;
+            this.omegaPrev.set(0, 0, 0);
+            this.tPrev = timestamp;
+            return x.clone();
+        }
+
+        const dt = (timestamp - this.tPrev) / 1000.0; // Convert ms to seconds
+        this.tPrev = timestamp;
+
+        // Duplicate frame: keep the previous estimate
+        if (dt <= 0) return this.qPrev.clone();
+
+        const calculateAlpha = (cutoff: number): number => {
+            const tau = 1.0 / (2 * Math.PI * cutoff);
+            return 1.0 / (1.0 + tau / dt);
+        };
+
+        // q and -q are the same rotation; take the one on the previous estimate's side
+        if (this.qPrev.dot(x) < 0) x.set(-x.x, -x.y, -x.z, -x.w);
+
+        // 1. Estimate Derivative (angular velocity of the step qPrev -> x, in the previous frame)
+        const omega = angularVelocity(this.qPrev, x, dt);
+        const omegaSmoothed = this.omegaPrev.clone().lerp(omega, calculateAlpha(this.dCutoff));
+
+        // 2. Calculate Cutoff based on angular speed
+        const cutoff = this.minCutoff + this.beta * omegaSmoothed.length();
+
+        // 3. Filter Signal
+        const smoothed = this.qPrev.clone().slerp(x, calculateAlpha(cutoff));
+
+        this.qPrev = smoothed;
+        this.omegaPrev = omegaSmoothed;
+
+        return smoothed.clone();
+    }
+}
+
+/**
+ * Rotation vector of from^-1 * to divided by dt (rad/s).
+ */
+function angularVelocity(from: Quaternion, to: Quaternion, dt: number): Vector3 {
+    const delta = from.clone().invert().multiply(to);
+    if (delta.w < 0) delta.set(-delta.x, -delta.y, -delta.z, -delta.w);
+    const sinHalf = Math.hypot(delta.x, delta.y, delta.z);
+    if (sinHalf < 1e-9) return new Vector3();
+    const angle = 2 * Math.atan2(sinHalf, delta.w);
+    return new Vector3(delta.x, delta.y, delta.z).multiplyScalar(angle / (sinHalf * dt));
+}
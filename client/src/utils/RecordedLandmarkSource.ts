@@ -0,0 +1,145 @@
+/**
+ * Replays a list of previously captured landmark frames with their original timing.
+ * Playback speed only changes the wall-clock delay between frames; frame timestamps are kept,
+ * so the filters see exactly the same input at any speed.
+ */
+import { clockNow, LandmarkFrame, LandmarkListener, LandmarkSource } from "./LandmarkSource";
+
+export type ReplayProgressListener = (index: number, total: number) => void;
+
+export class RecordedLandmarkSource implements LandmarkSource {
+    public readonly kind = 'recorded';
+
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private index = 0;
+    private paused = false;
+    private speed = 1;
+    private jumped = true;
+    private listener: LandmarkListener | null = null;
+    private progressListener: ReplayProgressListener | null = null;
+
+    constructor(private frames: LandmarkFrame[], private loop = false) { }
+
+    public get frameCount() {
+        return this.frames.length;
+    }
+
+    public get position() {
+        return this.index;
+    }
+
+    public get duration() {
+        if (this.frames.length < 2) return 0;
+        return this.frames[this.frames.length - 1].timestamp - this.frames[0].timestamp;
+    }
+
+    public get isPaused() {
+        return this.paused;
+    }
+
+    public async start(listener: LandmarkListener): Promise<void> {
+        this.stop();
+        this.listener = listener;
+        this.index = 0;
+        this.jumped = true;
+        if (!this.paused) this.scheduleNext(0);
+    }
+
+    public stop() {
+        this.clearTimer();
+        this.listener = null;
+    }
+
+    public setPaused(paused: boolean) {
+        if (this.paused === paused) return;
+        this.paused = paused;
+        this.clearTimer();
+        if (paused || !this.listener) return;
+
+        // Resuming at the end starts over
+        if (this.index >= this.frames.length - 1) {
+            this.index = 0;
+            this.jumped = true;
+        }
+        this.scheduleNext(0);
+    }
+
+    public setSpeed(speed: number) {
+        this.speed = Math.max(0.01, speed);
+    }
+
+    public getSpeed() {
+        return this.speed;
+    }
+
+    /**
+     * Jumps to a frame. The next emitted frame is flagged as a discontinuity so filters restart.
+     * While paused the target frame is emitted once, so the view follows the scrub bar.
+     */
+    public seek(index: number) {
+        if (this.frames.length === 0) return;
+        this.index = Math.max(0, Math.min(this.frames.length - 1, Math.round(index)));
+        this.jumped = true;
+        this.clearTimer();
+        if (!this.listener) return;
+
+        if (this.paused) {
+            this.emitFrame(this.frames[this.index]);
+            this.notifyProgress();
+        } else {
+            this.scheduleNext(0);
+        }
+    }
+
+    public setProgressListener(listener: ReplayProgressListener | null) {
+        this.progressListener = listener;
+        listener?.(this.index, this.frames.length);
+    }
+
+    private clearTimer() {
+        if (this.timer !== null) clearTimeout(this.timer);
+        this.timer = null;
+    }
+
+    private scheduleNext(delay: number) {
+        this.timer = setTimeout(() => this.emit(), delay);
+    }
+
+    private emitFrame(frame: LandmarkFrame) {
+        if (!this.listener) return;
+        // Recorded timestamps drive the filters; latency is measured from the moment of playback
+        this.listener({ ...frame, capturedAt: clockNow(), ...(this.jumped ? { discontinuity: true } : {}) });
+        this.jumped = false;
+    }
+
+    private notifyProgress() {
+        this.progressListener?.(this.index, this.frames.length);
+    }
+
+    private emit() {
+        this.timer = null;
+        if (!this.listener || this.frames.length === 0) return;
+
+        const frame = this.frames[this.index];
+        this.emitFrame(frame);
+
+        this.index++;
+        if (this.index >= this.frames.length) {
+            if (!this.loop) {
+                this.index = this.frames.length - 1;
+                this.paused = true;
+                this.notifyProgress();
+                return;
+            }
+            this.index = 0;
+            this.jumped = true;
+            this.notifyProgress();
+            this.scheduleNext(0);
+            return;
+        }
+        this.notifyProgress();
+
+        const gap = Math.max(0, this.frames[this.index].timestamp - frame.timestamp);
+        this.scheduleNext(gap / this.speed);
+    }
+}
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PolynomialRegression, QUADRATIC_MIN_POINTS } from "./RegressionUtils";
+
+// Gaze spread over +-0.3 rad yaw, +-0.2 rad pitch, points in a fixed non-degenerate order
+const GAZE = [
+    { x: -0.3, y: -0.2 }, { x: 0.3, y: -0.2 }, { x: 0, y: 0 }, { x: -0.3, y: 0.2 }, { x: 0.3, y: 0.2 },
+    { x: 0, y: -0.2 }, { x: -0.3, y: 0 }, { x: 0.3, y: 0 }, { x: 0, y: 0.2 }, { x: 0.15, y: 0.1 },
+];
+
+const linearMap = (p: { x: number; y: number }) => ({ x: 0.5 + 1.2 * p.x - 0.1 * p.y, y: 0.5 + 0.05 * p.x + 1.6 * p.y });
+const quadraticMap = (p: { x: number; y: number }) => ({
+    x: 0.5 + 1.2 * p.x + 0.8 * p.x * p.y + 0.6 * p.x * p.x,
+    y: 0.5 + 1.6 * p.y - 0.4 * p.y * p.y + 0.3 * p.x * p.x,
+});
+
+function fitted(count: number, map: (p: { x: number; y: number }) => { x: number; y: number }): PolynomialRegression {
+    const inputs = GAZE.slice(0, count);
+    const regression = new PolynomialRegression();
+    regression.fit(inputs, inputs.map(map));
+    return regression;
+}
+
+describe("PolynomialRegression", () => {
+    beforeEach(() => {
+        vi.spyOn(console, "warn").mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it.each([3, 4, 5])("fits a linear model to %s points", count => {
+        const regression = fitted(count, linearMap);
+        const { x, y } = regression.getCoefficients();
+
+        expect(regression.getModel()).toBe('linear');
+        expect(x!.slice(2, 5)).toEqual([0, 0, 0]);
+        expect(y!.slice(2, 5)).toEqual([0, 0, 0]);
+        // Exact for a linear relation, also between the points
+        const predicted = regression.predict(0.1, -0.05);
+        expect(predicted.x).toBeCloseTo(linearMap({ x: 0.1, y: -0.05 }).x, 9);
+        expect(predicted.y).toBeCloseTo(linearMap({ x: 0.1, y: -0.05 }).y, 9);
+        // Falling back is expected for small patterns, not a problem to report
+        expect(console.warn).not.toHaveBeenCalled();
+    });
+
+    it.each([QUADRATIC_MIN_POINTS, 9, 10])("fits the quadratic model to %s points", count => {
+        const regression = fitted(count, quadraticMap);
+
+        expect(regression.getModel()).toBe('quadratic');
+        const { x, y } = regression.getCoefficients();
+        [1.2, 0, 0.8, 0.6, 0, 0.5].forEach((c, i) => expect(x![i]).toBeCloseTo(c, 9));
+        [0, 1.6, 0, 0.3, -0.4, 0.5].forEach((c, i) => expect(y![i]).toBeCloseTo(c, 9));
+    });
+
+    it("has no model before a fit or with fewer than 3 points", () => {
+        expect(new PolynomialRegression().getModel()).toBeNull();
+        expect(fitted(2, linearMap).getModel()).toBeNull();
+    });
+
+    it("tells the model of stored coefficients", () => {
+        const regression = new PolynomialRegression();
+        regression.setCoefficients({ x: [1, 0, 0, 0, 0, 0.5], y: [0, 1, 0, 0, 0, 0.5] });
+        expect(regression.getModel()).toBe('linear');
+        regression.setCoefficients({ x: [1, 0, 0, 0.2, 0, 0.5], y: [0, 1, 0, 0, 0, 0.5] });
+        expect(regression.getModel()).toBe('quadratic');
+    });
+});
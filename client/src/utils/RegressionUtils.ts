@@ -17,6 +17,12 @@
  * Given the matrix size is small (6x6), we can implement Gaussian Elimination.
  */
 
+// 'linear' when the quadratic terms were left out (fewer than 6 points)
+export type RegressionModel = 'linear' | 'quadratic';
+
+// Terms of the 2nd degree model; fewer points than this fit the linear terms only
+export const QUADRATIC_MIN_POINTS = 6;
+
 export class PolynomialRegression {
     private coefficientsX: number[] | null = null;
     private coefficientsY: number[] | null = null;
@@ -29,12 +35,17 @@ export class PolynomialRegression {
      * @param outputs Array of { x: number, y: number } (Screen Pixels)
      */
     public fit(inputs: { x: number, y: number }[], outputs: { x: number, y: number }[]) {
-        if (inputs.length < 6) {
-            console.warn("Regression: Need at least 6 points for 2nd degree polynomial.");
+        if (inputs.length < 3) {
+            console.warn("Regression: Need at least 3 points.");
             return;
         }
+        // Fewer points than the 2nd degree model has terms (e.g. a 5-point calibration):
+        // fit the linear terms only and leave the quadratic ones at zero (see getModel)
+        const linear = inputs.length < QUADRATIC_MIN_POINTS;
 
-        const X = inputs.map(p => [p.x, p.y, p.x * p.y, p.x * p.x, p.y * p.y, 1]); // N x 6
+        const X = linear
+            ? inputs.map(p => [p.x, p.y, 1]) // N x 3
+            : inputs.map(p => [p.x, p.y, p.x * p.y, p.x * p.x, p.y * p.y, 1]); // N x 6
         const Yx = outputs.map(p => [p.x]); // N x 1
         const Yy = outputs.map(p => [p.y]); // N x 1
 
@@ -43,7 +54,7 @@ export class PolynomialRegression {
         // Beta = A^-1 * B
 
         const Xt = this.transpose(X);
-        const XtX = this.multiply(Xt, X); // 6 x 6
+        const XtX = this.multiply(Xt, X); // 6 x 6 (3 x 3 linear)
         const XtYx = this.multiply(Xt, Yx); // 6 x 1
         const XtYy = this.multiply(Xt, Yy); // 6 x 1
 
@@ -52,10 +63,11 @@ export class PolynomialRegression {
             const BetaX = this.multiply(InverseXtX, XtYx);
             const BetaY = this.multiply(InverseXtX, XtYy);
 
-            this.coefficientsX = BetaX.map(row => row[0]);
-            this.coefficientsY = BetaY.map(row => row[0]);
-
-            console.log("Regression Trained:", this.coefficientsX, this.coefficientsY);
+            const expand = (beta: number[][]) => linear
+                ? [beta[0][0], beta[1][0], 0, 0, 0, beta[2][0]]
+                : beta.map(row => row[0]);
+            this.coefficientsX = expand(BetaX);
+            this.coefficientsY = expand(BetaY);
         } catch (e) {
             console.error("Regression Failed (Singular Matrix?):", e);
         }
@@ -88,6 +100,16 @@ export class PolynomialRegression {
         this.coefficientsY = coeffs.y;
     }
 
+    /**
+     * Which model the coefficients are: a linear fit leaves the x*y, x^2 and y^2 terms at exactly zero.
+     * Null before a successful fit.
+     */
+    public getModel(): RegressionModel | null {
+        if (!this.coefficientsX || !this.coefficientsY) return null;
+        const quadratic = [this.coefficientsX, this.coefficientsY].some(c => c[2] !== 0 || c[3] !== 0 || c[4] !== 0);
+        return quadratic ? 'quadratic' : 'linear';
+    }
+
     // --- Matrix Helpers ---
 
     private multiply(A: number[][], B: number[][]): number[][] {
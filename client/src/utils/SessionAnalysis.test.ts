@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import { calculateEAR, computeIrisOffsets, DEFAULT_EAR_THRESHOLDS, SUBJECT_LEFT_EYE, SUBJECT_RIGHT_EYE, toPixelSpace } from "./HeadTrackingPipeline";
+import { LandmarkFrame, VIDEO_HEIGHT, VIDEO_WIDTH } from "./LandmarkSource";
+import { encodeSessionCsv, recordingEyeThresholds, smoothRecording } from "./SessionAnalysis";
+import { computeSessionMetrics } from "./GazeMetrics";
+import { LandmarkRecording } from "./SessionRecorder";
+import { DEFAULT_SYNTHETIC_MOTION, generateSyntheticLandmarks } from "./SyntheticLandmarkSource";
+import { Point3D } from "./FaceUtils";
+
+const FRAME_MS = 1000 / 30;
+const MOTION = { ...DEFAULT_SYNTHETIC_MOTION, blinkInterval: 1500, blinkDuration: 150 };
+const NO_FACE = { from: 0, to: 5 };   // Frames before the face is found
+const DROPOUT = { from: 100, to: 106 }; // Face lost in the middle
+
+// Park-Miller; landmark noise of +-0.5 px
+function noise(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state * 16807) % 2147483647;
+        return state / 2147483647 - 0.5;
+    };
+}
+
+function synthetic(): { recording: LandmarkRecording; clean: LandmarkFrame[] } {
+    const random = noise(11);
+    const clean: LandmarkFrame[] = [];
+    const frames: LandmarkFrame[] = [];
+    for (let i = 0; i < 180; i++) {
+        const timestamp = i * FRAME_MS;
+        const missing = (i >= NO_FACE.from && i < NO_FACE.to) || (i >= DROPOUT.from && i < DROPOUT.to);
+        const landmarks = generateSyntheticLandmarks(timestamp, MOTION);
+        clean.push({ landmarks, timestamp, width: VIDEO_WIDTH, height: VIDEO_HEIGHT });
+        frames.push({
+            landmarks: missing ? null : landmarks.map(p => ({ x: p.x + random() / VIDEO_WIDTH, y: p.y + random() / VIDEO_HEIGHT, z: p.z })),
+            timestamp,
+            width: VIDEO_WIDTH,
+            height: VIDEO_HEIGHT,
+        });
+    }
+    return { recording: { version: 1, createdAt: "", width: VIDEO_WIDTH, height: VIDEO_HEIGHT, frames }, clean };
+}
+
+const isBlinkFrame = (i: number) => (i * FRAME_MS) % MOTION.blinkInterval < MOTION.blinkDuration;
+
+function rightIrisOffset(frame: LandmarkFrame) {
+    return computeIrisOffsets(toPixelSpace(frame.landmarks!, frame.width, frame.height)).right;
+}
+
+describe("smoothRecording", () => {
+    const { recording, clean } = synthetic();
+    const session = smoothRecording(recording);
+
+    it("has one entry per recorded frame", () => {
+        expect(session.frames).toHaveLength(recording.frames.length);
+        expect(session.width).toBe(VIDEO_WIDTH);
+        expect(session.height).toBe(VIDEO_HEIGHT);
+    });
+
+    it("has no estimate before the first measurement", () => {
+        for (let i = NO_FACE.from; i < NO_FACE.to; i++) expect(session.frames[i]).toBeNull();
+        expect(session.frames[NO_FACE.to]).not.toBeNull();
+    });
+
+    it("bridges dropped faces and blinks", () => {
+        const blinks = recording.frames.map((_, i) => i).filter(i => i >= NO_FACE.to && isBlinkFrame(i));
+        expect(blinks.length).toBeGreaterThan(0);
+        for (const i of [...blinks, ...Array.from({ length: DROPOUT.to - DROPOUT.from }, (_, k) => DROPOUT.from + k)]) {
+            const frame = session.frames[i];
+            expect(frame).not.toBeNull();
+            // The eyes keep moving under closed lids; the bridge stays close to where they are
+            expect(Math.abs(frame!.irisRight.x - rightIrisOffset(clean[i]).x)).toBeLessThan(2);
+            expect(Number.isFinite(frame!.headRotation.yaw)).toBe(true);
+        }
+    });
+
+    it("is closer to the clean iris track than the raw measurements", () => {
+        const open = recording.frames
+            .map((_, i) => i)
+            .filter(i => recording.frames[i].landmarks && !isBlinkFrame(i) && i >= NO_FACE.to + 15);
+        const error = (values: number[]) => Math.sqrt(values.reduce((sum, e) => sum + e * e, 0) / values.length);
+
+        const raw = error(open.map(i => rightIrisOffset(recording.frames[i]).x - rightIrisOffset(clean[i]).x));
+        const smoothed = error(open.map(i => session.frames[i]!.irisRight.x - rightIrisOffset(clean[i]).x));
+        expect(smoothed).toBeLessThan(raw);
+    });
+
+    it("keeps the blink state and gaze direction where the face was seen", () => {
+        session.frames.forEach((frame, i) => {
+            if (!frame) return;
+            const seen = recording.frames[i].landmarks !== null;
+            expect(frame.blink !== null).toBe(seen);
+            expect(frame.gazeDirection !== null).toBe(seen);
+            if (seen && i >= NO_FACE.to + 15) expect(frame.blink!.isBlinking).toBe(isBlinkFrame(i));
+        });
+    });
+
+    it("gives the metrics of the smoothed session", () => {
+        const samples = computeSessionMetrics(session);
+        expect(samples.length).toBeGreaterThan(0);
+        expect(samples[0].time).toBe(0);
+        expect(samples.some(s => s.gazeAngle === null)).toBe(true);
+        expect(samples.filter(s => s.velocity !== null).every(s => Number.isFinite(s.velocity))).toBe(true);
+    });
+
+    it("is deterministic", () => {
+        expect(smoothRecording(recording)).toEqual(session);
+    });
+
+    it("exports only frames with an estimate", () => {
+        const lines = encodeSessionCsv(session).trim().split("\n");
+        expect(lines[0].split(",")).toHaveLength(15);
+        expect(lines).toHaveLength(1 + session.frames.filter(f => f !== null).length);
+    });
+});
+
+// Squints both eyes: the lids move towards the line between the eye corners
+function narrowEyes(landmarks: Point3D[], factor: number): Point3D[] {
+    const narrowed = landmarks.map(p => ({ ...p }));
+    for (const eye of [SUBJECT_RIGHT_EYE, SUBJECT_LEFT_EYE]) {
+        const middle = (landmarks[eye[0]].y + landmarks[eye[3]].y) / 2;
+        for (const lid of [eye[1], eye[2], eye[4], eye[5]]) narrowed[lid].y = middle + (landmarks[lid].y - middle) * factor;
+    }
+    return narrowed;
+}
+
+describe("smoothRecording with narrow eyes", () => {
+    const frames: LandmarkFrame[] = Array.from({ length: 180 }, (_, i) => ({
+        landmarks: narrowEyes(generateSyntheticLandmarks(i * FRAME_MS, MOTION), 0.45),
+        timestamp: i * FRAME_MS,
+        width: VIDEO_WIDTH,
+        height: VIDEO_HEIGHT,
+    }));
+    const recording: LandmarkRecording = { version: 1, createdAt: "", width: VIDEO_WIDTH, height: VIDEO_HEIGHT, frames };
+    const openEAR = calculateEAR(frames[10].landmarks!, SUBJECT_RIGHT_EYE);
+
+    it("adapts the blink thresholds to the user's open eyes", () => {
+        // Open, yet below the default close threshold
+        expect(openEAR).toBeLessThan(DEFAULT_EAR_THRESHOLDS.close);
+        const thresholds = recordingEyeThresholds(recording);
+        for (const eye of [thresholds.left, thresholds.right]) {
+            expect(eye.close).toBeLessThan(openEAR);
+            expect(eye.reopen).toBeLessThan(openEAR);
+            expect(eye.reopen).toBeGreaterThan(eye.close);
+        }
+    });
+
+    it("measures the iris whenever the eyes are open", () => {
+        const session = smoothRecording(recording);
+        // The recording opens with a blink; from the first open frame on every frame has an estimate
+        const firstOpen = frames.findIndex((_, i) => !isBlinkFrame(i));
+        expect(session.frames.slice(0, firstOpen).every(f => f === null)).toBe(true);
+        expect(session.frames.slice(firstOpen).every(f => f !== null)).toBe(true);
+        frames.forEach((frame, i) => {
+            if (isBlinkFrame(i)) return;
+            expect(Math.abs(session.frames[i]!.irisRight.x - rightIrisOffset(frame).x)).toBeLessThan(0.5);
+        });
+    });
+});
@@ -0,0 +1,182 @@
+/**
+ * Session Analysis
+ * Offline trajectories for a recorded session. Raw measurements are taken per frame (iris offsets
+ * from the landmarks, head pose from a replay through the pipeline) and smoothed over the whole
+ * recording with an RTS pass, so analysis and export work on lag-free estimates rather than on
+ * the causal output the live view had to use.
+ */
+import { computeEyeScale, Point2D, Point3D } from "./FaceUtils";
+import { LANDMARK_COUNT } from "./FaceModel";
+import { MotionSample, smoothMotionTrack } from "./KalmanFilter";
+import { EarBaseline, EyeThresholds } from "./EarBaseline";
+import { computeEyeGazes } from "./Binocular";
+import {
+    BlinkState,
+    calculateEAR,
+    computeBlink,
+    computeIrisOffsets,
+    DEFAULT_EAR_THRESHOLDS,
+    FaceRotation,
+    HeadTrackingPipeline,
+    IrisData,
+    irisMeasurementNoiseScale,
+    IRIS_KALMAN,
+    MAX_POSE_REPROJECTION_ERROR,
+    ROTATION_KALMAN,
+    EYE_POSITION_KALMAN,
+    SUBJECT_LEFT_EYE,
+    SUBJECT_RIGHT_EYE,
+    toPixelSpace,
+} from "./HeadTrackingPipeline";
+import { LandmarkRecording, downloadBlob, replayRecording } from "./SessionRecorder";
+
+export interface SmoothedSessionFrame {
+    timestamp: number;
+    irisRight: Point2D;         // Iris offset from the eye corner (px)
+    irisLeft: Point2D;
+    iris: IrisData;             // Both eyes, normalised like TrackingResult.iris
+    irisVelocity: Point2D;      // Mean of both eyes (px/s)
+    headRotation: FaceRotation; // PnP angles (rad), not recentered
+    headTranslation: Point3D;   // Face model origin in camera coordinates (mm)
+    // Where the face was detected: the blink state against the user's thresholds, and the
+    // image-plane gaze direction (deg) of each smoothed iris from its eye centre
+    blink: BlinkState | null;
+    gazeDirection: { right: number; left: number } | null;
+}
+
+export interface SmoothedSession {
+    width: number;
+    height: number;
+    // One entry per recorded frame; null before the first measurement of either track
+    frames: (SmoothedSessionFrame | null)[];
+}
+
+/**
+ * Per-user blink thresholds from the open-eye EAR of the whole recording. The live pipeline
+ * starts from the defaults until its baseline has adapted; offline every frame can use the
+ * adapted thresholds, so narrow eyes are not taken for one long blink at the start.
+ */
+export function recordingEyeThresholds(recording: LandmarkRecording): EyeThresholds {
+    const baseline = new EarBaseline(DEFAULT_EAR_THRESHOLDS);
+    for (const frame of recording.frames) {
+        if (!frame.landmarks || frame.landmarks.length < LANDMARK_COUNT) continue;
+        baseline.push(frame.timestamp, calculateEAR(frame.landmarks, SUBJECT_LEFT_EYE), calculateEAR(frame.landmarks, SUBJECT_RIGHT_EYE), true);
+    }
+    return baseline.thresholds;
+}
+
+/**
+ * Smooths the iris offsets (held out while blinking, against the user's blink thresholds, with
+ * the online adaptive noise) and the head pose (only where PnP fits well) of a whole recording.
+ */
+export function smoothRecording(
+    recording: LandmarkRecording,
+    pipeline: HeadTrackingPipeline = new HeadTrackingPipeline()
+): SmoothedSession {
+    const results = replayRecording(recording, pipeline);
+
+    const irisRight: MotionSample[] = [];
+    const irisLeft: MotionSample[] = [];
+    const rotation: MotionSample[] = [];
+    const translation: MotionSample[] = [];
+
+    const thresholds = recordingEyeThresholds(recording);
+    const blinks: (BlinkState | null)[] = [];
+    let previousBlink: BlinkState | null = null;
+    recording.frames.forEach((frame, i) => {
+        const { timestamp, width, height } = frame;
+        const result = results[i];
+        const landmarks = frame.landmarks && frame.landmarks.length >= LANDMARK_COUNT ? frame.landmarks : null;
+        const pose = landmarks && result ? result.headPose : null;
+        const poseIsGood = !!pose && pose.reprojectionError <= MAX_POSE_REPROJECTION_ERROR;
+
+        rotation.push({ timestamp, value: poseIsGood ? [pose!.yaw, pose!.pitch, pose!.roll] : null });
+        translation.push({ timestamp, value: poseIsGood ? [pose!.translation.x, pose!.translation.y, pose!.translation.z] : null });
+
+        const blink = landmarks ? computeBlink(landmarks, previousBlink, width, height, thresholds) : null;
+        previousBlink = blink;
+        blinks.push(blink);
+        if (!landmarks || !blink || blink.isBlinking) {
+            irisRight.push({ timestamp, value: null });
+            irisLeft.push({ timestamp, value: null });
+            return;
+        }
+
+        const offsets = computeIrisOffsets(toPixelSpace(landmarks, width, height));
+        const eyeScalePx = computeEyeScale(landmarks, width, height);
+        const reprojectionError = pose ? pose.reprojectionError : MAX_POSE_REPROJECTION_ERROR;
+        irisRight.push({
+            timestamp,
+            value: [offsets.right.x, offsets.right.y],
+            noiseScale: irisMeasurementNoiseScale(blink.rightEAR, eyeScalePx, reprojectionError),
+        });
+        irisLeft.push({
+            timestamp,
+            value: [offsets.left.x, offsets.left.y],
+            noiseScale: irisMeasurementNoiseScale(blink.leftEAR, eyeScalePx, reprojectionError),
+        });
+    });
+
+    const right = smoothMotionTrack(irisRight, 2, IRIS_KALMAN);
+    const left = smoothMotionTrack(irisLeft, 2, IRIS_KALMAN);
+    const head = smoothMotionTrack(rotation, 3, ROTATION_KALMAN['constant-velocity']);
+    const position = smoothMotionTrack(translation, 3, EYE_POSITION_KALMAN['constant-velocity']);
+
+    const frames = recording.frames.map((frame, i): SmoothedSessionFrame | null => {
+        const r = right[i];
+        const l = left[i];
+        const h = head[i];
+        const p = position[i];
+        if (!r || !l || !h || !p) return null;
+        const irisRight = { x: r.position[0], y: r.position[1] };
+        const irisLeft = { x: l.position[0], y: l.position[1] };
+        const gazes = blinks[i] ? computeEyeGazes(toPixelSpace(frame.landmarks!, frame.width, frame.height), { right: irisRight, left: irisLeft }) : null;
+        return {
+            timestamp: frame.timestamp,
+            irisRight,
+            irisLeft,
+            iris: {
+                x: (r.position[0] / frame.width + l.position[0] / frame.width) / 2,
+                y: (r.position[1] / frame.height + l.position[1] / frame.height) / 2,
+            },
+            irisVelocity: {
+                x: (r.velocity[0] + l.velocity[0]) / 2,
+                y: (r.velocity[1] + l.velocity[1]) / 2,
+            },
+            headRotation: { yaw: h.position[0], pitch: h.position[1], roll: h.position[2] },
+            headTranslation: { x: p.position[0], y: p.position[1], z: p.position[2] },
+            blink: blinks[i],
+            gazeDirection: gazes ? { right: gazes.right.direction, left: gazes.left.direction } : null,
+        };
+    });
+
+    return { width: recording.width, height: recording.height, frames };
+}
+
+// --- Export ---
+
+const CSV_COLUMNS = [
+    "timestamp",
+    "iris_right_x", "iris_right_y", "iris_left_x", "iris_left_y",
+    "iris_x", "iris_y", "iris_vx", "iris_vy",
+    "head_yaw", "head_pitch", "head_roll",
+    "head_tx", "head_ty", "head_tz",
+];
+
+export function encodeSessionCsv(session: SmoothedSession): string {
+    const rows = session.frames
+        .filter((frame): frame is SmoothedSessionFrame => frame !== null)
+        .map(f => [
+            f.timestamp,
+            f.irisRight.x, f.irisRight.y, f.irisLeft.x, f.irisLeft.y,
+            f.iris.x, f.iris.y, f.irisVelocity.x, f.irisVelocity.y,
+            f.headRotation.yaw, f.headRotation.pitch, f.headRotation.roll,
+            f.headTranslation.x, f.headTranslation.y, f.headTranslation.z,
+        ].map(v => Number(v.toFixed(6))).join(","));
+    return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+export function downloadSmoothedSession(session: SmoothedSession) {
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    downloadBlob(new Blob([encodeSessionCsv(session)], { type: "text/csv" }), `session-smoothed-${stamp}.csv`);
+}
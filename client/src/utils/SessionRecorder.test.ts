@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HeadTrackingPipeline, TrackingResult } from "./HeadTrackingPipeline";
+import { LandmarkFrame, VIDEO_HEIGHT, VIDEO_WIDTH } from "./LandmarkSource";
+import { RecordedLandmarkSource } from "./RecordedLandmarkSource";
+import {
+    decodeRecordingBinary,
+    decodeRecordingJsonl,
+    encodeRecordingBinary,
+    encodeRecordingJsonl,
+    LandmarkRecording,
+    replayRecording,
+    SessionRecorder,
+} from "./SessionRecorder";
+import { DEFAULT_SYNTHETIC_MOTION, generateSyntheticLandmarks } from "./SyntheticLandmarkSource";
+import { LANDMARK_COUNT } from "./FaceModel";
+
+const FRAME_MS = 1000 / 30;
+
+// Two seconds of synthetic head motion with a blink and a dropped face in the middle
+function syntheticRecording(): LandmarkRecording {
+    const recorder = new SessionRecorder();
+    recorder.start();
+    for (let i = 0; i < 60; i++) {
+        const timestamp = 1000 + i * FRAME_MS;
+        const landmarks = i >= 40 && i < 45 ? null : generateSyntheticLandmarks(i * FRAME_MS, { ...DEFAULT_SYNTHETIC_MOTION, blinkInterval: 1000 });
+        recorder.addFrame({ landmarks, timestamp, width: VIDEO_WIDTH, height: VIDEO_HEIGHT });
+    }
+    return recorder.stop();
+}
+
+function withoutWallClock(results: (TrackingResult | null)[]) {
+    return results.map(r => {
+        if (!r) return null;
+        const { processedAt, capturedAt, ...rest } = r;
+        return rest;
+    });
+}
+
+describe("replayRecording", () => {
+    it("gives the same results on every replay", () => {
+        const recording = syntheticRecording();
+        const pipeline = new HeadTrackingPipeline();
+        const first = withoutWallClock(replayRecording(recording, pipeline));
+        // The same pipeline is reset first, so its earlier state does not leak in
+        const second = withoutWallClock(replayRecording(recording, pipeline));
+
+        expect(first).toHaveLength(recording.frames.length);
+        expect(second).toEqual(first);
+        expect(first.filter(r => r?.trackingState === 'tracking').length).toBeGreaterThan(40);
+    });
+
+    it("gives the same results after a binary or JSON lines round trip", () => {
+        const recording = syntheticRecording();
+        const binary = decodeRecordingBinary(encodeRecordingBinary(recording));
+        const jsonl = decodeRecordingJsonl(encodeRecordingJsonl(recording));
+        const direct = replayRecording(recording);
+
+        // Binary stores Float32 landmarks, so the pose only agrees to float precision
+        for (const decoded of [binary, jsonl]) {
+            expect(decoded.frames).toHaveLength(recording.frames.length);
+            replayRecording(decoded).forEach((r, i) => {
+                expect(r?.trackingState).toBe(direct[i]?.trackingState);
+                if (!r || !direct[i]) return;
+                expect(r.rotation.yaw).toBeCloseTo(direct[i]!.rotation.yaw, 3);
+                expect(r.rotation.pitch).toBeCloseTo(direct[i]!.rotation.pitch, 3);
+                expect(r.blink.isBlinking).toBe(direct[i]!.blink.isBlinking);
+            });
+        }
+    });
+});
+
+describe("RecordedLandmarkSource", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("plays the frames in order with their own timestamps", async () => {
+        const recording = syntheticRecording();
+        const played: LandmarkFrame[] = [];
+        const source = new RecordedLandmarkSource(recording.frames);
+        await source.start(frame => played.push(frame));
+        await vi.runAllTimersAsync();
+
+        expect(played.map(f => f.timestamp)).toEqual(recording.frames.map(f => f.timestamp));
+        expect(played[0].discontinuity).toBe(true);
+        expect(played.slice(1).some(f => f.discontinuity)).toBe(false);
+        expect(source.isPaused).toBe(true);
+    });
+
+    it("drives the pipeline like an offline replay", async () => {
+        const recording = syntheticRecording();
+        const pipeline = new HeadTrackingPipeline();
+        const live: (TrackingResult | null)[] = [];
+        const source = new RecordedLandmarkSource(recording.frames);
+        source.setSpeed(4);
+        await source.start(frame => live.push(pipeline.process(frame)));
+        await vi.runAllTimersAsync();
+
+        expect(withoutWallClock(live)).toEqual(withoutWallClock(replayRecording(recording)));
+    });
+});
+
+describe("decodeRecordingBinary", () => {
+    const encoded = () => encodeRecordingBinary(syntheticRecording());
+
+    it("round-trips frames and missing faces", () => {
+        const recording = syntheticRecording();
+        const decoded = decodeRecordingBinary(encodeRecordingBinary(recording));
+        expect(decoded.frames.map(f => f.timestamp)).toEqual(recording.frames.map(f => f.timestamp));
+        expect(decoded.frames.map(f => f.landmarks === null)).toEqual(recording.frames.map(f => f.landmarks === null));
+        expect(decoded.frames[0].landmarks![1].x).toBeCloseTo(recording.frames[0].landmarks![1].x, 6);
+    });
+
+    it.each([
+        { name: "a truncated file", corrupt: (buffer: ArrayBuffer) => buffer.slice(0, buffer.byteLength - 4) },
+        { name: "trailing bytes", corrupt: (buffer: ArrayBuffer) => {
+            const longer = new Uint8Array(buffer.byteLength + 16);
+            longer.set(new Uint8Array(buffer));
+            return longer.buffer;
+        } },
+        { name: "an inflated frame count", corrupt: (buffer: ArrayBuffer) => {
+            new DataView(buffer).setUint32(8, 0xffffffff, true);
+            return buffer;
+        } },
+        { name: "an inflated landmark count", corrupt: (buffer: ArrayBuffer) => {
+            new DataView(buffer).setUint32(12, 100000, true);
+            return buffer;
+        } },
+        { name: "no landmarks per frame", corrupt: (buffer: ArrayBuffer) => {
+            new DataView(buffer).setUint32(12, 0, true);
+            return buffer;
+        } },
+    ])("rejects $name", ({ corrupt }) => {
+        expect(() => decodeRecordingBinary(corrupt(encoded()))).toThrow(/^Invalid recording/);
+    });
+
+    it("rejects other files", () => {
+        expect(() => decodeRecordingBinary(new TextEncoder().encode("{\"version\":1}\n").buffer)).toThrow(/Not a binary/);
+    });
+});
+
+describe("decodeRecordingJsonl", () => {
+    // The JSON lines of a recording with line `index` (0 = header) replaced
+    const encodedWith = (index: number, line: string) => {
+        const lines = encodeRecordingJsonl(syntheticRecording()).trimEnd().split("\n");
+        lines[index] = line;
+        return lines.join("\n");
+    };
+
+    it("round-trips frames and missing faces", () => {
+        const recording = syntheticRecording();
+        const decoded = decodeRecordingJsonl(encodeRecordingJsonl(recording));
+        expect(decoded.width).toBe(VIDEO_WIDTH);
+        expect(decoded.frames.map(f => f.timestamp)).toEqual(recording.frames.map(f => f.timestamp));
+        expect(decoded.frames.map(f => f.landmarks === null)).toEqual(recording.frames.map(f => f.landmarks === null));
+        expect(decoded.frames[0].landmarks![1].x).toBeCloseTo(recording.frames[0].landmarks![1].x, 5);
+    });
+
+    it("reads an empty recording", () => {
+        const recorder = new SessionRecorder();
+        recorder.start();
+        expect(decodeRecordingJsonl(encodeRecordingJsonl(recorder.stop())).frames).toEqual([]);
+    });
+
+    it.each([
+        { name: "an empty file", text: "\n\n", error: /^Empty recording/ },
+        { name: "a header that is not JSON", text: encodedWith(0, "version: 1"), error: /^Invalid recording: line 1 is not JSON/ },
+        { name: "a header without a frame size", text: encodedWith(0, "{\"version\":1}"), error: /^Invalid recording header/ },
+        { name: "a frame that is not JSON", text: encodedWith(3, "{\"t\": 100,"), error: /^Invalid recording: line 4 is not JSON/ },
+        { name: "a frame that is not an object", text: encodedWith(3, "null"), error: /^Invalid recording: line 4 has no numeric timestamp/ },
+        { name: "a frame without a timestamp", text: encodedWith(3, "{\"l\":null}"), error: /^Invalid recording: line 4 has no numeric timestamp/ },
+        { name: "a string timestamp", text: encodedWith(3, "{\"t\":\"100\",\"l\":null}"), error: /^Invalid recording: line 4 has no numeric timestamp/ },
+        { name: "missing landmarks", text: encodedWith(3, "{\"t\":100}"), error: /^Invalid recording: line 4 needs "l"/ },
+        { name: "too few landmarks", text: encodedWith(3, "{\"t\":100,\"l\":[0.5,0.5,0]}"), error: /^Invalid recording: line 4 needs "l"/ },
+        { name: "a non-numeric landmark", text: encodedWith(3, `{"t":100,"l":[${Array(LANDMARK_COUNT * 3 - 1).fill(0.5).join(",")},"x"]}`), error: /^Invalid recording: line 4 needs "l"/ },
+    ])("rejects $name with a clear error", ({ text, error }) => {
+        expect(() => decodeRecordingJsonl(text)).toThrow(error);
+    });
+});
@@ -0,0 +1,265 @@
+/**
+ * Session Recorder
+ * Captures landmark frames from a LandmarkSource and (de)serializes them so a session can be
+ * replayed later through the exact same pipeline.
+ *
+ * Formats:
+ * - JSON lines (.jsonl): header line, then one `{"t": ms, "l": [x, y, z, ...] | null}` per frame.
+ * - Binary (.lmrec): 24 byte header, Float64 timestamps, then Float32 landmarks (NaN for "no face").
+ */
+import { Point3D } from "./FaceUtils";
+import { LANDMARK_COUNT } from "./FaceModel";
+import { LandmarkFrame } from "./LandmarkSource";
+import { HeadTrackingPipeline, TrackingResult } from "./HeadTrackingPipeline";
+
+export interface LandmarkRecording {
+    version: number;
+    createdAt: string;
+    width: number;
+    height: number;
+    frames: LandmarkFrame[];
+}
+
+export type RecordingFormat = 'jsonl' | 'binary';
+
+const RECORDING_VERSION = 1;
+const BINARY_MAGIC = "LMRC";
+const BINARY_HEADER_BYTES = 24;
+const JSON_PRECISION = 1e5;
+
+export class SessionRecorder {
+    private frames: LandmarkFrame[] = [];
+    private recording = false;
+
+    public get isRecording() {
+        return this.recording;
+    }
+
+    public get frameCount() {
+        return this.frames.length;
+    }
+
+    public start() {
+        this.frames = [];
+        this.recording = true;
+    }
+
+    public addFrame(frame: LandmarkFrame) {
+        if (!this.recording) return;
+        // Copy so later mutation by the detector can't alter the recording
+        this.frames.push({
+            landmarks: frame.landmarks ? frame.landmarks.map(p => ({ x: p.x, y: p.y, z: p.z })) : null,
+            timestamp: frame.timestamp,
+            width: frame.width,
+            height: frame.height,
+        });
+    }
+
+    public stop(): LandmarkRecording {
+        this.recording = false;
+        const first = this.frames[0];
+        return {
+            version: RECORDING_VERSION,
+            createdAt: new Date().toISOString(),
+            width: first ? first.width : 0,
+            height: first ? first.height : 0,
+            frames: this.frames,
+        };
+    }
+}
+
+// --- JSON lines ---
+
+export function encodeRecordingJsonl(recording: LandmarkRecording): string {
+    const round = (v: number) => Math.round(v * JSON_PRECISION) / JSON_PRECISION;
+    const header = JSON.stringify({
+        version: recording.version,
+        createdAt: recording.createdAt,
+        width: recording.width,
+        height: recording.height,
+    });
+    const lines = recording.frames.map(frame => JSON.stringify({
+        t: frame.timestamp,
+        l: frame.landmarks ? frame.landmarks.flatMap(p => [round(p.x), round(p.y), round(p.z)]) : null,
+    }));
+    return [header, ...lines].join("\n") + "\n";
+}
+
+/**
+ * Parses a JSON lines recording. The file is untrusted: every line is checked, and the first bad
+ * one is reported with its line number instead of reaching the pipeline.
+ */
+export function decodeRecordingJsonl(text: string): LandmarkRecording {
+    const lines = text.split("\n")
+        .map((line, i) => ({ line, number: i + 1 }))
+        .filter(({ line }) => line.trim().length > 0);
+    if (lines.length === 0) throw new Error("Empty recording");
+
+    const header = parseJsonLine(lines[0].line, lines[0].number);
+    // An empty recording has no frame size (SessionRecorder.stop writes 0)
+    if (!isFiniteNumber(header?.width) || !isFiniteNumber(header?.height) || header.width < 0 || header.height < 0) {
+        throw new Error("Invalid recording header: width and height must be non-negative numbers");
+    }
+
+    const frames = lines.slice(1).map(({ line, number }) => {
+        const entry = parseJsonLine(line, number);
+        if (!isFiniteNumber(entry?.t)) {
+            throw new Error(`Invalid recording: line ${number} has no numeric timestamp "t"`);
+        }
+        const l: unknown = entry.l;
+        if (l !== null && !(Array.isArray(l) && l.length === LANDMARK_COUNT * 3 && l.every(isFiniteNumber))) {
+            throw new Error(`Invalid recording: line ${number} needs "l" as null or ${LANDMARK_COUNT * 3} numbers`);
+        }
+        return {
+            landmarks: l ? unflatten(l) : null,
+            timestamp: entry.t,
+            width: header.width,
+            height: header.height,
+        };
+    });
+
+    return {
+        version: header.version ?? RECORDING_VERSION,
+        createdAt: header.createdAt ?? "",
+        width: header.width,
+        height: header.height,
+        frames,
+    };
+}
+
+function parseJsonLine(line: string, number: number) {
+    try {
+        return JSON.parse(line);
+    } catch {
+        throw new Error(`Invalid recording: line ${number} is not JSON`);
+    }
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === "number" && Number.isFinite(value);
+}
+
+// --- Binary ---
+
+export function encodeRecordingBinary(recording: LandmarkRecording): ArrayBuffer {
+    const count = recording.frames.length;
+    const pointsPerFrame = LANDMARK_COUNT * 3;
+    const timestampBytes = count * 8;
+    const buffer = new ArrayBuffer(BINARY_HEADER_BYTES + timestampBytes + count * pointsPerFrame * 4);
+
+    const view = new DataView(buffer);
+    for (let i = 0; i < 4; i++) view.setUint8(i, BINARY_MAGIC.charCodeAt(i));
+    view.setUint32(4, recording.version, true);
+    view.setUint32(8, count, true);
+    view.setUint32(12, LANDMARK_COUNT, true);
+    view.setUint32(16, recording.width, true);
+    view.setUint32(20, recording.height, true);
+
+    const timestamps = new Float64Array(buffer, BINARY_HEADER_BYTES, count);
+    const points = new Float32Array(buffer, BINARY_HEADER_BYTES + timestampBytes, count * pointsPerFrame);
+
+    recording.frames.forEach((frame, f) => {
+        timestamps[f] = frame.timestamp;
+        const base = f * pointsPerFrame;
+        for (let i = 0; i < LANDMARK_COUNT; i++) {
+            const p = frame.landmarks ? frame.landmarks[i] : null;
+            points[base + i * 3] = p ? p.x : NaN;
+            points[base + i * 3 + 1] = p ? p.y : NaN;
+            points[base + i * 3 + 2] = p ? p.z : NaN;
+        }
+    });
+
+    return buffer;
+}
+
+export function decodeRecordingBinary(buffer: ArrayBuffer): LandmarkRecording {
+    if (!isBinaryRecording(buffer)) throw new Error("Not a binary landmark recording");
+
+    const view = new DataView(buffer);
+    const version = view.getUint32(4, true);
+    const count = view.getUint32(8, true);
+    const landmarkCount = view.getUint32(12, true);
+    const width = view.getUint32(16, true);
+    const height = view.getUint32(20, true);
+
+    // The header is untrusted: a truncated or corrupt file must not reach the typed array views
+    const pointsPerFrame = landmarkCount * 3;
+    const expectedBytes = BINARY_HEADER_BYTES + count * 8 + count * pointsPerFrame * 4;
+    if (count > 0 && landmarkCount === 0) {
+        throw new Error("Invalid recording: frames without landmarks");
+    }
+    if (buffer.byteLength !== expectedBytes) {
+        throw new Error(`Invalid recording: ${count} frames of ${landmarkCount} landmarks need ${expectedBytes} bytes, the file has ${buffer.byteLength}`);
+    }
+    const timestamps = new Float64Array(buffer, BINARY_HEADER_BYTES, count);
+    const points = new Float32Array(buffer, BINARY_HEADER_BYTES + count * 8, count * pointsPerFrame);
+
+    const frames: LandmarkFrame[] = [];
+    for (let f = 0; f < count; f++) {
+        const slice = points.subarray(f * pointsPerFrame, (f + 1) * pointsPerFrame);
+        frames.push({
+            landmarks: Number.isNaN(slice[0]) ? null : unflatten(slice),
+            timestamp: timestamps[f],
+            width,
+            height,
+        });
+    }
+
+    return { version, createdAt: "", width, height, frames };
+}
+
+function isBinaryRecording(buffer: ArrayBuffer): boolean {
+    if (buffer.byteLength < BINARY_HEADER_BYTES) return false;
+    const magic = new TextDecoder().decode(new Uint8Array(buffer, 0, 4));
+    return magic === BINARY_MAGIC;
+}
+
+function unflatten(values: ArrayLike<number>): Point3D[] {
+    const points: Point3D[] = [];
+    for (let i = 0; i + 2 < values.length; i += 3) {
+        points.push({ x: values[i], y: values[i + 1], z: values[i + 2] });
+    }
+    return points;
+}
+
+// --- Files ---
+
+/**
+ * Reads a recording file, detecting binary vs JSON lines from its content.
+ */
+export async function readRecordingFile(file: Blob): Promise<LandmarkRecording> {
+    const buffer = await file.arrayBuffer();
+    if (isBinaryRecording(buffer)) return decodeRecordingBinary(buffer);
+    return decodeRecordingJsonl(new TextDecoder().decode(buffer));
+}
+
+export function downloadRecording(recording: LandmarkRecording, format: RecordingFormat = 'binary') {
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const blob = format === 'binary'
+        ? new Blob([encodeRecordingBinary(recording)], { type: "application/octet-stream" })
+        : new Blob([encodeRecordingJsonl(recording)], { type: "application/x-ndjson" });
+    downloadBlob(blob, `session-${stamp}.${format === 'binary' ? "lmrec" : "jsonl"}`);
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+// --- Replay ---
+
+/**
+ * Runs a whole recording through a fresh pipeline as fast as possible.
+ * The output only depends on the recording, so it can be used for regression checks.
+ */
+export function replayRecording(
+    recording: LandmarkRecording,
+    pipeline: HeadTrackingPipeline = new HeadTrackingPipeline()
+): (TrackingResult | null)[] {
+    pipeline.reset();
+    return recording.frames.map(frame => pipeline.process(frame));
+}
@@ -0,0 +1,143 @@
+/**
+ * Synthetic landmark generator for headless testing.
+ * Projects FACE_MODEL_MM through a pinhole camera while the head sways, the eyes wander and blink.
+ * Landmarks not covered by the model are parked on the nose bridge so the frame has the full length.
+ */
+import { Point3D } from "./FaceUtils";
+import { EYEBALL_RADIUS_MM, EYELID_HALF_OPENING_MM, FACE_MODEL_MM, LANDMARK_COUNT } from "./FaceModel";
+import { clockNow, LandmarkListener, LandmarkSource, VIDEO_HEIGHT, VIDEO_WIDTH } from "./LandmarkSource";
+
+export interface SyntheticMotion {
+    fps: number;
+    distanceMm: number;      // Head distance from the camera
+    yawAmplitude: number;    // Radians
+    pitchAmplitude: number;  // Radians
+    swayMm: number;          // Lateral head translation amplitude
+    period: number;          // Seconds per head sweep
+    gazeAmplitude: number;   // Radians of eye rotation
+    blinkInterval: number;   // ms between blinks (0 disables blinking)
+    blinkDuration: number;   // ms
+    horizontalFov: number;   // Camera horizontal field of view in radians
+}
+
+export const DEFAULT_SYNTHETIC_MOTION: SyntheticMotion = {
+    fps: 30,
+    distanceMm: 600,
+    yawAmplitude: 0.3,
+    pitchAmplitude: 0.15,
+    swayMm: 40,
+    period: 6,
+    gazeAmplitude: 0.25,
+    blinkInterval: 4000,
+    blinkDuration: 150,
+    horizontalFov: (60 * Math.PI) / 180,
+};
+
+const RIGHT_IRIS = [468, 469, 470, 471, 472];
+const LEFT_IRIS = [473, 474, 475, 476, 477];
+const UPPER_LIDS = [160, 158, 385, 387];
+const LOWER_LIDS = [153, 144, 373, 380];
+
+/**
+ * Generates one landmark frame for time t (ms since start). Pure, so tests can call it directly.
+ */
+export function generateSyntheticLandmarks(
+    t: number,
+    motion: SyntheticMotion = DEFAULT_SYNTHETIC_MOTION,
+    width = VIDEO_WIDTH,
+    height = VIDEO_HEIGHT
+): Point3D[] {
+    const phase = (2 * Math.PI * t) / (motion.period * 1000);
+    const yaw = motion.yawAmplitude * Math.sin(phase);
+    const pitch = motion.pitchAmplitude * Math.sin(phase * 0.77);
+    const sway = motion.swayMm * Math.sin(phase * 0.5);
+    const gazeYaw = motion.gazeAmplitude * Math.sin(phase * 1.9);
+    const gazePitch = motion.gazeAmplitude * 0.5 * Math.cos(phase * 1.3);
+
+    const isBlinking = motion.blinkInterval > 0 && t % motion.blinkInterval < motion.blinkDuration;
+    const lidClosure = isBlinking ? 0.9 * EYELID_HALF_OPENING_MM : 0;
+
+    // Eye rotation shifts the iris across the eye opening
+    const irisShiftX = EYEBALL_RADIUS_MM * Math.sin(gazeYaw);
+    const irisShiftY = EYEBALL_RADIUS_MM * Math.sin(gazePitch);
+
+    const focal = width / 2 / Math.tan(motion.horizontalFov / 2);
+    const cosY = Math.cos(yaw), sinY = Math.sin(yaw);
+    const cosP = Math.cos(pitch), sinP = Math.sin(pitch);
+
+    const project = (p: Point3D): Point3D => {
+        // Rotate: yaw about Y, then pitch about X
+        const x1 = cosY * p.x + sinY * p.z;
+        const z1 = -sinY * p.x + cosY * p.z;
+        const y2 = cosP * p.y - sinP * z1;
+        const z2 = sinP * p.y + cosP * z1;
+
+        // Model (Y up, Z towards camera) to camera (Y down, Z forward)
+        const cx = x1 + sway;
+        const cy = -y2;
+        const cz = motion.distanceMm - z2;
+
+        return {
+            x: (width / 2 + (focal * cx) / cz) / width,
+            y: (height / 2 + (focal * cy) / cz) / height,
+            z: -(focal * z2) / motion.distanceMm / width,
+        };
+    };
+
+    const model: Record<number, Point3D> = {};
+    for (const key of Object.keys(FACE_MODEL_MM)) {
+        const idx = Number(key);
+        const p = { ...FACE_MODEL_MM[idx] };
+        if (RIGHT_IRIS.includes(idx) || LEFT_IRIS.includes(idx)) {
+            p.x += irisShiftX;
+            p.y += irisShiftY;
+        }
+        if (UPPER_LIDS.includes(idx)) p.y -= lidClosure;
+        if (LOWER_LIDS.includes(idx)) p.y += lidClosure;
+        model[idx] = p;
+    }
+
+    const filler = project(model[168]);
+    const landmarks: Point3D[] = new Array(LANDMARK_COUNT);
+    for (let i = 0; i < LANDMARK_COUNT; i++) {
+        landmarks[i] = model[i] ? project(model[i]) : { ...filler };
+    }
+    return landmarks;
+}
+
+export class SyntheticLandmarkSource implements LandmarkSource {
+    public readonly kind = 'synthetic';
+
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private startTime = 0;
+    private paused = false;
+    private motion: SyntheticMotion;
+
+    constructor(motion: Partial<SyntheticMotion> = {}) {
+        this.motion = { ...DEFAULT_SYNTHETIC_MOTION, ...motion };
+    }
+
+    public async start(listener: LandmarkListener): Promise<void> {
+        this.stop();
+        this.startTime = clockNow();
+        this.timer = setInterval(() => {
+            if (this.paused) return;
+            const timestamp = clockNow();
+            listener({
+                landmarks: generateSyntheticLandmarks(timestamp - this.startTime, this.motion),
+                timestamp,
+                width: VIDEO_WIDTH,
+                height: VIDEO_HEIGHT,
+            });
+        }, 1000 / this.motion.fps);
+    }
+
+    public stop() {
+        if (this.timer !== null) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    public setPaused(paused: boolean) {
+        this.paused = paused;
+    }
+}
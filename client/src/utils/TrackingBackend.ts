@@ -0,0 +1,219 @@
+/**
+ * Tracking Backends
+ * Where the detector and HeadTrackingPipeline run. The worker backend keeps both off the main
+ * thread so rendering is never blocked by inference; the main-thread backend is the fallback
+ * for browsers without module workers / OffscreenCanvas and for sources that need the DOM.
+ */
+import { HeadTrackingPipeline, PipelineConfig, TrackingResult } from "./HeadTrackingPipeline";
+import { clockNow, LandmarkFrame, LandmarkSource, startCamera, VIDEO_HEIGHT, VIDEO_WIDTH } from "./LandmarkSource";
+import { decodeLandmarks, decodeTrackingResult, encodeLandmarks } from "./PoseCodec";
+import { TrackingWorkerRequest, TrackingWorkerResponse } from "../workers/trackingProtocol";
+
+// `frame` is lazy: decoding landmarks is only worth it when someone (the recorder) needs them
+export type TrackingBackendListener = (result: TrackingResult | null, frame: () => LandmarkFrame) => void;
+// Failures after start() resolved (start() itself rejects for failures while starting)
+export type TrackingBackendErrorListener = (error: Error) => void;
+
+export interface TrackingBackend {
+    readonly kind: 'main-thread' | 'worker';
+    start(listener: TrackingBackendListener, onError?: TrackingBackendErrorListener): Promise<void>;
+    stop(): void;
+    setPaused(paused: boolean): void;
+    configure(config: Partial<PipelineConfig>): void;
+    recenter(): void;
+}
+
+export function isWorkerTrackingSupported(): boolean {
+    return typeof Worker !== "undefined"
+        && typeof OffscreenCanvas !== "undefined"
+        && typeof createImageBitmap !== "undefined";
+}
+
+export class MainThreadBackend implements TrackingBackend {
+    public readonly kind = 'main-thread';
+
+    constructor(
+        private source: LandmarkSource,
+        private pipeline: HeadTrackingPipeline = new HeadTrackingPipeline()
+    ) { }
+
+    public start(listener: TrackingBackendListener): Promise<void> {
+        this.pipeline.reset();
+        return this.source.start(frame => listener(this.pipeline.process(frame), () => frame));
+    }
+
+    public stop() {
+        this.source.stop();
+    }
+
+    public setPaused(paused: boolean) {
+        this.source.setPaused(paused);
+    }
+
+    public configure(config: Partial<PipelineConfig>) {
+        this.pipeline.configure(config);
+    }
+
+    public recenter() {
+        this.pipeline.recenter();
+    }
+}
+
+// Either the worker detects on webcam frames grabbed from `video`, or it only runs the pipeline
+// on landmark frames forwarded from `source`
+export type WorkerBackendInput = { video: HTMLVideoElement } | { source: LandmarkSource };
+
+export class WorkerBackend implements TrackingBackend {
+    public readonly kind = 'worker';
+
+    private worker: Worker | null = null;
+    private stream: MediaStream | null = null;
+    private rafId: number | null = null;
+    private lastVideoTime = -1;
+    private frameInFlight = false;
+    private paused = false;
+    private stopped = false;
+    private config: Partial<PipelineConfig> = {};
+    // Settles the detector initialisation start() is waiting on (an error message rejects it)
+    private settleInit: ((error: string | null) => void) | null = null;
+
+    constructor(private input: WorkerBackendInput) { }
+
+    public async start(listener: TrackingBackendListener, onError?: TrackingBackendErrorListener): Promise<void> {
+        this.stopped = false;
+        const worker = new Worker(new URL("../workers/tracking.worker.ts", import.meta.url), { type: "module" });
+        this.worker = worker;
+
+        worker.onmessage = (event: MessageEvent<TrackingWorkerResponse>) => {
+            const message = event.data;
+            switch (message.type) {
+                case 'ready':
+                    this.settleInit?.(null);
+                    break;
+                case 'error':
+                    this.fail(message.message, onError);
+                    break;
+                case 'result': {
+                    this.frameInFlight = false;
+                    const result = message.pose ? decodeTrackingResult(message.pose) : null;
+                    listener(result, () => ({
+                        landmarks: message.landmarks ? decodeLandmarks(message.landmarks) : null,
+                        timestamp: message.timestamp,
+                        width: message.width,
+                        height: message.height,
+                    }));
+                    break;
+                }
+            }
+        };
+        worker.onerror = event => this.fail(event.message || "Tracking worker failed", onError);
+
+        this.post({ type: 'reset' });
+        this.post({ type: 'config', config: this.config });
+
+        if ('source' in this.input) {
+            const source = this.input.source;
+            source.setPaused(this.paused);
+            await source.start(frame => {
+                const landmarks = frame.landmarks ? encodeLandmarks(frame.landmarks) : null;
+                this.post({
+                    type: 'landmarks',
+                    landmarks,
+                    timestamp: frame.timestamp,
+                    width: frame.width,
+                    height: frame.height,
+                    discontinuity: frame.discontinuity,
+                    capturedAt: frame.capturedAt,
+                }, landmarks ? [landmarks.buffer] : []);
+            });
+            return;
+        }
+
+        // Only awaited here: the source input has no detector to wait for
+        const initialized = new Promise<void>((resolve, reject) => {
+            this.settleInit = error => (error ? reject(new Error(error)) : resolve());
+        });
+        this.post({ type: 'init' });
+        try {
+            await initialized;
+        } finally {
+            this.settleInit = null;
+        }
+        if (this.stopped) return;
+
+        const video = this.input.video;
+        this.stream = await startCamera(video, VIDEO_WIDTH, VIDEO_HEIGHT);
+        if (this.stopped) {
+            this.stop();
+            return;
+        }
+
+        const loop = () => {
+            if (this.stopped) return;
+            this.rafId = requestAnimationFrame(loop);
+
+            // One frame in flight at a time: if the worker falls behind, frames are skipped, not queued
+            if (this.paused || this.frameInFlight || video.currentTime === this.lastVideoTime) return;
+            this.lastVideoTime = video.currentTime;
+            this.frameInFlight = true;
+
+            const timestamp = clockNow();
+            createImageBitmap(video)
+                .then(bitmap => {
+                    if (this.stopped) {
+                        bitmap.close();
+                        return;
+                    }
+                    this.post({ type: 'frame', bitmap, timestamp }, [bitmap]);
+                })
+                .catch(err => {
+                    console.warn("Failed to capture video frame:", err);
+                    this.frameInFlight = false;
+                });
+        };
+        loop();
+    }
+
+    public stop() {
+        this.stopped = true;
+        if (this.rafId !== null) cancelAnimationFrame(this.rafId);
+        this.rafId = null;
+        this.stream?.getTracks().forEach(track => track.stop());
+        this.stream = null;
+        if ('source' in this.input) this.input.source.stop();
+        this.worker?.terminate();
+        this.worker = null;
+        // A terminated worker never answers; don't leave start() waiting
+        this.settleInit?.("Tracking worker stopped before it was ready");
+        this.settleInit = null;
+    }
+
+    public setPaused(paused: boolean) {
+        this.paused = paused;
+        if ('source' in this.input) this.input.source.setPaused(paused);
+    }
+
+    public configure(config: Partial<PipelineConfig>) {
+        this.config = { ...this.config, ...config };
+        this.post({ type: 'config', config });
+    }
+
+    public recenter() {
+        this.post({ type: 'recenter' });
+    }
+
+    // While starting, the failure rejects start(); afterwards the frame it answers is done and the
+    // error goes to the caller, so the capture loop never waits on a frame that will not come
+    private fail(error: string, onError?: TrackingBackendErrorListener) {
+        if (this.settleInit) {
+            this.settleInit(error);
+            return;
+        }
+        this.frameInFlight = false;
+        if (!this.stopped) onError?.(new Error(error));
+    }
+
+    private post(message: TrackingWorkerRequest, transfer: Transferable[] = []) {
+        this.worker?.postMessage(message, transfer);
+    }
+}
@@ -0,0 +1,78 @@
+/**
+ * Tracking State
+ * Tracks whether the face is currently usable:
+ * - acquiring: no face yet, or the face just came back and is being confirmed
+ * - tracking:  face found with a trustworthy pose
+ * - degraded:  pose is unreliable, or the face vanished only briefly
+ * - lost:      no face for LOST_AFTER_MS
+ */
+export type TrackingState = 'acquiring' | 'tracking' | 'degraded' | 'lost';
+
+// What the output does while the face is missing
+export type LossBehavior = 'hold' | 'ease' | 'coast';
+
+export const TRACKING_STATES: TrackingState[] = ['acquiring', 'tracking', 'degraded', 'lost'];
+export const LOSS_BEHAVIORS: LossBehavior[] = ['hold', 'ease', 'coast'];
+
+// Missing for longer than this counts as lost (short dropouts are degraded)
+export const LOST_AFTER_MS = 500;
+
+// Consecutive good frames before acquiring becomes tracking
+export const ACQUIRE_FRAMES = 5;
+
+// good: face with a reliable pose, poor: face with an unreliable pose, missing: no usable face
+export type FaceObservation = 'good' | 'poor' | 'missing';
+
+export class TrackingStateMachine {
+    private current: TrackingState = 'acquiring';
+    private goodFrames = 0;
+    private lastSeen: number | null = null;
+
+    public get state(): TrackingState {
+        return this.current;
+    }
+
+    // Timestamp of the last frame with a face, null if none since reset
+    public get lastSeenAt(): number | null {
+        return this.lastSeen;
+    }
+
+    // 0..1 while acquiring, 1 otherwise
+    public get acquireProgress(): number {
+        return this.current === 'acquiring' ? this.goodFrames / ACQUIRE_FRAMES : 1;
+    }
+
+    public update(observation: FaceObservation, timestamp: number): TrackingState {
+        if (observation === 'missing') {
+            this.goodFrames = 0;
+            if (this.lastSeen === null) {
+                this.current = 'acquiring';
+            } else if (timestamp - this.lastSeen >= LOST_AFTER_MS) {
+                this.current = 'lost';
+            } else if (this.current === 'tracking') {
+                this.current = 'degraded';
+            }
+            return this.current;
+        }
+
+        this.lastSeen = timestamp;
+        if (this.current === 'lost') {
+            this.current = 'acquiring';
+            this.goodFrames = 0;
+        }
+
+        if (this.current === 'acquiring') {
+            if (observation === 'good') this.goodFrames++;
+            if (this.goodFrames >= ACQUIRE_FRAMES) this.current = 'tracking';
+        } else {
+            this.current = observation === 'good' ? 'tracking' : 'degraded';
+        }
+        return this.current;
+    }
+
+    public reset() {
+        this.current = 'acquiring';
+        this.goodFrames = 0;
+        this.lastSeen = null;
+    }
+}
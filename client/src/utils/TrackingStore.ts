@@ -0,0 +1,38 @@
+/**
+ * Tracking Store
+ * Holds the latest TrackingResult outside React. The 3D scene reads `current` inside useFrame,
+ * so a new pose never re-renders the component tree; React UI subscribes at a throttled rate.
+ */
+import { TrackingResult } from "./HeadTrackingPipeline";
+import { clockNow } from "./LandmarkSource";
+import { LatencyMonitor } from "./PosePredictor";
+
+export type TrackingStoreListener = (result: TrackingResult) => void;
+
+export class TrackingStore {
+    public current: TrackingResult | null = null;
+    public receivedAt = 0; // clockNow() when `current` arrived
+    public readonly latency = new LatencyMonitor();
+
+    private listeners = new Set<TrackingStoreListener>();
+
+    public publish(result: TrackingResult) {
+        this.current = result;
+        this.receivedAt = clockNow();
+        this.latency.recordResult(result, this.receivedAt);
+        this.listeners.forEach(listener => listener(result));
+    }
+
+    public clear() {
+        this.current = null;
+        this.receivedAt = 0;
+        this.latency.reset();
+    }
+
+    public subscribe(listener: TrackingStoreListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+}
@@ -108,3 +108,59 @@ export function applyHomography(p: Point, h: number[]): Point {
 
     return { x, y };
 }
+
+// Solve A x = b for square A using Gaussian Elimination with partial pivoting.
+// Returns null if A is singular.
+export function solveLinearSystem(A: number[][], b: number[]): number[] | null {
+    const n = b.length;
+    const M = A.map((row, i) => [...row, b[i]]);
+
+    for (let i = 0; i < n; i++) {
+        // Pivot
+        let pivotRow = i;
+        for (let j = i + 1; j < n; j++) {
+            if (Math.abs(M[j][i]) > Math.abs(M[pivotRow][i])) pivotRow = j;
+        }
+        [M[i], M[pivotRow]] = [M[pivotRow], M[i]];
+        if (Math.abs(M[i][i]) < 1e-12) return null;
+
+        for (let j = i + 1; j < n; j++) {
+            const factor = M[j][i] / M[i][i];
+            for (let k = i; k <= n; k++) M[j][k] -= factor * M[i][k];
+        }
+    }
+
+    // Back substitution
+    const x = new Array(n).fill(0);
+    for (let i = n - 1; i >= 0; i--) {
+        let sum = M[i][n];
+        for (let j = i + 1; j < n; j++) sum -= M[i][j] * x[j];
+        x[i] = sum / M[i][i];
+    }
+    return x;
+}
+
+// Least-squares line y = slope * x + intercept.
+// Returns null with fewer than two distinct x values.
+export function fitLine(xs: number[], ys: number[]): { slope: number; intercept: number } | null {
+    const n = Math.min(xs.length, ys.length);
+    if (n < 2) return null;
+
+    let meanX = 0, meanY = 0;
+    for (let i = 0; i < n; i++) {
+        meanX += xs[i];
+        meanY += ys[i];
+    }
+    meanX /= n;
+    meanY /= n;
+
+    let sxx = 0, sxy = 0;
+    for (let i = 0; i < n; i++) {
+        sxx += (xs[i] - meanX) * (xs[i] - meanX);
+        sxy += (xs[i] - meanX) * (ys[i] - meanY);
+    }
+    if (sxx < 1e-12) return null;
+
+    const slope = sxy / sxx;
+    return { slope, intercept: meanY - slope * meanX };
+}
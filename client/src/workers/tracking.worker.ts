@@ -0,0 +1,110 @@
+/**
+ * Tracking worker: runs the FaceLandmarker (GPU delegate on an OffscreenCanvas) and the
+ * HeadTrackingPipeline off the main thread, posting one packed pose per processed frame.
+ */
+import { HeadTrackingPipeline } from "../utils/HeadTrackingPipeline";
+import { createFaceLandmarker, FaceLandmarker } from "../utils/FaceLandmarkerSource";
+import { LandmarkFrame } from "../utils/LandmarkSource";
+import { Point3D } from "../utils/FaceUtils";
+import { decodeLandmarks, encodeLandmarks, encodeTrackingResult } from "../utils/PoseCodec";
+import { TrackingWorkerRequest, TrackingWorkerResponse } from "./trackingProtocol";
+
+interface WorkerScope {
+    onmessage: ((event: MessageEvent<TrackingWorkerRequest>) => void) | null;
+    postMessage(message: TrackingWorkerResponse, transfer?: Transferable[]): void;
+}
+
+const scope = self as unknown as WorkerScope;
+const pipeline = new HeadTrackingPipeline();
+let landmarker: FaceLandmarker | null = null;
+let lastDetectTimestamp = -1;
+
+function post(message: TrackingWorkerResponse) {
+    const transfer: Transferable[] = [];
+    if (message.type === 'result') {
+        if (message.pose) transfer.push(message.pose.buffer);
+        if (message.landmarks) transfer.push(message.landmarks.buffer);
+    }
+    scope.postMessage(message, transfer);
+}
+
+function processFrame(frame: LandmarkFrame, encodedLandmarks: Float32Array | null) {
+    const result = pipeline.process(frame);
+    post({
+        type: 'result',
+        pose: result ? encodeTrackingResult(result) : null,
+        landmarks: encodedLandmarks,
+        timestamp: frame.timestamp,
+        width: frame.width,
+        height: frame.height,
+    });
+}
+
+function postError(err: unknown) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+}
+
+async function init() {
+    try {
+        landmarker = await createFaceLandmarker(new OffscreenCanvas(1, 1));
+        post({ type: 'ready' });
+    } catch (err: unknown) {
+        postError(err);
+    }
+}
+
+// Every frame is answered with a result or an error: the main thread sends the next one only then
+function detect(bitmap: ImageBitmap, timestamp: number) {
+    const width = bitmap.width;
+    const height = bitmap.height;
+    let landmarks: Point3D[] | null = null;
+
+    try {
+        if (landmarker) {
+            // detectForVideo needs strictly increasing timestamps
+            lastDetectTimestamp = Math.max(timestamp, lastDetectTimestamp + 1);
+            const result = landmarker.detectForVideo(bitmap, lastDetectTimestamp);
+            if (result.faceLandmarks && result.faceLandmarks.length > 0) landmarks = result.faceLandmarks[0];
+        }
+        processFrame({ landmarks, timestamp, width, height }, landmarks ? encodeLandmarks(landmarks) : null);
+    } catch (err: unknown) {
+        postError(err);
+    } finally {
+        bitmap.close();
+    }
+}
+
+scope.onmessage = (event) => {
+    const message = event.data;
+    switch (message.type) {
+        case 'init':
+            init();
+            break;
+        case 'frame':
+            detect(message.bitmap, message.timestamp);
+            break;
+        case 'landmarks':
+            try {
+                processFrame({
+                    landmarks: message.landmarks ? decodeLandmarks(message.landmarks) : null,
+                    timestamp: message.timestamp,
+                    width: message.width,
+                    height: message.height,
+                    discontinuity: message.discontinuity,
+                    capturedAt: message.capturedAt,
+                }, message.landmarks);
+            } catch (err: unknown) {
+                postError(err);
+            }
+            break;
+        case 'config':
+            pipeline.configure(message.config);
+            break;
+        case 'recenter':
+            pipeline.recenter();
+            break;
+        case 'reset':
+            pipeline.reset();
+            break;
+    }
+};
@@ -0,0 +1,37 @@
+/**
+ * Messages between the main thread and tracking.worker.ts.
+ * Pose and landmarks are typed arrays (see PoseCodec) and are transferred, not copied.
+ */
+import { PipelineConfig } from "../utils/HeadTrackingPipeline";
+
+export type TrackingWorkerRequest =
+    // Load the detector. Not needed when only landmark frames are sent.
+    | { type: 'init' }
+    // A camera frame to run detection + pipeline on
+    | { type: 'frame'; bitmap: ImageBitmap; timestamp: number }
+    // Already-detected landmarks (replay / synthetic), pipeline only
+    | {
+        type: 'landmarks';
+        landmarks: Float32Array | null;
+        timestamp: number;
+        width: number;
+        height: number;
+        discontinuity?: boolean;
+        capturedAt?: number;
+    }
+    | { type: 'config'; config: Partial<PipelineConfig> }
+    | { type: 'recenter' }
+    | { type: 'reset' };
+
+export type TrackingWorkerResponse =
+    | { type: 'ready' }
+    // Before 'ready': the detector failed to load. After it: a frame failed (answers that frame)
+    | { type: 'error'; message: string }
+    | {
+        type: 'result';
+        pose: Float64Array | null; // encodeTrackingResult, null when no face / pose
+        landmarks: Float32Array | null;
+        timestamp: number;
+        width: number;
+        height: number;
+    };
@@ -162,6 +162,10 @@ export default defineConfig({
     },
   },
   envDir: path.resolve(import.meta.dirname),
+  // The tracking worker imports the MediaPipe Tasks bundle at runtime, which needs a module worker
+  worker: {
+    format: "es",
+  },
   root: path.resolve(import.meta.dirname, "client"),
   build: {
     outDir: path.resolve(import.meta.dirname, "dist/public"),